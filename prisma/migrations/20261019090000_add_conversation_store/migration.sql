@@ -0,0 +1,32 @@
+-- Persist chat threads and their messages so text-mode context survives restarts
+
+-- CreateTable
+CREATE TABLE "public"."conversation_threads" (
+    "id" TEXT NOT NULL,
+    "telegram_id" BIGINT,
+    "title" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "conversation_threads_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."conversation_messages" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "thread_id" TEXT NOT NULL,
+    "role" VARCHAR(20) NOT NULL,
+    "content" TEXT NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "conversation_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_conversation_threads_telegram_id_updated_at" ON "public"."conversation_threads"("telegram_id", "updated_at");
+
+-- CreateIndex
+CREATE INDEX "idx_conversation_messages_thread_id_created_at" ON "public"."conversation_messages"("thread_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."conversation_messages" ADD CONSTRAINT "conversation_messages_thread_id_fkey" FOREIGN KEY ("thread_id") REFERENCES "public"."conversation_threads"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
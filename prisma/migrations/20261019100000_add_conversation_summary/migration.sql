@@ -0,0 +1,5 @@
+-- Rolling summary of turns that no longer fit into the model context window
+
+-- AlterTable
+ALTER TABLE "public"."conversation_threads" ADD COLUMN "summary" TEXT,
+ADD COLUMN "summarized_until" TIMESTAMPTZ(6);
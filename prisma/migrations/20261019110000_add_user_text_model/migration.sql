@@ -0,0 +1,2 @@
+-- Per-user chat model selected with /model (NULL = configured default)
+ALTER TABLE public.gpt_tg_users ADD COLUMN IF NOT EXISTS text_model VARCHAR(50);
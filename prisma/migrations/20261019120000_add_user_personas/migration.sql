@@ -0,0 +1,3 @@
+-- Saved personas (custom system prompts) and the one selected with /persona
+ALTER TABLE public.gpt_tg_users ADD COLUMN IF NOT EXISTS personas JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE public.gpt_tg_users ADD COLUMN IF NOT EXISTS active_persona_id VARCHAR(16);
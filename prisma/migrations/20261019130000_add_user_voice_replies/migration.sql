@@ -0,0 +1,2 @@
+-- Answer text mode messages with synthesized voice (toggled with /voice)
+ALTER TABLE public.gpt_tg_users ADD COLUMN IF NOT EXISTS voice_replies BOOLEAN DEFAULT false;
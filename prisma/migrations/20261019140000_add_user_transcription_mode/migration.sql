@@ -0,0 +1,2 @@
+-- How voice, audio and video notes are handled: 'answer', 'text' or 'srt' (set with /transcribe)
+ALTER TABLE public.gpt_tg_users ADD COLUMN IF NOT EXISTS transcription_mode VARCHAR(16) DEFAULT 'answer';
@@ -0,0 +1,19 @@
+-- Text extracted from documents uploaded to a conversation, used to answer questions about them
+
+-- CreateTable
+CREATE TABLE "public"."conversation_documents" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "thread_id" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "chunks" JSONB NOT NULL,
+    "char_count" INTEGER NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "conversation_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_conversation_documents_thread_id_created_at" ON "public"."conversation_documents"("thread_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."conversation_documents" ADD CONSTRAINT "conversation_documents_thread_id_fkey" FOREIGN KEY ("thread_id") REFERENCES "public"."conversation_threads"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
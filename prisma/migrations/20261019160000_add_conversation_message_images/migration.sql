@@ -0,0 +1,2 @@
+-- Telegram file ids of images attached to a user turn, so follow-up questions can look at them again
+ALTER TABLE public.conversation_messages ADD COLUMN IF NOT EXISTS images TEXT[] NOT NULL DEFAULT '{}';
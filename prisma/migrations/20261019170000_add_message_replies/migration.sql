@@ -0,0 +1,14 @@
+-- Map user prompts to the bot replies they produced, so edited prompts can regenerate the answer
+
+-- CreateTable
+CREATE TABLE "public"."message_replies" (
+    "chat_id" BIGINT NOT NULL,
+    "user_message_id" INTEGER NOT NULL,
+    "bot_message_id" INTEGER,
+    "mode" VARCHAR(10) NOT NULL,
+    "prompt" TEXT NOT NULL,
+    "thread_id" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_replies_pkey" PRIMARY KEY ("chat_id", "user_message_id")
+);
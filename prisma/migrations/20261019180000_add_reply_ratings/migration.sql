@@ -0,0 +1,15 @@
+-- Thumbs up/down feedback on assistant answers, kept with the prompt/response pair for quality review
+
+-- CreateTable
+CREATE TABLE "public"."reply_ratings" (
+    "chat_id" BIGINT NOT NULL,
+    "bot_message_id" INTEGER NOT NULL,
+    "telegram_id" BIGINT NOT NULL,
+    "rating" SMALLINT NOT NULL,
+    "prompt" TEXT NOT NULL,
+    "response" TEXT NOT NULL,
+    "model" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "reply_ratings_pkey" PRIMARY KEY ("chat_id", "bot_message_id")
+);
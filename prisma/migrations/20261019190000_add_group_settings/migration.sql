@@ -0,0 +1,11 @@
+-- Per-group configuration set by group admins: shared or personal threads, and a counter bumped by /groupreset
+
+-- CreateTable
+CREATE TABLE "public"."group_settings" (
+    "chat_id" BIGINT NOT NULL,
+    "thread_mode" VARCHAR(10) NOT NULL DEFAULT 'shared',
+    "thread_epoch" INTEGER NOT NULL DEFAULT 0,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "group_settings_pkey" PRIMARY KEY ("chat_id")
+);
@@ -0,0 +1,26 @@
+-- Image and video generation jobs, so a restart resumes them instead of losing the result
+
+-- CreateTable
+CREATE TABLE "public"."generation_jobs" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "kind" VARCHAR(10) NOT NULL,
+    "provider" VARCHAR(20) NOT NULL,
+    "telegram_id" BIGINT NOT NULL,
+    "chat_id" BIGINT NOT NULL,
+    "status" VARCHAR(10) NOT NULL DEFAULT 'queued',
+    "task_id" TEXT,
+    "status_message_id" INTEGER,
+    "params" JSONB NOT NULL,
+    "result" JSONB,
+    "error" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "generation_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_generation_jobs_status" ON "public"."generation_jobs"("status");
+
+-- CreateIndex
+CREATE INDEX "idx_generation_jobs_telegram_id_kind_status" ON "public"."generation_jobs"("telegram_id", "kind", "status");
@@ -0,0 +1,4 @@
+-- Variations and rerolls look up the job of the grid they start from by its provider task id
+
+-- CreateIndex
+CREATE INDEX "idx_generation_jobs_task_id" ON "public"."generation_jobs"("task_id");
@@ -0,0 +1,3 @@
+-- Redoing an answer replaces the exact thread turn of the prompt and removes every part of the old answer
+ALTER TABLE public.message_replies ADD COLUMN IF NOT EXISTS part_message_ids INTEGER[] DEFAULT ARRAY[]::INTEGER[];
+ALTER TABLE public.message_replies ADD COLUMN IF NOT EXISTS conversation_message_id UUID;
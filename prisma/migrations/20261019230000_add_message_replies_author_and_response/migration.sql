@@ -0,0 +1,4 @@
+-- Answer buttons check the prompt author; ratings take the model and full answer from the reply
+ALTER TABLE public.message_replies ADD COLUMN IF NOT EXISTS telegram_id BIGINT;
+ALTER TABLE public.message_replies ADD COLUMN IF NOT EXISTS model TEXT;
+ALTER TABLE public.message_replies ADD COLUMN IF NOT EXISTS response TEXT;
@@ -8,6 +8,7 @@
 import 'dotenv/config';
 import { startBotWebhook } from './tg-bot.js';
 import { startWebhook } from './handlers/webhook-handler.js';
+import { startJobQueue } from './flows/jobs.js';
 
 interface DevConfig {
   botToken: string;
@@ -46,6 +47,7 @@ async function startDevelopment(): Promise<void> {
     // Start webhook with ngrok
     console.log('🌐 Setting up Fastify webhook with ngrok...');
     const webhookHandler = await startWebhook(bot);
+    await startJobQueue(bot);
 
     // Display development info
     console.log('\n🎉 Development server started successfully!');
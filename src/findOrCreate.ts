@@ -5,7 +5,7 @@ import { DbUser } from './types';
 export const findOrCreate = async (userId: number): Promise<DbUser | null> => {
   let user = await findUser(userId);
   if (!user) {
-    const thread = await createThread();
+    const thread = await createThread(userId);
     user = await createUser(userId, thread.id);
   }
   return user;
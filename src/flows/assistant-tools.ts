@@ -0,0 +1,135 @@
+import { BotTool, ToolContext, ToolRegistry } from '@/handlers/tool-registry.js';
+import { getUserStats } from '@/handlers/supabase-handler.js';
+import { getImageProvider } from '@/handlers/image-provider.js';
+import { getJobQueue } from '@/handlers/job-queue.js';
+import { isFalVideoConfigured } from '@/handlers/fal-video-handler.js';
+import { ImageJobParams } from './image.js';
+import { handleVideoGeneration } from './video.js';
+
+const TOOL_ASPECT_RATIOS = ['1:1', '16:9', '9:16', '4:3', '3:4'] as const;
+
+interface GenerateImageArgs {
+  prompt: string;
+  aspect_ratio?: (typeof TOOL_ASPECT_RATIOS)[number];
+}
+
+/**
+ * Queue a picture with the provider chosen in photo mode; the job sends it to the chat
+ */
+async function startImageJob(
+  { msg, user, userId }: ToolContext,
+  { prompt, aspect_ratio = '1:1' }: GenerateImageArgs,
+): Promise<string> {
+  const provider = getImageProvider(user.image_provider);
+  if (!provider.isConfigured()) throw new Error('Image generation is not configured');
+  const { aspectRatios } = provider.capabilities;
+  if (!aspectRatios.includes(aspect_ratio)) {
+    throw new Error(
+      `${provider.label} does not support aspect ratio ${aspect_ratio}; use one of ${aspectRatios.join(', ')}`,
+    );
+  }
+
+  const jobQueue = getJobQueue();
+  // Same guard as photo mode: one image at a time per user
+  if (await jobQueue.hasUnfinishedJob(userId, 'image')) {
+    throw new Error('Another image of this user is still being generated');
+  }
+  const params: ImageJobParams = {
+    action: 'imagine',
+    request: { prompt, aspectRatio: aspect_ratio },
+    isEdit: false,
+  };
+  await jobQueue.enqueue({
+    kind: 'image',
+    provider: provider.name,
+    telegram_id: userId,
+    chat_id: msg.chat.id,
+    params,
+  });
+  return 'Image generation started. Tell the user the picture will arrive in the chat shortly.';
+}
+
+const generateImageTool: BotTool<GenerateImageArgs> = {
+  definition: {
+    name: 'generate_image',
+    description:
+      'Draw a picture and send it to the chat. Use when the user asks to draw, generate or ' +
+      'create an image. Write the prompt in English with the subject, style and details.',
+    parameters: {
+      type: 'object',
+      properties: {
+        prompt: { type: 'string', description: 'Detailed description of the image' },
+        aspect_ratio: { type: 'string', enum: [...TOOL_ASPECT_RATIOS] },
+      },
+      required: ['prompt'],
+    },
+  },
+  // The generation job charges the request once the image is delivered
+  cost: { quota: 'image_req_left', amount: 1, chargedByHandler: true },
+  status: '🎨 Рисую изображение...',
+  execute(args, context) {
+    return startImageJob(context, args);
+  },
+};
+
+const getQuotaTool: BotTool = {
+  definition: {
+    name: 'get_quota',
+    description:
+      'Get how many text, image and video requests the user has left and whether they have premium.',
+    parameters: { type: 'object', properties: {} },
+  },
+  timeoutMs: 10_000,
+  async execute(_args, { userId }) {
+    const stats = await getUserStats(userId);
+    if (!stats) throw new Error('Could not load the user quota');
+    return JSON.stringify({
+      text_requests_left: stats.text_req_left,
+      image_requests_left: stats.image_req_left,
+      video_requests_left: stats.video_req_left,
+      is_premium: stats.is_premium,
+      how_to_get_more: 'Premium via the /pay command',
+    });
+  },
+};
+
+const startVideoTool: BotTool<{ prompt: string }> = {
+  definition: {
+    name: 'start_video',
+    description:
+      'Start generating a short video from a text description. It takes a few minutes and ' +
+      'the video is sent to the chat when ready. Write the prompt in English.',
+    parameters: {
+      type: 'object',
+      properties: {
+        prompt: { type: 'string', description: 'Description of the scene and the motion' },
+      },
+      required: ['prompt'],
+    },
+  },
+  // Video mode charges the request once the video is delivered
+  cost: { quota: 'video_req_left', amount: 1, chargedByHandler: true },
+  status: '🎬 Запускаю генерацию видео...',
+  async execute({ prompt }, { bot, msg }) {
+    if (!isFalVideoConfigured()) throw new Error('Video generation is not configured');
+    if (!(await handleVideoGeneration(bot, { ...msg, text: prompt }))) {
+      throw new Error('Video generation was refused; the reason has been sent to the chat');
+    }
+    return 'Video generation started. Tell the user it will arrive in the chat in a few minutes.';
+  },
+};
+
+/**
+ * Tools offered in text mode, so users can ask in chat for what the other modes do
+ */
+export const assistantTools = new ToolRegistry()
+  .register(generateImageTool)
+  .register(getQuotaTool)
+  .register(startVideoTool);
+
+/**
+ * Tool calls can be turned off, e.g. for local models without function calling
+ */
+export function isAssistantToolsEnabled(): boolean {
+  return process.env.ASSISTANT_TOOLS !== 'false';
+}
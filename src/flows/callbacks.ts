@@ -1,23 +1,38 @@
 import type { TelegramLikeBot as TelegramBot } from '../tg-client.js';
-import type {
-  CallbackData,
-  ImageProvider,
-  TelegramCallbackQuery,
-  FileOptions,
-} from '@/types/index.js';
-import {
-  findUser,
-  canConsumeRequest,
-  decreaseRequests,
-  getUserStats,
-  updateUser,
-} from '@/handlers/supabase-handler.js';
-import { getTaskStatus, upscaleImage } from '@/handlers/goapi-handler.js';
-import { safeEditMessageText, fetchImageBuffer } from '@/handlers/handler-utils.js';
-import { logInteraction } from '@/utils/logger.js';
+import type { CallbackData, TelegramCallbackQuery, TelegramMessage } from '@/types/index.js';
+import { findUser, updateUser } from '@/handlers/supabase-handler.js';
+import { safeEditMessageText } from '@/handlers/handler-utils.js';
+import { parseImageAction } from '@/handlers/goapi-handler.js';
 import { handlePaymentCallback } from '@/handlers/payment-handler.js';
 import { handleTermsCallback } from '@/handlers/terms-handler.js';
 import { createMainKeyboard } from '@/handlers/handler-utils.js';
+import { getAvailableTextModels } from '@/handlers/llm-provider.js';
+import { getImageProvider, isImageProviderName } from '@/handlers/image-provider.js';
+import { createModelKeyboard, modelMenuText } from '@/replies/model.js';
+import { createImageProviderKeyboard, imageProviderText } from '@/replies/photo.js';
+import { createVoiceModeKeyboard, voiceModeText } from '@/replies/voice-mode.js';
+import {
+  createTranscriptionModeKeyboard,
+  isTranscriptionMode,
+  transcriptionModeText,
+} from '@/replies/transcription-mode.js';
+import { getReplyStore } from '@/handlers/reply-store.js';
+import { getRatingStore } from '@/handlers/rating-store.js';
+import { exportConversation, switchConversation } from './conversations.js';
+import { handleImageActionCallback, handlePhotoGeneration } from './image.js';
+import { handleVideoGeneration } from './video.js';
+import { CONTINUE_PROMPT, handleTextGeneration, isLatestReply, regenerateReply } from './text.js';
+import { getChatUser } from './groups.js';
+import { getGroupStore } from '@/handlers/group-store.js';
+import { isGroupAdmin } from '@/handlers/group-chat.js';
+import {
+  createGroupSettingsKeyboard,
+  groupSettingsText,
+  isGroupThreadMode,
+} from '@/replies/group-settings.js';
+import { handlePersonaCallback } from './personas.js';
+
+const NOT_AUTHOR_TEXT = 'Кнопка доступна только автору вопроса';
 
 export async function handleCallbackQuery(
   bot: TelegramBot,
@@ -46,69 +61,37 @@ export async function handleCallbackQuery(
     return;
   }
 
+  // Handle buttons under a generated grid or upscaled image; older buttons carry no action
+  const imageAction = parseImageAction(data);
+  if (imageAction) {
+    const user = await findUser(userId);
+    if (!user) return;
+    await handleImageActionCallback(bot, callbackQuery, imageAction);
+    return;
+  }
+
+  if (await handlePersonaCallback(bot, callbackQuery, data)) return;
+
   // Handle provider switching
   if (data.action === 'set_provider') {
-    const provider = data.provider as ImageProvider;
-    if (provider === 'goapi' || provider === 'fal-ai') {
+    if (isImageProviderName(data.provider)) {
+      const provider = data.provider;
       try {
         await updateUser(userId, { image_provider: provider });
 
-        const keyboard = {
-          inline_keyboard: [
-            [
-              {
-                text: provider === 'goapi' ? '✅ (Midjourney)' : '(Midjourney)',
-                callback_data: JSON.stringify({ action: 'set_provider', provider: 'goapi' }),
-              },
-            ],
-            [
-              {
-                text: provider === 'fal-ai' ? '🍌 (Nano Banana)' : '(Nano Banana)',
-                callback_data: JSON.stringify({ action: 'set_provider', provider: 'fal-ai' }),
-              },
-            ],
-            [
-              {
-                text: '🚀 Начать генерацию',
-                callback_data: JSON.stringify({ action: 'proceed_to_generation' }),
-              },
-            ],
-            [
-              {
-                text: '🔙 Главное меню',
-                callback_data: JSON.stringify({ action: 'back_to_main' }),
-              },
-            ],
-          ],
-        };
-
         try {
-          await bot.editMessageText(
-            `🎨 **Генерация изображений**\n\n` +
-              `**Текущий провайдер:** ${provider === 'goapi' ? '(Midjourney)' : '🍌 (Nano Banana)'}\n\n` +
-              `**(Midjourney):**\n` +
-              `• Высокое качество художественных изображений\n` +
-              `• Стилизованная генерация\n` +
-              `• Поддержка upscale и вариаций\n` +
-              `• Редактирование изображений\n\n` +
-              `**(Nano Banana):**\n` +
-              `• Фотореалистичные изображения\n` +
-              `• Быстрая генерация\n` +
-              `• Хорошее понимание текста\n` +
-              `Выберите провайдера для генерации изображений:`,
-            {
-              chat_id: chatId,
-              message_id: msg.message_id,
-              parse_mode: 'Markdown',
-              reply_markup: keyboard,
-            },
-          );
+          await bot.editMessageText(imageProviderText(provider), {
+            chat_id: chatId,
+            message_id: msg.message_id,
+            parse_mode: 'Markdown',
+            reply_markup: createImageProviderKeyboard(provider),
+          });
         } catch (editError) {
           console.error('Error editing message:', editError);
         }
 
         await bot.answerCallbackQuery(callbackQuery.id, {
-          text: `Провайдер изменен на ${provider === 'goapi' ? '(Midjourney)' : '🍌 (Nano Banana)'}`,
+          text: `Провайдер изменен на (${getImageProvider(provider).label})`,
         });
       } catch (error) {
         console.error('Error updating image provider:', error);
@@ -121,6 +104,289 @@ export async function handleCallbackQuery(
     return;
   }
 
+  // Handle chat model switching
+  if (data.action === 'set_model') {
+    const model = getAvailableTextModels().find(m => m.id === data.model);
+    if (model) {
+      try {
+        const updated = await updateUser(userId, { text_model: model.id });
+        if (!updated) throw new Error('User update failed');
+
+        try {
+          await bot.editMessageText(modelMenuText(model.label), {
+            chat_id: chatId,
+            message_id: msg.message_id,
+            parse_mode: 'Markdown',
+            reply_markup: createModelKeyboard(model.id),
+          });
+        } catch (editError) {
+          console.error('Error editing message:', editError);
+        }
+
+        await bot.answerCallbackQuery(callbackQuery.id, {
+          text: `Модель изменена на ${model.label}`,
+        });
+      } catch (error) {
+        console.error('Error updating text model:', error);
+        await bot.answerCallbackQuery(callbackQuery.id, {
+          text: '❌ Ошибка при изменении модели',
+          show_alert: true,
+        });
+      }
+    } else {
+      await bot.answerCallbackQuery(callbackQuery.id, {
+        text: '❌ Модель недоступна',
+        show_alert: true,
+      });
+    }
+    return;
+  }
+
+  // Handle voice replies toggle
+  if (data.action === 'set_voice_replies') {
+    const enabled = data.enabled === true;
+    try {
+      const updated = await updateUser(userId, { voice_replies: enabled });
+      if (!updated) throw new Error('User update failed');
+
+      try {
+        await bot.editMessageText(voiceModeText(enabled), {
+          chat_id: chatId,
+          message_id: msg.message_id,
+          parse_mode: 'Markdown',
+          reply_markup: createVoiceModeKeyboard(enabled),
+        });
+      } catch (editError) {
+        console.error('Error editing message:', editError);
+      }
+
+      await bot.answerCallbackQuery(callbackQuery.id, {
+        text: enabled ? '🔊 Голосовые ответы включены' : '📝 Голосовые ответы выключены',
+      });
+    } catch (error) {
+      console.error('Error updating voice replies:', error);
+      await bot.answerCallbackQuery(callbackQuery.id, {
+        text: '❌ Ошибка при изменении настройки',
+        show_alert: true,
+      });
+    }
+    return;
+  }
+
+  // Handle transcription mode selection
+  if (data.action === 'set_transcription_mode') {
+    if (!isTranscriptionMode(data.mode)) {
+      await bot.answerCallbackQuery(callbackQuery.id, { text: '❌ Неизвестный режим' });
+      return;
+    }
+    const mode = data.mode;
+    try {
+      const updated = await updateUser(userId, { transcription_mode: mode });
+      if (!updated) throw new Error('User update failed');
+
+      try {
+        await bot.editMessageText(transcriptionModeText(mode), {
+          chat_id: chatId,
+          message_id: msg.message_id,
+          parse_mode: 'Markdown',
+          reply_markup: createTranscriptionModeKeyboard(mode),
+        });
+      } catch (editError) {
+        console.error('Error editing message:', editError);
+      }
+
+      await bot.answerCallbackQuery(callbackQuery.id, { text: '✅ Режим расшифровки изменён' });
+    } catch (error) {
+      console.error('Error updating transcription mode:', error);
+      await bot.answerCallbackQuery(callbackQuery.id, {
+        text: '❌ Ошибка при изменении настройки',
+        show_alert: true,
+      });
+    }
+    return;
+  }
+
+  // Handle rerunning a photo/video generation with an edited prompt
+  if (data.action === 'regen_edited' && typeof data.m === 'number') {
+    const reply = await getReplyStore().getReply(chatId, data.m);
+    if (!reply || reply.mode === 'text') {
+      await bot.answerCallbackQuery(callbackQuery.id, { text: '❌ Промпт не найден' });
+      return;
+    }
+    if (reply.telegram_id !== userId) {
+      await bot.answerCallbackQuery(callbackQuery.id, { text: NOT_AUTHOR_TEXT, show_alert: true });
+      return;
+    }
+    await bot.answerCallbackQuery(callbackQuery.id, { text: '🔄 Запускаю генерацию' });
+    await safeEditMessageText(
+      bot,
+      chatId,
+      msg.message_id,
+      `🔄 Генерация по новому промпту:\n\n${reply.prompt}`,
+    );
+    // The prompt itself can't be fetched back from Telegram, so its stored text stands in
+    const prompt: TelegramMessage = {
+      message_id: reply.user_message_id,
+      date: msg.date,
+      chat: msg.chat,
+      from: callbackQuery.from,
+      text: reply.prompt,
+    };
+    if (reply.mode === 'photo') {
+      await handlePhotoGeneration(bot, prompt);
+    } else {
+      await handleVideoGeneration(bot, prompt);
+    }
+    return;
+  }
+
+  // Handle "Regenerate" and "Continue" under an assistant answer
+  if (
+    (data.action === 'answer_regen' || data.action === 'answer_continue') &&
+    typeof data.m === 'number'
+  ) {
+    const reply = await getReplyStore().getReply(chatId, data.m);
+    if (reply && reply.telegram_id !== userId) {
+      await bot.answerCallbackQuery(callbackQuery.id, { text: NOT_AUTHOR_TEXT, show_alert: true });
+      return;
+    }
+    const found = await findUser(userId);
+    const user = found && (await getChatUser(msg.chat, found, userId));
+    if (!reply || !user || !(await isLatestReply(reply, user))) {
+      await bot.answerCallbackQuery(callbackQuery.id, {
+        text: 'Доступно только для последнего ответа текущего диалога',
+        show_alert: true,
+      });
+      return;
+    }
+    await bot.answerCallbackQuery(callbackQuery.id);
+    const prompt: TelegramMessage = {
+      message_id: reply.user_message_id,
+      date: msg.date,
+      chat: msg.chat,
+      from: callbackQuery.from,
+      text: reply.prompt,
+    };
+    if (data.action === 'answer_regen') {
+      await regenerateReply(bot, prompt, user, reply);
+    } else {
+      // The continuation answers the previous answer, which keys it in the reply store
+      await handleTextGeneration(
+        bot,
+        { ...prompt, message_id: reply.bot_message_id!, text: CONTINUE_PROMPT },
+        user,
+      );
+    }
+    return;
+  }
+
+  // Handle 👍/👎 feedback on an assistant answer
+  if (data.action === 'answer_rate' && typeof data.m === 'number') {
+    const reply = await getReplyStore().getReply(chatId, data.m);
+    if (!reply) {
+      await bot.answerCallbackQuery(callbackQuery.id, { text: '❌ Ответ не найден' });
+      return;
+    }
+    if (reply.telegram_id !== userId) {
+      await bot.answerCallbackQuery(callbackQuery.id, { text: NOT_AUTHOR_TEXT, show_alert: true });
+      return;
+    }
+    try {
+      await getRatingStore().saveRating({
+        chat_id: chatId,
+        bot_message_id: msg.message_id,
+        telegram_id: userId,
+        rating: data.v === -1 ? -1 : 1,
+        prompt: reply.prompt,
+        // The button sits on the last part only, so the shown text may be a fragment
+        response: reply.response ?? msg.text ?? '',
+        model: reply.model,
+      });
+      await bot.answerCallbackQuery(callbackQuery.id, { text: 'Спасибо за оценку!' });
+    } catch (error) {
+      console.error('Error saving answer rating:', error);
+      await bot.answerCallbackQuery(callbackQuery.id, { text: '❌ Не удалось сохранить оценку' });
+    }
+    return;
+  }
+
+  // Handle group thread mode selection from /groupsettings
+  if (data.action === 'set_group_thread_mode') {
+    if (!isGroupThreadMode(data.mode)) {
+      await bot.answerCallbackQuery(callbackQuery.id, { text: '❌ Неизвестный режим' });
+      return;
+    }
+    if (!(await isGroupAdmin(bot, chatId, userId))) {
+      await bot.answerCallbackQuery(callbackQuery.id, {
+        text: '⛔ Менять настройки могут только администраторы группы',
+        show_alert: true,
+      });
+      return;
+    }
+    try {
+      const settings = await getGroupStore().updateSettings(chatId, { thread_mode: data.mode });
+      try {
+        await bot.editMessageText(groupSettingsText(settings), {
+          chat_id: chatId,
+          message_id: msg.message_id,
+          parse_mode: 'Markdown',
+          reply_markup: createGroupSettingsKeyboard(settings.thread_mode),
+        });
+      } catch (editError) {
+        console.error('Error editing message:', editError);
+      }
+      await bot.answerCallbackQuery(callbackQuery.id, { text: '✅ Настройки группы изменены' });
+    } catch (error) {
+      console.error('Error updating group settings:', error);
+      await bot.answerCallbackQuery(callbackQuery.id, {
+        text: '❌ Ошибка при изменении настройки',
+        show_alert: true,
+      });
+    }
+    return;
+  }
+
+  // Handle switching to a thread from /history
+  if (data.action === 'use_thread' && data.t_id) {
+    try {
+      const switched = await switchConversation(bot, chatId, msg.message_id, userId, data.t_id);
+      await bot.answerCallbackQuery(
+        callbackQuery.id,
+        switched ? undefined : { text: '❌ Диалог не найден', show_alert: true },
+      );
+    } catch (error) {
+      console.error('Error switching conversation:', error);
+      await bot.answerCallbackQuery(callbackQuery.id, {
+        text: '❌ Ошибка при переключении диалога',
+        show_alert: true,
+      });
+    }
+    return;
+  }
+
+  // Handle /export format selection
+  if (data.action === 'export_thread') {
+    try {
+      await bot.answerCallbackQuery(callbackQuery.id);
+      const user = await findUser(userId);
+      if (!user?.openai_thread_id) {
+        await bot.sendMessage(chatId, '📭 В текущем диалоге пока нет сообщений.');
+        return;
+      }
+      await bot.sendChatAction(chatId, 'upload_document');
+      await exportConversation(
+        bot,
+        chatId,
+        user.openai_thread_id,
+        data.format === 'json' ? 'json' : 'md',
+      );
+    } catch (error) {
+      console.error('Error exporting conversation:', error);
+      await bot.sendMessage(chatId, '❌ Не удалось выгрузить диалог. Попробуйте снова.');
+    }
+    return;
+  }
+
   // Handle back to main menu
   if (data.action === 'back_to_main') {
     try {
@@ -262,127 +528,8 @@ export async function handleCallbackQuery(
     return;
   }
 
-  const { t_id: taskId, idx: index } = data;
-  if (index === undefined) {
-    await bot.answerCallbackQuery(callbackQuery.id, {
-      text: '❌ Неверный индекс',
-      show_alert: true,
-    });
-    return;
-  }
-  const user = await findUser(userId);
-  if (!user) return;
-  const canUse = await canConsumeRequest(userId, 'image_req_left');
-  if (!canUse) {
-    const stats = await getUserStats(userId);
-    await bot.answerCallbackQuery(callbackQuery.id, {
-      text: `❌ Нет запросов. Осталось: Изображения ${stats?.image_req_left ?? 0}`,
-      show_alert: true,
-    });
-    return;
-  }
-  await bot.answerCallbackQuery(callbackQuery.id, { text: `Processing upscale ${index}...` });
-  const statusMsg = await bot.sendMessage(chatId, `↗ Улучшаем качество изображения ...`);
-  try {
-    if (!taskId) {
-      await safeEditMessageText(bot, chatId, statusMsg.message_id, '❌ Неверный task ID');
-      return;
-    }
-    const upscaleResult = await upscaleImage(taskId, index);
-    if (!upscaleResult.success) {
-      await safeEditMessageText(
-        bot,
-        chatId,
-        statusMsg.message_id,
-        `❌ Улучшение изображения не удалось: ${upscaleResult.error?.message}`,
-      );
-      return;
-    }
-    const newTaskId = upscaleResult.data?.data?.task_id;
-    if (!newTaskId) {
-      await safeEditMessageText(
-        bot,
-        chatId,
-        statusMsg.message_id,
-        '❌ Нет task ID улучшения изображения',
-      );
-      return;
-    }
-    const maxAttempts = 40;
-    let attempts = 0;
-    const pollInterval = setInterval(async () => {
-      try {
-        attempts++;
-        const statusResult = await getTaskStatus(newTaskId);
-        if (statusResult.success) {
-          const taskData = statusResult.data?.data;
-          if (!taskData) return;
-          const status = taskData.status;
-          if (status === 'completed') {
-            clearInterval(pollInterval);
-            const imageUrl = taskData.output.image_url;
-            if (imageUrl) {
-              try {
-                const { buffer, filename, contentType } = await fetchImageBuffer(imageUrl);
-                const fileOptions: FileOptions = contentType
-                  ? { filename, contentType }
-                  : { filename };
-                await bot.sendPhoto(
-                  chatId,
-                  buffer,
-                  { caption: `✅ Улучшенное изображение ${index}` },
-                  fileOptions,
-                );
-              } catch {
-                await bot.sendPhoto(chatId, imageUrl, {
-                  caption: `✅ Улучшенное изображение ${index}`,
-                });
-              }
-              await logInteraction({
-                userId,
-                chatId,
-                direction: 'bot',
-                type: 'image',
-                content: imageUrl,
-                meta: { upscaledIndex: index },
-              });
-              try {
-                await bot.deleteMessage(chatId, statusMsg.message_id);
-              } catch {}
-              await decreaseRequests(userId, 'image_req_left', 1);
-            } else {
-              await safeEditMessageText(
-                bot,
-                chatId,
-                statusMsg.message_id,
-                '❌ Улучшение изображения завершено, но нет изображения',
-              );
-            }
-          } else if (status === 'failed') {
-            clearInterval(pollInterval);
-            await safeEditMessageText(
-              bot,
-              chatId,
-              statusMsg.message_id,
-              '❌ Ошибка, попробуйте другой запрос',
-            );
-          } else if (attempts >= maxAttempts) {
-            clearInterval(pollInterval);
-            await safeEditMessageText(
-              bot,
-              chatId,
-              statusMsg.message_id,
-              '⏰ Улучшение изображения завершено',
-            );
-          }
-        }
-      } catch (error) {
-        clearInterval(pollInterval);
-        console.error('Ошибка в polling улучшения изображения:', error);
-      }
-    }, 5000);
-  } catch (error) {
-    console.error('Ошибка в handleCallbackQuery:', error);
-    await safeEditMessageText(bot, chatId, statusMsg.message_id, '❌ Ошибка при обработке запроса');
-  }
+  await bot.answerCallbackQuery(callbackQuery.id, {
+    text: '❌ Неизвестное действие',
+    show_alert: true,
+  });
 }
@@ -0,0 +1,172 @@
+import type { TelegramLikeBot as TelegramBot } from '../tg-client.js';
+import type {
+  ConversationThread,
+  DbUser,
+  StoredConversationMessage,
+  TelegramInlineKeyboard,
+} from '@/types/index.js';
+import { updateUser } from '@/handlers/supabase-handler.js';
+import { createThread } from '@/handlers/openai-handler.js';
+import { getConversationStore } from '@/handlers/conversation-store.js';
+import { createMainKeyboard } from '@/handlers/handler-utils.js';
+import { getActivePersona } from '@/handlers/persona-handler.js';
+
+const HISTORY_LIMIT = 10;
+
+export type ExportFormat = 'md' | 'json';
+
+function threadLabel(thread: ConversationThread): string {
+  return `${thread.title ?? 'Без названия'} · ${thread.updated_at.toISOString().slice(0, 10)}`;
+}
+
+/**
+ * Render a conversation as a Markdown document. The system prompt is left out.
+ */
+export function formatConversationMarkdown(
+  thread: ConversationThread,
+  messages: StoredConversationMessage[],
+): string {
+  const lines = [`# ${thread.title ?? 'Диалог'}`, '', `_${thread.created_at.toISOString()}_`, ''];
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+    lines.push(`## ${message.role === 'user' ? '👤 Вы' : '🤖 Ассистент'}`, '', message.content, '');
+  }
+  return lines.join('\n');
+}
+
+export function formatConversationJson(
+  thread: ConversationThread,
+  messages: StoredConversationMessage[],
+): string {
+  return JSON.stringify(
+    {
+      id: thread.id,
+      title: thread.title,
+      created_at: thread.created_at.toISOString(),
+      messages: messages
+        .filter(m => m.role !== 'system')
+        .map(m => ({ role: m.role, content: m.content, created_at: m.created_at.toISOString() })),
+    },
+    null,
+    2,
+  );
+}
+
+export async function handleNewConversation(
+  bot: TelegramBot,
+  chatId: number,
+  user: DbUser,
+  userId: number,
+): Promise<void> {
+  try {
+    const thread = await createThread(userId, getActivePersona(user)?.prompt);
+    const updated = await updateUser(userId, { openai_thread_id: thread.id });
+    if (!updated) throw new Error('User update failed');
+    await bot.sendMessage(chatId, '🆕 Начат новый диалог. Предыдущий доступен в /history', {
+      reply_markup: createMainKeyboard(),
+    });
+  } catch (error) {
+    console.error('Ошибка в handleNewConversation:', error);
+    await bot.sendMessage(chatId, '❌ Не удалось начать новый диалог. Попробуйте снова.');
+  }
+}
+
+export async function showConversationHistory(
+  bot: TelegramBot,
+  chatId: number,
+  user: DbUser,
+  userId: number,
+): Promise<void> {
+  const threads = await getConversationStore().listThreads(userId, HISTORY_LIMIT);
+  if (threads.length === 0) {
+    await bot.sendMessage(chatId, '📭 История диалогов пуста.');
+    return;
+  }
+
+  const keyboard: TelegramInlineKeyboard = {
+    inline_keyboard: threads.map(thread => [
+      {
+        text: `${thread.id === user.openai_thread_id ? '✅ ' : ''}${threadLabel(thread)}`,
+        callback_data: JSON.stringify({ action: 'use_thread', t_id: thread.id }),
+      },
+    ]),
+  };
+
+  await bot.sendMessage(chatId, '🗂 **Ваши диалоги**\n\nВыберите диалог, чтобы продолжить его:', {
+    parse_mode: 'Markdown',
+    reply_markup: keyboard,
+  });
+}
+
+export async function switchConversation(
+  bot: TelegramBot,
+  chatId: number,
+  messageId: number,
+  userId: number,
+  threadId: string,
+): Promise<boolean> {
+  const thread = await getConversationStore().getThread(threadId);
+  // Callback data comes from the client, so never switch to someone else's thread
+  if (!thread || thread.telegram_id !== userId) return false;
+
+  const updated = await updateUser(userId, { openai_thread_id: thread.id });
+  if (!updated) return false;
+
+  await bot.editMessageText(`✅ Продолжаем диалог «${thread.title ?? 'Без названия'}»`, {
+    chat_id: chatId,
+    message_id: messageId,
+  });
+  return true;
+}
+
+export async function showExportOptions(bot: TelegramBot, chatId: number): Promise<void> {
+  await bot.sendMessage(chatId, '📤 В каком формате выгрузить текущий диалог?', {
+    reply_markup: {
+      inline_keyboard: [
+        [
+          {
+            text: '📝 Markdown',
+            callback_data: JSON.stringify({ action: 'export_thread', format: 'md' }),
+          },
+          {
+            text: '🧾 JSON',
+            callback_data: JSON.stringify({ action: 'export_thread', format: 'json' }),
+          },
+        ],
+      ],
+    },
+  });
+}
+
+export async function exportConversation(
+  bot: TelegramBot,
+  chatId: number,
+  threadId: string,
+  format: ExportFormat,
+): Promise<void> {
+  const store = getConversationStore();
+  const [thread, messages] = await Promise.all([
+    store.getThread(threadId),
+    store.getMessages(threadId),
+  ]);
+  if (!thread || !messages || messages.every(m => m.role === 'system')) {
+    await bot.sendMessage(chatId, '📭 В текущем диалоге пока нет сообщений.');
+    return;
+  }
+
+  const content =
+    format === 'json'
+      ? formatConversationJson(thread, messages)
+      : formatConversationMarkdown(thread, messages);
+  const date = thread.updated_at.toISOString().slice(0, 10);
+
+  await bot.sendDocument(
+    chatId,
+    Buffer.from(content, 'utf-8'),
+    { caption: `📤 ${thread.title ?? 'Диалог'}` },
+    {
+      filename: `conversation-${date}.${format}`,
+      contentType: format === 'json' ? 'application/json' : 'text/markdown',
+    },
+  );
+}
@@ -0,0 +1,108 @@
+import axios from 'axios';
+import type { TelegramLikeBot as TelegramBot } from '../tg-client.js';
+import type { TelegramMessage } from '@/types/index.js';
+import {
+  findUser,
+  canConsumeRequest,
+  decreaseRequests,
+  getUserStats,
+} from '@/handlers/supabase-handler.js';
+import { ensureThread } from '@/handlers/openai-handler.js';
+import { MAX_DOCUMENT_CHARS, chunkDocument, getDocumentCost } from '@/handlers/document-handler.js';
+import { getDocumentStore } from '@/handlers/document-store.js';
+import { detectDocumentFormat, extractDocumentText } from '@/utils/document-text.js';
+import { logInteraction } from '@/utils/logger.js';
+import { TELEGRAM_DOWNLOAD_LIMIT } from '@/handlers/handler-utils.js';
+import { handleTextGeneration } from './text.js';
+
+/**
+ * Extract the text of an uploaded document and attach it to the current conversation.
+ * A caption is treated as the first question about the document.
+ */
+export async function handleDocumentMessage(bot: TelegramBot, msg: TelegramMessage): Promise<void> {
+  const chatId = msg.chat.id;
+  const userId = msg.from?.id;
+  const document = msg.document;
+  if (!userId || !document) return;
+
+  const format = detectDocumentFormat(document.file_name, document.mime_type);
+  if (!format) {
+    await bot.sendMessage(
+      chatId,
+      '📄 Этот формат не поддерживается. Отправьте PDF, DOCX, TXT, CSV или Markdown.',
+    );
+    return;
+  }
+  if ((document.file_size ?? 0) > TELEGRAM_DOWNLOAD_LIMIT) {
+    await bot.sendMessage(chatId, '❌ Файл слишком большой. Максимальный размер — 20 МБ.');
+    return;
+  }
+
+  try {
+    const user = await findUser(userId);
+    if (!user) return;
+    if (!user.openai_thread_id) {
+      await bot.sendMessage(chatId, '❌ Не найден OpenAI thread для пользователя.');
+      return;
+    }
+
+    await bot.sendChatAction(chatId, 'upload_document');
+    const fileLink = await bot.getFileLink(document.file_id);
+    const response = await axios.get(fileLink, { responseType: 'arraybuffer' });
+    const sections = await extractDocumentText(Buffer.from(response.data as ArrayBuffer), format);
+    const charCount = sections.reduce((sum, section) => sum + section.text.length, 0);
+
+    if (charCount === 0) {
+      await bot.sendMessage(
+        chatId,
+        '❌ В документе не найден текст. Сканы без текстового слоя пока не поддерживаются.',
+      );
+      return;
+    }
+    if (charCount > MAX_DOCUMENT_CHARS) {
+      await bot.sendMessage(chatId, '❌ Документ слишком длинный для обработки.');
+      return;
+    }
+
+    const cost = getDocumentCost(charCount);
+    if (!(await canConsumeRequest(userId, 'text_req_left', cost))) {
+      const stats = await getUserStats(userId);
+      await bot.sendMessage(
+        chatId,
+        `❌ Для этого документа нужно текстовых запросов: ${cost}. Осталось: ${stats?.text_req_left ?? 0}`,
+      );
+      return;
+    }
+
+    const filename = document.file_name ?? `document.${format}`;
+    await ensureThread(user.openai_thread_id, userId);
+    const chunks = chunkDocument(sections);
+    await getDocumentStore().addDocument({
+      thread_id: user.openai_thread_id,
+      filename,
+      chunks,
+      char_count: charCount,
+    });
+    await decreaseRequests(userId, 'text_req_left', cost);
+    await logInteraction({
+      userId,
+      chatId,
+      direction: 'user',
+      type: 'other',
+      content: filename,
+    });
+
+    await bot.sendMessage(
+      chatId,
+      `📄 Документ «${filename}» добавлен в диалог (${chunks.length} фрагм., списано запросов: ${cost}).\n` +
+        'Задавайте вопросы — ответы будут со ссылками на страницы и разделы. /new начнёт диалог без него.',
+    );
+
+    if (msg.caption) {
+      await handleTextGeneration(bot, { ...msg, text: msg.caption }, user);
+    }
+  } catch (error) {
+    console.error('Ошибка в handleDocumentMessage:', error);
+    await bot.sendMessage(chatId, '❌ Не удалось прочитать документ. Попробуйте другой файл.');
+  }
+}
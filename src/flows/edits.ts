@@ -0,0 +1,74 @@
+import type { TelegramLikeBot as TelegramBot } from '../tg-client.js';
+import { isGroupChat } from '@/types/index.js';
+import type { TelegramMessage } from '@/types/index.js';
+import { findUser } from '@/handlers/supabase-handler.js';
+import { getReplyStore } from '@/handlers/reply-store.js';
+import { getBotIdentity, getGroupQuestion } from '@/handlers/group-chat.js';
+import { parseSearchCommand } from '@/handlers/web-search.js';
+import { logInteraction } from '@/utils/logger.js';
+import { isLatestReply, regenerateReply } from './text.js';
+import { getChatUser } from './groups.js';
+
+/**
+ * React to an edited prompt. In text mode the answer to the latest prompt is rewritten in
+ * place; photo and video prompts get a button that reruns the generation with the new text.
+ * Messages the bot never answered are ignored.
+ */
+export async function handleEditedMessage(bot: TelegramBot, msg: TelegramMessage): Promise<void> {
+  const chatId = msg.chat.id;
+  const userId = msg.from?.id;
+  if (!userId || !msg.text) return;
+
+  try {
+    // In groups the prompt is the message without the mention or /ask
+    const text = isGroupChat(msg.chat)
+      ? getGroupQuestion(msg, await getBotIdentity(bot))
+      : msg.text;
+    // Commands are not prompts, except /search with a question
+    if (!text || (text.startsWith('/') && !parseSearchCommand(text))) return;
+
+    const replies = getReplyStore();
+    const reply = await replies.getReply(chatId, msg.message_id);
+    if (!reply || reply.prompt === text) return;
+
+    const user = await findUser(userId);
+    if (!user) return;
+
+    await logInteraction({
+      userId,
+      chatId,
+      direction: 'user',
+      type: 'text',
+      content: text,
+    });
+
+    if (reply.mode === 'text') {
+      const chatUser = await getChatUser(msg.chat, user, userId);
+      if (!(await isLatestReply(reply, chatUser))) {
+        await bot.sendMessage(
+          chatId,
+          '✏️ Ответ обновляется только для последнего сообщения текущего диалога. Отправьте вопрос заново.',
+        );
+        return;
+      }
+      await regenerateReply(bot, { ...msg, text }, chatUser, reply);
+      return;
+    }
+
+    await replies.saveReply({ ...reply, prompt: text });
+    await bot.sendMessage(chatId, `✏️ Промпт изменён:\n\n${text}`, {
+      reply_markup: {
+        inline_keyboard: [
+          [
+            {
+              text: '🔄 Сгенерировать по новому промпту',
+              callback_data: JSON.stringify({ action: 'regen_edited', m: msg.message_id }),
+            },
+          ],
+        ],
+      },
+    });
+  } catch (error) {
+    console.error('Ошибка в handleEditedMessage:', error);
+  }
+}
@@ -0,0 +1,107 @@
+import type { TelegramLikeBot as TelegramBot } from '../tg-client.js';
+import { isGroupChat } from '@/types/index.js';
+import type { DbUser, TelegramChat, TelegramMessage } from '@/types/index.js';
+import { ensureThread } from '@/handlers/openai-handler.js';
+import { getGroupStore } from '@/handlers/group-store.js';
+import {
+  getBotIdentity,
+  getGroupQuestion,
+  getGroupThreadId,
+  isGroupAdmin,
+  parseGroupCommand,
+} from '@/handlers/group-chat.js';
+import { createGroupSettingsKeyboard, groupSettingsText } from '@/replies/group-settings.js';
+import { findOrCreate } from '@/findOrCreate.js';
+import { logInteraction } from '@/utils/logger.js';
+import { handleTextGeneration } from './text.js';
+
+/**
+ * The user as seen from a chat: in a group the conversation is the group's thread rather
+ * than the user's private one, and answers are never voiced
+ */
+export async function getChatUser(
+  chat: TelegramChat,
+  user: DbUser,
+  userId: number,
+): Promise<DbUser> {
+  if (!isGroupChat(chat)) return user;
+  const settings = await getGroupStore().getSettings(chat.id);
+  return {
+    ...user,
+    openai_thread_id: getGroupThreadId(settings, userId),
+    voice_replies: false,
+  };
+}
+
+async function handleGroupAdminCommand(
+  bot: TelegramBot,
+  msg: TelegramMessage,
+  command: string,
+): Promise<void> {
+  const chatId = msg.chat.id;
+  // Anonymous admins post on behalf of the group itself
+  const isAdmin = msg.sender_chat?.id === chatId || (await isGroupAdmin(bot, chatId, msg.from!.id));
+  if (!isAdmin) {
+    await bot.sendMessage(chatId, '⛔ Эта команда доступна только администраторам группы.');
+    return;
+  }
+
+  const store = getGroupStore();
+  const settings = await store.getSettings(chatId);
+  if (command === 'groupreset') {
+    await store.updateSettings(chatId, { thread_epoch: settings.thread_epoch + 1 });
+    await bot.sendMessage(chatId, '🆕 Начат новый диалог: прежние сообщения группы забыты.');
+    return;
+  }
+  await bot.sendMessage(chatId, groupSettingsText(settings), {
+    parse_mode: 'Markdown',
+    reply_markup: createGroupSettingsKeyboard(settings.thread_mode),
+  });
+}
+
+/**
+ * Messages in groups. The bot answers only when it is mentioned, replied to or asked
+ * with /ask, always in text mode; requests are charged to the member who asked.
+ */
+export async function handleGroupMessage(bot: TelegramBot, msg: TelegramMessage): Promise<void> {
+  const chatId = msg.chat.id;
+  const userId = msg.from?.id;
+  const text = msg.text;
+  if (!userId || !text) return;
+
+  try {
+    const me = await getBotIdentity(bot);
+    const command = text.startsWith('/') ? parseGroupCommand(text, me.username) : null;
+    if (command?.name === 'groupsettings' || command?.name === 'groupreset') {
+      await handleGroupAdminCommand(bot, msg, command.name);
+      return;
+    }
+    if (command?.name === 'ask' && !command.args) {
+      await bot.sendMessage(
+        chatId,
+        '❓ Напишите вопрос после команды, например: /ask что такое DNS?',
+      );
+      return;
+    }
+
+    const question = getGroupQuestion(msg, me);
+    if (!question) return;
+
+    const user = await findOrCreate(userId);
+    if (!user) return;
+    const chatUser = await getChatUser(msg.chat, user, userId);
+    // Created without an owner, so group conversations stay out of members' /history
+    await ensureThread(chatUser.openai_thread_id!);
+
+    await logInteraction({
+      userId,
+      chatId,
+      direction: 'user',
+      type: 'text',
+      content: question,
+    });
+    await handleTextGeneration(bot, { ...msg, text: question }, chatUser);
+  } catch (error) {
+    console.error('Ошибка в handleGroupMessage:', error);
+  }
+}
@@ -1,34 +1,122 @@
-import type { TelegramLikeBot as TelegramBot } from '../tg-client.js';
+import type { TelegramLikeBot as TelegramBot, TgMessage } from '../tg-client.js';
 import type {
+  FileOptions,
+  GenerationJob,
+  GenerationJobResult,
+  ImageTransform,
+  MaskRegion,
+  PanDirection,
   ProcessingMode,
-  PaymentMode,
-  ImageProvider,
+  TelegramCallbackQuery,
   TelegramMessage,
-  FileOptions,
 } from '@/types/index.js';
-import { generateImage, getTaskStatus } from '@/handlers/goapi-handler.js';
-import { handleFalPhotoGeneration } from './image-fal.js';
-import { decreaseRequests, canConsumeRequest, getUserStats } from '@/handlers/supabase-handler.js';
 import {
+  ImageActionRequest,
+  createImageActionKeyboard,
+  createMaskRegionKeyboard,
+  createUpscaledImageKeyboard,
+} from '@/handlers/goapi-handler.js';
+import { ImageGenerationRequest, getImageProvider } from '@/handlers/image-provider.js';
+import { JobHandler, getJobQueue } from '@/handlers/job-queue.js';
+import { getJobStore } from '@/handlers/job-store.js';
+import { canConsumeRequest, getUserStats } from '@/handlers/supabase-handler.js';
+import {
+  commandAliases,
   createMainKeyboard,
   fetchImageBuffer,
   formatImageStatus,
-  ongoingTasks,
   safeEditMessageText,
   parseImageCommand,
 } from '@/handlers/handler-utils.js';
 import { logInteraction } from '@/utils/logger.js';
 import { findOrCreate } from '@/findOrCreate.js';
 
+/**
+ * Input of an image job: a new picture from a prompt, or an action on a finished grid or
+ * upscaled image. Actions keep the prompt of the task they start from for captions and history.
+ */
+export type ImageJobParams =
+  | {
+      action: 'imagine';
+      request: ImageGenerationRequest;
+      isEdit: boolean;
+      /**
+       * Telegram file ids of the source images. Download links carry the bot token and expire,
+       * so they are made only when the task is submitted.
+       */
+      imageFileIds?: string[];
+    }
+  | { action: 'upscale' | 'variation'; originTaskId: string; index: number; prompt?: string }
+  | { action: 'reroll'; originTaskId: string; prompt?: string }
+  | { action: 'transform'; originTaskId: string; transform: ImageTransform; prompt?: string };
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/** Image action that starts a job, without the task it starts from */
+type ImageJobAction = DistributiveOmit<
+  Exclude<ImageJobParams, { action: 'imagine' }>,
+  'originTaskId' | 'prompt'
+>;
+
+// Users whose next text message says what to draw in the picked region (vary region)
+export const awaitingRegionPrompt = new Map<number, { taskId: string; region: MaskRegion }>();
+
+const REGION_LABELS: Record<MaskRegion, string> = {
+  top: 'верх',
+  bottom: 'низ',
+  left: 'левая часть',
+  right: 'правая часть',
+  center: 'центр',
+};
+
+const PAN_LABELS: Record<PanDirection, string> = {
+  left: 'влево',
+  right: 'вправо',
+  up: 'вверх',
+  down: 'вниз',
+};
+
+function jobPrompt(params: ImageJobParams): string | undefined {
+  return params.action === 'imagine' ? params.request.prompt : params.prompt;
+}
+
+// Users whose image action is between its checks and the enqueue
+const startingImageActions = new Set<number>();
+
+/**
+ * Image actions are charged on delivery, so one image job at a time keeps a user from starting
+ * more of them than they have requests left. Gives the reason when the action can't start;
+ * otherwise the caller releases the claim from startingImageActions once the job is enqueued.
+ */
+async function claimImageAction(userId: number): Promise<string | null> {
+  const busy =
+    '⏳ Пожалуйста, дождитесь завершения создания текущего изображения, прежде чем начинать создание нового.';
+  if (startingImageActions.has(userId)) return busy;
+  startingImageActions.add(userId);
+
+  let claimed = false;
+  try {
+    if (await getJobQueue().hasUnfinishedJob(userId, 'image')) return busy;
+    if (!(await canConsumeRequest(userId, 'image_req_left'))) {
+      const stats = await getUserStats(userId);
+      return `❌ Нет запросов. Осталось: Изображения ${stats?.image_req_left ?? 0}`;
+    }
+    claimed = true;
+    return null;
+  } finally {
+    if (!claimed) startingImageActions.delete(userId);
+  }
+}
+
+/**
+ * Photo mode: generate with the user's image provider, or edit when a photo comes with a caption
+ */
 export async function handlePhotoGeneration(bot: TelegramBot, msg: TelegramMessage): Promise<void> {
   const chatId = msg.chat.id;
   const userId = msg.from?.id;
-  const text = msg.text;
-  const caption = msg.caption;
-  const photoId = msg.photo ? msg.photo[msg.photo.length - 1]!.file_id : null;
-  const image_url = photoId ? await bot.getFileLink(photoId) : undefined;
+  const text = msg.text ?? msg.caption;
 
-  if (!userId || (!text && !caption)) {
+  if (!userId || !text) {
     return;
   }
 
@@ -39,230 +127,411 @@ export async function handlePhotoGeneration(bot: TelegramBot, msg: TelegramMessa
     return;
   }
 
-  // Get the user's preferred image provider
-  const imageProvider: ImageProvider = (user as any).image_provider || 'goapi';
-
-  // Route to appropriate handler based on provider
-  if (imageProvider === 'fal-ai') {
-    await handleFalPhotoGeneration(bot, msg);
-    return;
-  }
-
-  // Continue with goapi implementation for backward compatibility
-  if (!text) {
-    return;
-  }
-
-  const allowed = await canConsumeRequest(userId, 'image_req_left');
-  if (!allowed) {
-    const stats = await getUserStats(userId);
+  const provider = getImageProvider(user.image_provider);
+  if (!provider.isConfigured()) {
     await bot.sendMessage(
       chatId,
-      `У вас закончились запросы\nТекстовые запросы: ${stats?.text_req_left ?? 0}\nГенерация изображений: ${stats?.image_req_left ?? 0}\nВидео запросы: ${stats?.video_req_left ?? 0}`,
+      `❌ Генерация изображений через ${provider.label} недоступна. Сервис не настроен.`,
     );
     return;
   }
 
-  if (ongoingTasks.has(userId)) {
+  const params = parseImageCommand(text);
+  if (!params.prompt || params.prompt.length < 3) {
     await bot.sendMessage(
       chatId,
-      '⏳ Пожалуйста, дождитесь завершения создания текущего изображения, прежде чем начинать создание нового.',
+      '❌ Пожалуйста, предоставьте более подробную подсказку для генерации изображения.',
     );
     return;
   }
 
-  const params = parseImageCommand(text ?? caption);
-  if (!params.prompt || params.prompt.length < 3) {
+  const { capabilities } = provider;
+  const aspectRatio = capabilities.aspectRatios.find(ratio => ratio === params.aspect_ratio);
+  if (!aspectRatio) {
     await bot.sendMessage(
       chatId,
-      '❌ Пожалуйста, предоставьте более подробную подсказку для генерации изображения.',
+      `❌ ${provider.label} не поддерживает соотношение сторон ${params.aspect_ratio}.\nДоступные: ${capabilities.aspectRatios.join(', ')}`,
     );
     return;
   }
+  const numImages = Math.min(params.num_images ?? 1, capabilities.maxImages);
+
+  const photo = msg.photo?.[msg.photo.length - 1];
+  const isEdit = Boolean(photo && msg.caption && capabilities.edit);
 
-  ongoingTasks.set(userId, true);
-  const statusMsg = await bot.sendMessage(chatId, '🖼 Генерируется изображение ...');
+  const blocked = await claimImageAction(userId);
+  if (blocked) {
+    await bot.sendMessage(chatId, blocked);
+    return;
+  }
 
   try {
-    const generateResult = await generateImage(params.prompt, {
-      aspect_ratio: params.aspect_ratio,
-      process_mode: params.process_mode as ProcessingMode,
-      skip_prompt_check: params.skip_prompt_check,
-      service_mode: params.service_mode as PaymentMode,
-      task_type: 'describe',
-      ...(image_url && { image_url }),
-    });
+    const statusMsg = await bot.sendMessage(
+      chatId,
+      isEdit
+        ? `🖼 Редактируется изображение с помощью ${provider.label}...`
+        : `🖼 Генерируется изображение с помощью ${provider.label}...`,
+    );
+
+    try {
+      const request: ImageGenerationRequest = {
+        prompt: params.prompt,
+        aspectRatio,
+        numImages,
+        processMode: params.process_mode as ProcessingMode,
+      };
 
-    if (!generateResult.success) {
+      await logInteraction({
+        userId,
+        chatId,
+        direction: 'user',
+        type: 'image',
+        content: params.prompt,
+        meta: {
+          provider: provider.name,
+          mode: isEdit ? 'image-to-image' : 'text-to-image',
+          aspect_ratio: aspectRatio,
+          num_images: numImages,
+        },
+      });
+
+      const jobParams: ImageJobParams = {
+        action: 'imagine',
+        request,
+        isEdit,
+        ...(isEdit && photo && { imageFileIds: [photo.file_id] }),
+      };
+      await getJobQueue().enqueue({
+        kind: 'image',
+        provider: provider.name,
+        telegram_id: userId,
+        chat_id: chatId,
+        status_message_id: statusMsg.message_id,
+        params: jobParams,
+      });
+    } catch (error) {
+      console.error('Ошибка в handlePhotoGeneration:', error);
       await safeEditMessageText(
         bot,
         chatId,
         statusMsg.message_id,
-        `❌ Ошибка: ${generateResult.error?.message ?? 'Не удалось начать генерацию видео'}`,
+        '❌ Неожиданная ошибка при генерации изображения.',
       );
-      return;
     }
+  } finally {
+    startingImageActions.delete(userId);
+  }
+}
+
+function transformText(transform: ImageTransform): string {
+  switch (transform.type) {
+    case 'zoom_out':
+      return `🔍 Отдаление ${transform.ratio}x`;
+    case 'pan':
+      return `↔️ Расширение ${PAN_LABELS[transform.direction]}`;
+    case 'vary':
+      return transform.strength === 'strong' ? '🎨 Сильные вариации' : '🎨 Слабые вариации';
+    case 'vary_region':
+      return `🖌 Изменение области «${REGION_LABELS[transform.region]}»: ${transform.prompt}`;
+  }
+}
+
+function imageActionText(action: ImageJobAction): string {
+  switch (action.action) {
+    case 'upscale':
+      return '↗ Улучшаем качество изображения ...';
+    case 'variation':
+      return `🎨 Создаём вариации изображения ${action.index} ...`;
+    case 'reroll':
+      return '🔄 Генерируем новую сетку по тому же запросу ...';
+    case 'transform':
+      return `${transformText(action.transform)} ...`;
+  }
+}
+
+/**
+ * Starts a child job of a finished task, charged on delivery
+ */
+async function startImageAction(
+  bot: TelegramBot,
+  chatId: number,
+  userId: number,
+  originTaskId: string,
+  action: ImageJobAction,
+): Promise<void> {
+  const statusMsg = await bot.sendMessage(chatId, imageActionText(action));
+  try {
+    // Tasks made before generation jobs have no job to inherit the prompt from
+    const parent = await getJobStore().findJobByTaskId(originTaskId);
+    const prompt = parent ? jobPrompt(parent.params as ImageJobParams) : undefined;
+    const jobParams = { ...action, originTaskId, ...(prompt && { prompt }) } as ImageJobParams;
+    await getJobQueue().enqueue({
+      kind: 'image',
+      provider: parent?.provider ?? 'goapi',
+      telegram_id: userId,
+      chat_id: chatId,
+      status_message_id: statusMsg.message_id,
+      params: jobParams,
+    });
+  } catch (error) {
+    console.error('Ошибка в startImageAction:', error);
+    await safeEditMessageText(bot, chatId, statusMsg.message_id, '❌ Ошибка при обработке запроса');
+  }
+}
+
+/**
+ * Buttons under a grid (U/V/🔄) and under an upscaled image (zoom out, pan, vary, vary region)
+ */
+export async function handleImageActionCallback(
+  bot: TelegramBot,
+  callbackQuery: TelegramCallbackQuery,
+  request: ImageActionRequest,
+): Promise<void> {
+  const msg = callbackQuery.message!;
+  const chatId = msg.chat.id;
+  const userId = callbackQuery.from.id;
+
+  // Vary region takes two more steps: the region, then the prompt for it
+  if (request.action === 'pick_region') {
+    await bot.answerCallbackQuery(callbackQuery.id);
+    await bot.sendMessage(chatId, '🖌 Выберите область, которую нужно изменить:', {
+      reply_markup: createMaskRegionKeyboard(request.taskId),
+    });
+    return;
+  }
+
+  const blocked = await claimImageAction(userId);
+  if (blocked) {
+    await bot.answerCallbackQuery(callbackQuery.id, { text: blocked, show_alert: true });
+    return;
+  }
+  try {
+    await bot.answerCallbackQuery(callbackQuery.id);
 
-    const taskId = generateResult.data?.data?.task_id;
-    if (!taskId) {
-      await safeEditMessageText(bot, chatId, statusMsg.message_id, '❌ Нет task ID в ответе');
+    if (request.action === 'region') {
+      awaitingRegionPrompt.set(userId, { taskId: request.taskId, region: request.region });
+      await safeEditMessageText(
+        bot,
+        chatId,
+        msg.message_id,
+        `🖌 Область: ${REGION_LABELS[request.region]}\n\nОпишите, что должно появиться в этой области. Для отмены отправьте любую команду.`,
+      );
       return;
     }
 
-    let lastStatus = '';
-    const maxAttempts = 60;
-    let attempts = 0;
-
-    const pollInterval = setInterval(async () => {
-      try {
-        attempts++;
-        const statusResult = await getTaskStatus(taskId);
-        if (!statusResult.success) {
-          clearInterval(pollInterval);
-          await safeEditMessageText(
-            bot,
-            chatId,
-            statusMsg.message_id,
-            `❌ Ошибка при проверке статуса: ${statusResult.error?.message}`,
-          );
-          return;
-        }
+    const { taskId, ...action } = request;
+    await startImageAction(bot, chatId, userId, taskId, action);
+  } finally {
+    startingImageActions.delete(userId);
+  }
+}
 
-        const taskData = statusResult.data?.data;
-        if (!taskData) return;
-        const currentStatus = taskData.status;
-        const progress = taskData.output?.progress ?? 0;
-
-        if (currentStatus !== lastStatus || progress > 0) {
-          lastStatus = currentStatus;
-          await safeEditMessageText(
-            bot,
-            chatId,
-            statusMsg.message_id,
-            formatImageStatus(currentStatus, progress),
-          );
-        }
+/**
+ * Consume the prompt of vary region after the region was picked.
+ * Returns false when the user is not picking a region; any command cancels it.
+ */
+export async function handleRegionPromptInput(bot: TelegramBot, msg: TgMessage): Promise<boolean> {
+  const userId = msg.from?.id;
+  const text = msg.text?.trim();
+  const pending = userId ? awaitingRegionPrompt.get(userId) : undefined;
+  if (!userId || !text || !pending) return false;
 
-        if (currentStatus === 'completed') {
-          clearInterval(pollInterval);
-          const imageUrl = taskData.output.image_url;
-          if (imageUrl) {
-            try {
-              const { buffer, filename, contentType } = await fetchImageBuffer(imageUrl);
-              const fileOptions: FileOptions = contentType
-                ? { filename, contentType }
-                : { filename };
-              await bot.sendPhoto(
-                chatId,
-                buffer,
-                {
-                  caption: `Сгенерированное изображение: "${params.prompt}"\nСоотношение сторон: ${params.aspect_ratio}\nРежим: ${params.process_mode}`,
-                  reply_markup: {
-                    inline_keyboard: [
-                      [
-                        {
-                          text: '1',
-                          callback_data: JSON.stringify({
-                            t_id: taskId,
-                            idx: 1,
-                          }),
-                        },
-                        {
-                          text: '2',
-                          callback_data: JSON.stringify({
-                            t_id: taskId,
-                            idx: 2,
-                          }),
-                        },
-                        {
-                          text: '3',
-                          callback_data: JSON.stringify({
-                            t_id: taskId,
-                            idx: 3,
-                          }),
-                        },
-                        {
-                          text: '4',
-                          callback_data: JSON.stringify({
-                            t_id: taskId,
-                            idx: 4,
-                          }),
-                        },
-                      ],
-                    ],
-                  },
-                },
-                fileOptions,
-              );
-            } catch (e) {
-              await bot.sendPhoto(chatId, imageUrl, {
-                caption: `Сгенерированное изображение: "${params.prompt}"\nСоотношение сторон: ${params.aspect_ratio}\nРежим: ${params.process_mode}`,
-              });
-            }
-            await logInteraction({
-              userId: userId!,
-              chatId,
-              direction: 'bot',
-              type: 'image',
-              content: imageUrl,
-              meta: {
-                prompt: params.prompt,
-                aspect_ratio: params.aspect_ratio,
-                mode: params.process_mode,
-              },
-            });
-            try {
-              await bot.deleteMessage(chatId, statusMsg.message_id);
-            } catch {}
-            await decreaseRequests(userId, 'image_req_left', 1);
-            await bot.sendMessage(chatId, 'Выберите номер изображения 1-4👇', {
-              reply_markup: createMainKeyboard(),
-            });
-          } else {
-            await safeEditMessageText(
-              bot,
-              chatId,
-              statusMsg.message_id,
-              '❌ Генерация изображения завершена, но URL-адрес изображения не получен.',
-            );
-          }
-        } else if (currentStatus === 'failed') {
-          clearInterval(pollInterval);
-          await safeEditMessageText(
-            bot,
-            chatId,
-            statusMsg.message_id,
-            '❌ Ошибка попробуйте другой запрос',
-          );
-        } else if (attempts >= maxAttempts) {
-          clearInterval(pollInterval);
-          await safeEditMessageText(
-            bot,
-            chatId,
-            statusMsg.message_id,
-            '⏰ Время генерации истекло. Попробуйте ещё раз, используя более простую подсказку.',
-          );
-        }
-      } catch (error) {
-        clearInterval(pollInterval);
-        console.error('Ошибка в polling:', error);
-        await safeEditMessageText(
-          bot,
-          chatId,
-          statusMsg.message_id,
-          '❌ Ошибка при мониторинге прогресса генерации.',
-        );
+  awaitingRegionPrompt.delete(userId);
+  if (text.startsWith('/') || text in commandAliases) return false;
+
+  const chatId = msg.chat.id;
+  const blocked = await claimImageAction(userId);
+  if (blocked) {
+    await bot.sendMessage(chatId, blocked);
+    return true;
+  }
+  try {
+    await startImageAction(bot, chatId, userId, pending.taskId, {
+      action: 'transform',
+      transform: { type: 'vary_region', region: pending.region, prompt: text },
+    });
+  } finally {
+    startingImageActions.delete(userId);
+  }
+  return true;
+}
+
+async function sendImage(
+  bot: TelegramBot,
+  chatId: number,
+  imageUrl: string,
+  options: Parameters<TelegramBot['sendPhoto']>[2],
+): Promise<void> {
+  try {
+    const { buffer, filename, contentType } = await fetchImageBuffer(imageUrl);
+    const fileOptions: FileOptions = contentType ? { filename, contentType } : { filename };
+    await bot.sendPhoto(chatId, buffer, options, fileOptions);
+  } catch (fetchError) {
+    console.warn('Failed to fetch image buffer, sending URL directly:', fetchError);
+    await bot.sendPhoto(chatId, imageUrl, options);
+  }
+}
+
+function gridCaption(job: GenerationJob, result: GenerationJobResult): string {
+  const params = job.params as ImageJobParams;
+  const provider = getImageProvider(job.provider);
+  const description = result.description ? `\n\n💬 ${result.description}` : '';
+  const prompt = jobPrompt(params);
+  const promptLine = prompt ? `: "${prompt}"` : '';
+  switch (params.action) {
+    case 'imagine':
+      return (
+        `${params.isEdit ? 'Отредактированное' : 'Сгенерированное'} изображение: "${params.request.prompt}"\n` +
+        `Соотношение сторон: ${params.request.aspectRatio}\nПровайдер: ${provider.label}` +
+        description
+      );
+    case 'variation':
+      return `🎨 Вариации изображения ${params.index}${promptLine}${description}`;
+    case 'transform':
+      return params.transform.type === 'vary_region'
+        ? `${transformText(params.transform)}${description}`
+        : `${transformText(params.transform)}${promptLine}${description}`;
+    default:
+      return `🔄 Новая сетка${promptLine}${description}`;
+  }
+}
+
+async function deleteStatusMessage(bot: TelegramBot, job: GenerationJob): Promise<void> {
+  if (!job.status_message_id) return;
+  try {
+    await bot.deleteMessage(job.chat_id, job.status_message_id);
+  } catch {}
+}
+
+/**
+ * Photo mode jobs: the task runs at the provider stored in the job
+ */
+export const imageJobHandler: JobHandler = {
+  quota: 'image_req_left',
+  // Relax mode queues the task at Midjourney until a GPU is free
+  maxWaitMs(job) {
+    const params = job.params as ImageJobParams;
+    const relax = params.action === 'imagine' && params.request.processMode === 'relax';
+    return (relax ? 30 : 10) * 60 * 1000;
+  },
+
+  async submit(bot, job, callbackUrl) {
+    const params = job.params as ImageJobParams;
+    const provider = getImageProvider(job.provider);
+    switch (params.action) {
+      case 'imagine': {
+        const imageUrls = params.imageFileIds?.length
+          ? await Promise.all(params.imageFileIds.map(fileId => bot.getFileLink(fileId)))
+          : undefined;
+        return provider.submit({
+          ...params.request,
+          ...(imageUrls && { imageUrls }),
+          webhookUrl: callbackUrl,
+        });
       }
-    }, 10000);
-  } catch (error) {
-    console.error('Ошибка в handlePhotoGeneration:', error);
+      case 'upscale':
+        if (!provider.upscale) throw new Error(`${provider.label} не поддерживает улучшение`);
+        return provider.upscale(params.originTaskId, params.index, callbackUrl);
+      case 'variation':
+        if (!provider.variation) throw new Error(`${provider.label} не поддерживает вариации`);
+        return provider.variation(params.originTaskId, params.index, callbackUrl);
+      case 'reroll':
+        if (!provider.reroll) throw new Error(`${provider.label} не поддерживает перегенерацию`);
+        return provider.reroll(params.originTaskId, callbackUrl);
+      case 'transform':
+        if (!provider.transform) throw new Error(`${provider.label} не поддерживает это действие`);
+        return provider.transform(params.originTaskId, params.transform, callbackUrl);
+    }
+  },
+
+  status(taskId, job) {
+    return getImageProvider(job.provider).status(taskId);
+  },
+
+  async result(taskId, job) {
+    const { imageUrls, description } = await getImageProvider(job.provider).result(taskId);
+    return { urls: imageUrls, ...(description && { description }) };
+  },
+
+  async progress(bot, job, status) {
+    if (!job.status_message_id) return;
     await safeEditMessageText(
       bot,
-      chatId,
-      statusMsg.message_id,
-      '❌ Неожиданная ошибка при генерации изображения.',
+      job.chat_id,
+      job.status_message_id,
+      formatImageStatus(status.state, status.progress),
     );
-  } finally {
-    ongoingTasks.delete(userId);
-  }
-}
+  },
+
+  async deliver(bot, job, result: GenerationJobResult) {
+    const params = job.params as ImageJobParams;
+    const [firstImage, ...otherImages] = result.urls;
+    if (!firstImage) throw new Error('URL-адрес изображения не получен');
+
+    const provider = getImageProvider(job.provider);
+    if (params.action === 'upscale') {
+      await sendImage(bot, job.chat_id, firstImage, {
+        caption: `✅ Улучшенное изображение ${params.index}`,
+        ...(provider.capabilities.transforms &&
+          job.task_id && { reply_markup: createUpscaledImageKeyboard(job.task_id) }),
+      });
+    } else {
+      const reply_markup =
+        provider.capabilities.upscale && job.task_id
+          ? createImageActionKeyboard(job.task_id)
+          : createMainKeyboard();
+      await sendImage(bot, job.chat_id, firstImage, {
+        caption: gridCaption(job, result),
+        reply_markup,
+      });
+
+      for (const [i, imageUrl] of otherImages.entries()) {
+        try {
+          await bot.sendPhoto(job.chat_id, imageUrl, { caption: `Вариант ${i + 2}` });
+        } catch (error) {
+          console.error(`Failed to send image ${i + 2}:`, error);
+        }
+      }
+    }
+
+    const prompt = jobPrompt(params);
+    await logInteraction({
+      userId: job.telegram_id,
+      chatId: job.chat_id,
+      direction: 'bot',
+      type: 'image',
+      content: firstImage,
+      meta: {
+        provider: job.provider,
+        action: params.action,
+        task_id: job.task_id,
+        ...(params.action !== 'imagine' && { parent_task_id: params.originTaskId }),
+        ...('index' in params && { index: params.index }),
+        ...(params.action === 'transform' && { transform: params.transform }),
+        ...(prompt && { prompt }),
+        ...(params.action === 'imagine' && { aspect_ratio: params.request.aspectRatio }),
+        ...(result.description && { description: result.description }),
+      },
+    });
+
+    await deleteStatusMessage(bot, job);
+    if (params.action !== 'upscale') {
+      await bot.sendMessage(
+        job.chat_id,
+        provider.capabilities.upscale
+          ? 'Выберите изображение 1-4: U — улучшить, V — вариации, 🔄 — новая сетка👇'
+          : '✨ Генерация завершена! Используйте кнопки ниже для навигации.',
+        { reply_markup: createMainKeyboard() },
+      );
+    }
+  },
+
+  async fail(bot, job, error) {
+    const text = `❌ Ошибка при генерации изображения: ${error}`;
+    if (job.status_message_id) {
+      await safeEditMessageText(bot, job.chat_id, job.status_message_id, text);
+    } else {
+      await bot.sendMessage(job.chat_id, text);
+    }
+  },
+};
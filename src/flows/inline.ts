@@ -0,0 +1,195 @@
+import type { TelegramLikeBot as TelegramBot } from '../tg-client.js';
+import type { TelegramChosenInlineResult, TelegramInlineQuery } from '@/types/index.js';
+import { canConsumeRequest, decreaseRequests, findUser } from '@/handlers/supabase-handler.js';
+import { getInlineAnswer } from '@/handlers/openai-handler.js';
+import { generateImageWithFal, isFalConfigured } from '@/handlers/fal-handler.js';
+import {
+  InlineRequest,
+  InlineResultCache,
+  debounceInlineQuery,
+  getInlineResultId,
+  getInlineResultKind,
+  parseInlineQuery,
+} from '@/handlers/inline-query.js';
+import { markdownToPlainText } from '@/utils/telegram-format.js';
+import { logInteraction } from '@/utils/logger.js';
+
+type InlineResult = Record<string, unknown>;
+
+// Results also stay in Telegram's cache for this long
+const INLINE_CACHE_TIME_SECONDS = 300;
+const MAX_TG_MESSAGE_LENGTH = 4096;
+
+const resultCache = new InlineResultCache<InlineResult>();
+
+const startButton = (text: string) => ({ text, start_parameter: 'inline' });
+
+function infoResult(id: string, title: string, text: string): InlineResult {
+  return {
+    type: 'article',
+    id: `info:${id}`,
+    title,
+    description: text,
+    input_message_content: { message_text: text },
+  };
+}
+
+async function createTextResult(request: InlineRequest): Promise<InlineResult> {
+  const answer = markdownToPlainText(await getInlineAnswer(request.prompt));
+  if (!answer) throw new Error('Empty inline answer');
+  const message = `❓ ${request.prompt}\n\n${answer}`;
+  return {
+    type: 'article',
+    id: getInlineResultId(request),
+    title: '🤖 Ответ ИИ',
+    description: answer.slice(0, 120),
+    input_message_content: {
+      message_text:
+        message.length > MAX_TG_MESSAGE_LENGTH
+          ? `${message.slice(0, MAX_TG_MESSAGE_LENGTH - 1)}…`
+          : message,
+    },
+  };
+}
+
+// Keeps the message editable: Telegram only reports inline_message_id for results with buttons
+const moreImagesKeyboard = {
+  inline_keyboard: [[{ text: '🎨 Ещё картинку', switch_inline_query_current_chat: '🎨 ' }]],
+};
+
+/**
+ * Placeholder for a picture. The image is generated only once the user sends it,
+ * so typing a prompt never costs a fal.ai call, see handleChosenInlineResult.
+ */
+function createImageResult(request: InlineRequest): InlineResult {
+  return {
+    type: 'article',
+    id: getInlineResultId(request),
+    title: '🎨 Нарисовать картинку',
+    description: request.prompt,
+    input_message_content: { message_text: `🎨 Рисую: ${request.prompt}…` },
+    reply_markup: moreImagesKeyboard,
+  };
+}
+
+/**
+ * Answer an inline query (@bot question) with a short AI answer, or with a placeholder
+ * that turns into a picture when the query starts with 🎨 or "img". Nothing is charged
+ * until the user picks the result, see handleChosenInlineResult.
+ */
+export async function handleInlineQuery(
+  bot: TelegramBot,
+  inlineQuery: TelegramInlineQuery,
+): Promise<void> {
+  try {
+    const userId = inlineQuery.from.id;
+    const request = parseInlineQuery(inlineQuery.query);
+    if (!request) {
+      await bot.answerInlineQuery(inlineQuery.id, [], {
+        cache_time: INLINE_CACHE_TIME_SECONDS,
+        button: startButton('🤖 Напишите вопрос или 🎨 и описание картинки'),
+      });
+      return;
+    }
+    if (!(await debounceInlineQuery(userId, inlineQuery.id))) return;
+
+    const user = await findUser(userId);
+    if (!user) {
+      await bot.answerInlineQuery(inlineQuery.id, [], {
+        cache_time: 0,
+        is_personal: true,
+        button: startButton('🤖 Запустите бота, чтобы задавать вопросы'),
+      });
+      return;
+    }
+
+    const quota = request.kind === 'image' ? 'image_req_left' : 'text_req_left';
+    let result: InlineResult;
+    if (!(await canConsumeRequest(userId, quota))) {
+      result = infoResult(
+        'quota',
+        '❌ Закончились запросы',
+        'Пополнить запросы можно в боте: /pay',
+      );
+    } else if (request.kind === 'image' && !isFalConfigured()) {
+      result = infoResult('image', '❌ Генерация изображений недоступна', 'Попробуйте позже.');
+    } else if (request.kind === 'image') {
+      result = createImageResult(request);
+    } else {
+      result = await resultCache.getOrCreate(request.cacheKey, () => createTextResult(request));
+    }
+
+    // Personal, so the quota check above runs for everyone
+    await bot.answerInlineQuery(inlineQuery.id, [result], {
+      cache_time: result.id === getInlineResultId(request) ? INLINE_CACHE_TIME_SECONDS : 0,
+      is_personal: true,
+    });
+  } catch (error) {
+    console.error('Ошибка в handleInlineQuery:', error);
+  }
+}
+
+/**
+ * Draw the picture of a sent placeholder into its message; charged only when it succeeds
+ */
+async function deliverInlineImage(
+  bot: TelegramBot,
+  userId: number,
+  inlineMessageId: string,
+  request: InlineRequest,
+): Promise<boolean> {
+  if (!(await canConsumeRequest(userId, 'image_req_left'))) {
+    await bot.editInlineMessageText(inlineMessageId, '❌ Закончились запросы на изображения: /pay');
+    return false;
+  }
+  try {
+    const response = await generateImageWithFal(request.prompt, { output_format: 'jpeg' });
+    const url = response.data?.data?.images[0]?.url;
+    if (!response.success || !url) {
+      throw new Error(response.error?.message ?? 'No image in the fal.ai response');
+    }
+    await bot.editInlineMessagePhoto(inlineMessageId, url, {
+      caption: `🎨 ${request.prompt}`,
+      reply_markup: moreImagesKeyboard,
+    });
+    await decreaseRequests(userId, 'image_req_left');
+    return true;
+  } catch (error) {
+    console.error('Ошибка генерации inline-изображения:', error);
+    await bot
+      .editInlineMessageText(inlineMessageId, '❌ Не удалось нарисовать картинку.')
+      .catch(() => undefined);
+    return false;
+  }
+}
+
+/**
+ * Charge the user for an inline answer they sent, or draw the picture they asked for.
+ * Telegram reports chosen results only when inline feedback is enabled in @BotFather.
+ */
+export async function handleChosenInlineResult(
+  bot: TelegramBot,
+  chosen: TelegramChosenInlineResult,
+): Promise<void> {
+  try {
+    const kind = getInlineResultKind(chosen.result_id);
+    if (!kind) return;
+    const userId = chosen.from.id;
+    if (kind === 'image') {
+      const request = parseInlineQuery(chosen.query);
+      if (!request || !chosen.inline_message_id) return;
+      if (!(await deliverInlineImage(bot, userId, chosen.inline_message_id, request))) return;
+    } else {
+      await decreaseRequests(userId, 'text_req_left');
+    }
+    await logInteraction({
+      userId,
+      chatId: userId,
+      direction: 'user',
+      type: kind,
+      content: chosen.query,
+    });
+  } catch (error) {
+    console.error('Ошибка в handleChosenInlineResult:', error);
+  }
+}
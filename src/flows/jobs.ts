@@ -0,0 +1,20 @@
+import type { TelegramLikeBot as TelegramBot } from '../tg-client.js';
+import { JobQueue, setJobQueue } from '@/handlers/job-queue.js';
+import { imageJobHandler } from './image.js';
+import { videoJobHandler } from './video.js';
+
+/**
+ * Start the generation job queue and pick up the jobs a previous run left unfinished
+ */
+export async function startJobQueue(bot: TelegramBot): Promise<JobQueue> {
+  const queue = new JobQueue(bot)
+    .register('image', imageJobHandler)
+    .register('video', videoJobHandler);
+  setJobQueue(queue);
+
+  const resumed = await queue.resume();
+  if (resumed > 0) {
+    console.log(`🔁 Resumed ${resumed} generation jobs`);
+  }
+  return queue;
+}
@@ -0,0 +1,206 @@
+import type { TelegramLikeBot as TelegramBot, TgMessage } from '../tg-client.js';
+import type {
+  CallbackData,
+  DbUser,
+  TelegramCallbackQuery,
+  TelegramInlineKeyboard,
+} from '@/types/index.js';
+import { findUser } from '@/handlers/supabase-handler.js';
+import { commandAliases } from '@/handlers/handler-utils.js';
+import {
+  MAX_PERSONAS,
+  MAX_PERSONA_NAME_LENGTH,
+  createPersona,
+  deletePersona,
+  getActivePersona,
+  getPersonas,
+  parsePersonaInput,
+  selectPersona,
+} from '@/handlers/persona-handler.js';
+
+// Users whose next text message is the definition of a new persona
+export const awaitingPersonaInput = new Set<number>();
+
+const personaInstructions =
+  '✍️ **Новая персона**\n\n' +
+  'Отправьте сообщение в формате:\n' +
+  '1-я строка — название (до ' +
+  MAX_PERSONA_NAME_LENGTH +
+  ' символов)\n' +
+  'следующие строки — инструкции для ИИ\n\n' +
+  '**Пример:**\n' +
+  'Юрист\n' +
+  'Отвечай как опытный юрист, ссылайся на законы РФ, пиши кратко.\n\n' +
+  'Для отмены отправьте любую команду.';
+
+// Sent without parse_mode: persona names are user input
+function personaMenuText(user: DbUser): string {
+  const active = getActivePersona(user);
+  return (
+    `🎭 Персоны\n\n` +
+    `Текущая: ${active?.name ?? 'Стандартный ассистент'}\n\n` +
+    `Персона задаёт инструкции, с которыми ИИ отвечает в текстовом режиме.`
+  );
+}
+
+function createPersonaKeyboard(user: DbUser): TelegramInlineKeyboard {
+  const active = getActivePersona(user);
+  return {
+    inline_keyboard: [
+      [
+        {
+          text: `${active ? '' : '✅ '}🤖 Стандартный ассистент`,
+          callback_data: JSON.stringify({ action: 'persona_select', id: null }),
+        },
+      ],
+      ...getPersonas(user).map(persona => [
+        {
+          text: `${persona.id === active?.id ? '✅ ' : ''}${persona.name}`,
+          callback_data: JSON.stringify({ action: 'persona_select', id: persona.id }),
+        },
+      ]),
+      [
+        { text: '➕ Создать', callback_data: JSON.stringify({ action: 'persona_create' }) },
+        { text: '🗑 Удалить', callback_data: JSON.stringify({ action: 'persona_delete_menu' }) },
+      ],
+    ],
+  };
+}
+
+function createDeleteKeyboard(user: DbUser): TelegramInlineKeyboard {
+  return {
+    inline_keyboard: [
+      ...getPersonas(user).map(persona => [
+        {
+          text: `🗑 ${persona.name}`,
+          callback_data: JSON.stringify({ action: 'persona_delete', id: persona.id }),
+        },
+      ]),
+      [{ text: '🔙 Назад', callback_data: JSON.stringify({ action: 'persona_menu' }) }],
+    ],
+  };
+}
+
+export async function showPersonaMenu(bot: TelegramBot, chatId: number, user: DbUser) {
+  await bot.sendMessage(chatId, personaMenuText(user), {
+    reply_markup: createPersonaKeyboard(user),
+  });
+}
+
+/**
+ * Handle persona_* callbacks. Returns false when the callback is not about personas.
+ */
+export async function handlePersonaCallback(
+  bot: TelegramBot,
+  callbackQuery: TelegramCallbackQuery,
+  data: CallbackData,
+): Promise<boolean> {
+  if (!data.action.startsWith('persona_')) return false;
+  const msg = callbackQuery.message;
+  if (!msg) return true;
+  const chatId = msg.chat.id;
+  const userId = callbackQuery.from.id;
+
+  const editMenu = async (user: DbUser, keyboard = createPersonaKeyboard(user)) => {
+    await bot.editMessageText(personaMenuText(user), {
+      chat_id: chatId,
+      message_id: msg.message_id,
+      reply_markup: keyboard,
+    });
+  };
+
+  try {
+    const user = await findUser(userId);
+    if (!user) {
+      await bot.answerCallbackQuery(callbackQuery.id, { text: '❌ Пользователь не найден' });
+      return true;
+    }
+
+    if (data.action === 'persona_select') {
+      const personaId = typeof data.id === 'string' ? data.id : null;
+      if (!(await selectPersona(user, userId, personaId))) {
+        await bot.answerCallbackQuery(callbackQuery.id, {
+          text: '❌ Персона не найдена',
+          show_alert: true,
+        });
+        return true;
+      }
+      const updated = { ...user, active_persona_id: personaId };
+      await editMenu(updated);
+      await bot.answerCallbackQuery(callbackQuery.id, {
+        text: `Персона: ${getActivePersona(updated)?.name ?? 'Стандартный ассистент'}`,
+      });
+    } else if (data.action === 'persona_create') {
+      if (getPersonas(user).length >= MAX_PERSONAS) {
+        await bot.answerCallbackQuery(callbackQuery.id, {
+          text: `❌ Можно сохранить не больше ${MAX_PERSONAS} персон`,
+          show_alert: true,
+        });
+        return true;
+      }
+      awaitingPersonaInput.add(userId);
+      await bot.answerCallbackQuery(callbackQuery.id);
+      await bot.sendMessage(chatId, personaInstructions, { parse_mode: 'Markdown' });
+    } else if (data.action === 'persona_delete_menu') {
+      if (getPersonas(user).length === 0) {
+        await bot.answerCallbackQuery(callbackQuery.id, { text: 'У вас нет сохранённых персон' });
+        return true;
+      }
+      await editMenu(user, createDeleteKeyboard(user));
+      await bot.answerCallbackQuery(callbackQuery.id);
+    } else if (data.action === 'persona_delete' && typeof data.id === 'string') {
+      await deletePersona(user, userId, data.id);
+      const updated = (await findUser(userId)) ?? user;
+      await editMenu(updated);
+      await bot.answerCallbackQuery(callbackQuery.id, { text: '🗑 Персона удалена' });
+    } else {
+      await editMenu(user);
+      await bot.answerCallbackQuery(callbackQuery.id);
+    }
+  } catch (error) {
+    console.error('Error handling persona callback:', error);
+    await bot.answerCallbackQuery(callbackQuery.id, {
+      text: '❌ Ошибка при работе с персонами',
+      show_alert: true,
+    });
+  }
+  return true;
+}
+
+/**
+ * Consume the message that defines a new persona after "➕ Создать".
+ * Returns false when the user is not creating a persona; any command cancels creation.
+ */
+export async function handlePersonaInput(
+  bot: TelegramBot,
+  msg: TgMessage,
+  user: DbUser,
+): Promise<boolean> {
+  const userId = msg.from?.id;
+  const text = msg.text;
+  if (!userId || !text || !awaitingPersonaInput.has(userId)) return false;
+
+  if (text.startsWith('/') || text in commandAliases) {
+    awaitingPersonaInput.delete(userId);
+    return false;
+  }
+
+  const chatId = msg.chat.id;
+  const input = parsePersonaInput(text);
+  if (!input) {
+    await bot.sendMessage(
+      chatId,
+      '❌ Неверный формат. Первая строка — название, дальше — инструкции. Для отмены отправьте любую команду.',
+    );
+    return true;
+  }
+
+  awaitingPersonaInput.delete(userId);
+  const persona = await createPersona(user, userId, input);
+  if (!persona) {
+    await bot.sendMessage(chatId, '❌ Не удалось сохранить персону. Попробуйте снова.');
+    return true;
+  }
+  await bot.sendMessage(chatId, `✅ Персона «${persona.name}» создана и выбрана.`);
+  return true;
+}
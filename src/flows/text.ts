@@ -1,9 +1,112 @@
 import type { TelegramLikeBot as TelegramBot } from '../tg-client.js';
-import { canConsumeRequest, decreaseRequests, getUserStats } from '@/handlers/supabase-handler.js';
-import { createMessage, getAssistantResponse } from '@/handlers/openai-handler.js';
-import { createMainKeyboard } from '@/handlers/handler-utils.js';
+import {
+  VOICE_REPLY_COST,
+  canConsumeRequest,
+  decreaseRequests,
+  getUserStats,
+} from '@/handlers/supabase-handler.js';
+import {
+  AssistantRequestOptions,
+  createMessage,
+  getAssistantResponseWithTools,
+  getMaxCompletionTokens,
+  streamAssistantResponse,
+  synthesizeSpeech,
+} from '@/handlers/openai-handler.js';
+import { getConversationStore } from '@/handlers/conversation-store.js';
+import { getReplyStore } from '@/handlers/reply-store.js';
+import { resolveTextModel } from '@/handlers/llm-provider.js';
+import {
+  MessageStreamer,
+  createAnswerKeyboard,
+  createMessageStreamer,
+  fetchTelegramImageDataUrl,
+} from '@/handlers/handler-utils.js';
+import { getActivePersona } from '@/handlers/persona-handler.js';
+import { getDocumentContext } from '@/handlers/document-handler.js';
+import { getReplyContext, getRepliedPhotoId } from '@/handlers/reply-context.js';
+import { getSearchProvider } from '@/handlers/search-provider.js';
+import {
+  WEB_SEARCH_INSTRUCTIONS,
+  WebSearchSession,
+  parseSearchCommand,
+} from '@/handlers/web-search.js';
 import { logInteraction } from '@/utils/logger.js';
-import { DbUser, TelegramMessage } from '@/types/index.js';
+import { assistantTools, isAssistantToolsEnabled } from './assistant-tools.js';
+import { DbUser, MessageReply, TelegramMessage } from '@/types/index.js';
+
+/** User turn added by the "Continue" button under an answer */
+export const CONTINUE_PROMPT = 'Продолжи свой предыдущий ответ с того места, где он оборвался.';
+
+async function sendVoiceReply(bot: TelegramBot, chatId: number, text: string): Promise<boolean> {
+  try {
+    await bot.sendChatAction(chatId, 'record_voice');
+    const audio = await synthesizeSpeech(text);
+    await bot.sendVoice(chatId, audio, {}, { filename: 'reply.ogg', contentType: 'audio/ogg' });
+    return true;
+  } catch (error) {
+    console.error('Ошибка при озвучивании ответа:', error);
+    await bot.sendMessage(chatId, '❌ Не удалось озвучить ответ.');
+    return false;
+  }
+}
+
+/**
+ * Answer with web search. Tool calls can't be streamed, so the streamer shows progress
+ * until the whole answer is ready.
+ */
+async function searchAnswer(
+  threadId: string,
+  streamer: MessageStreamer,
+  options: AssistantRequestOptions,
+): Promise<string> {
+  const session = new WebSearchSession();
+  streamer.update('🔎 Ищу в интернете...');
+  const answer = await getAssistantResponseWithTools(threadId, session.tools, {
+    ...options,
+    context: [WEB_SEARCH_INSTRUCTIONS, options.context].filter(Boolean).join('\n\n'),
+    onToolCall: call => {
+      if (call.name === 'fetch_page') streamer.update('📖 Читаю источники...');
+    },
+  });
+  return session.formatAnswer(answer);
+}
+
+/**
+ * Stream the answer to the last user turn of the thread into the given streamer
+ */
+async function streamAnswer(
+  bot: TelegramBot,
+  msg: TelegramMessage,
+  user: DbUser,
+  threadId: string,
+  streamer: MessageStreamer,
+): Promise<string> {
+  const searchQuery = parseSearchCommand(msg.text ?? '');
+  const question = searchQuery ?? msg.text ?? '';
+  const documentContext = await getDocumentContext(threadId, question);
+  const options: AssistantRequestOptions = {
+    modelId: user.text_model,
+    systemPrompt: getActivePersona(user)?.prompt,
+    maxTokens: getMaxCompletionTokens(!!user.is_premium),
+    context: [getReplyContext(msg), documentContext].filter(Boolean).join('\n\n') || null,
+    // Telegram download links expire and carry the bot token, so images are stored as file ids
+    resolveImage: fileId => fetchTelegramImageDataUrl(bot, fileId),
+  };
+  if (searchQuery) return searchAnswer(threadId, streamer, options);
+
+  let shown = '';
+  return streamAssistantResponse(threadId, partial => streamer.update((shown = partial)), {
+    ...options,
+    ...(isAssistantToolsEnabled() && {
+      tools: assistantTools.bind({ bot, msg, user, userId: msg.from!.id }),
+      onToolCall: call => {
+        const status = assistantTools.get(call.name)?.status;
+        if (status) streamer.update(shown ? `${shown}\n\n${status}` : status);
+      },
+    }),
+  });
+}
 
 export async function handleTextGeneration(
   bot: TelegramBot,
@@ -14,6 +117,18 @@ export async function handleTextGeneration(
   const userId = msg.from?.id;
   const text = msg.text;
   if (!userId || !text) return;
+  const searchQuery = parseSearchCommand(text);
+  if (searchQuery === '') {
+    await bot.sendMessage(
+      chatId,
+      '🔎 Напишите вопрос после команды, например: /search курс евро сегодня',
+    );
+    return;
+  }
+  if (searchQuery && !getSearchProvider().isConfigured()) {
+    await bot.sendMessage(chatId, '❌ Поиск в интернете сейчас недоступен.');
+    return;
+  }
   const allowed = await canConsumeRequest(userId, 'text_req_left');
   if (!allowed) {
     const stats = await getUserStats(userId);
@@ -24,10 +139,38 @@ export async function handleTextGeneration(
     return;
   }
   try {
+    let cost = 1;
     await bot.sendChatAction(chatId, 'typing');
     if (user.openai_thread_id) {
-      await createMessage(user.openai_thread_id, text);
-      const response = await getAssistantResponse(user.openai_thread_id);
+      // A reply to a photo asks about that photo, so it joins the turn as an image
+      const repliedPhotoId = getRepliedPhotoId(msg);
+      const question = await createMessage(
+        user.openai_thread_id,
+        searchQuery ?? text,
+        userId,
+        repliedPhotoId ? [repliedPhotoId] : undefined,
+      );
+      // No reply keyboard here: a message sent with one can't get inline buttons by an edit,
+      // and the main keyboard stays open from earlier messages anyway
+      const placeholder = await bot.sendMessage(chatId, '💭 Думаю...');
+      const streamer = createMessageStreamer(bot, chatId, placeholder.message_id);
+      const response = await streamAnswer(bot, msg, user, user.openai_thread_id, streamer);
+      const partIds = await streamer.finish(response, {
+        reply_markup: createAnswerKeyboard(msg.message_id),
+      });
+      await getReplyStore().saveReply({
+        chat_id: chatId,
+        user_message_id: msg.message_id,
+        bot_message_id: partIds.pop()!,
+        part_message_ids: partIds,
+        mode: 'text',
+        prompt: text,
+        thread_id: user.openai_thread_id,
+        conversation_message_id: question.id,
+        telegram_id: userId,
+        model: resolveTextModel(user.text_model).model,
+        response,
+      });
       await logInteraction({
         userId,
         chatId,
@@ -35,14 +178,17 @@ export async function handleTextGeneration(
         type: 'text',
         content: response,
       });
-      await bot.sendMessage(chatId, response, {
-        parse_mode: 'Markdown',
-        reply_markup: createMainKeyboard(),
-      });
+      if (user.voice_replies) {
+        if (!(await canConsumeRequest(userId, 'text_req_left', VOICE_REPLY_COST))) {
+          await bot.sendMessage(chatId, '🔇 Недостаточно запросов для голосового ответа.');
+        } else if (await sendVoiceReply(bot, chatId, response)) {
+          cost = VOICE_REPLY_COST;
+        }
+      }
     } else {
       await bot.sendMessage(chatId, '❌ Не найден OpenAI thread для пользователя.');
     }
-    await decreaseRequests(userId, 'text_req_left');
+    await decreaseRequests(userId, 'text_req_left', cost);
   } catch (error) {
     console.error('Ошибка в handleTextGeneration:', error);
     await bot.sendMessage(
@@ -52,6 +198,88 @@ export async function handleTextGeneration(
   }
 }
 
+/**
+ * Only the answer to the latest prompt of the current conversation can be redone or
+ * continued without rewriting the rest of the thread
+ */
+export async function isLatestReply(reply: MessageReply, user: DbUser): Promise<boolean> {
+  if (reply.mode !== 'text' || !reply.bot_message_id) return false;
+  if (!user.openai_thread_id || reply.thread_id !== user.openai_thread_id) return false;
+  const latest = await getReplyStore().getLatestReply(reply.chat_id);
+  return latest?.user_message_id === reply.user_message_id;
+}
+
+/**
+ * Answer a prompt again: the thread turn of the prompt gets its text and the previous
+ * answer is rewritten in place. Used for edited prompts and the "Regenerate" button;
+ * the caller checks isLatestReply first.
+ */
+export async function regenerateReply(
+  bot: TelegramBot,
+  msg: TelegramMessage,
+  user: DbUser,
+  reply: MessageReply,
+): Promise<void> {
+  const chatId = msg.chat.id;
+  const userId = msg.from?.id;
+  const text = msg.text;
+  const threadId = user.openai_thread_id;
+  if (!userId || !text || !threadId) return;
+  if (!(await canConsumeRequest(userId, 'text_req_left'))) {
+    await bot.sendMessage(chatId, '❌ У вас закончились текстовые запросы.');
+    return;
+  }
+  try {
+    const question = parseSearchCommand(text) ?? text;
+    const replaced =
+      reply.conversation_message_id &&
+      (await getConversationStore().replaceUserMessage(
+        threadId,
+        reply.conversation_message_id,
+        question,
+      ));
+    if (!replaced) {
+      await bot.sendMessage(chatId, '❌ Этот ответ уже не обновить. Отправьте вопрос заново.');
+      return;
+    }
+    await bot.sendChatAction(chatId, 'typing');
+    // The new answer replaces the last part; earlier parts of a split answer are removed
+    for (const partId of reply.part_message_ids) {
+      await bot.deleteMessage(chatId, partId).catch(() => undefined);
+    }
+    const streamer = createMessageStreamer(bot, chatId, reply.bot_message_id!);
+    streamer.update('💭 Думаю...');
+    const response = await streamAnswer(bot, msg, user, threadId, streamer);
+    const partIds = await streamer.finish(response, {
+      reply_markup: createAnswerKeyboard(msg.message_id),
+    });
+    await getReplyStore().saveReply({
+      chat_id: chatId,
+      user_message_id: msg.message_id,
+      bot_message_id: partIds.pop()!,
+      part_message_ids: partIds,
+      mode: 'text',
+      prompt: text,
+      thread_id: threadId,
+      conversation_message_id: reply.conversation_message_id,
+      telegram_id: userId,
+      model: resolveTextModel(user.text_model).model,
+      response,
+    });
+    await logInteraction({
+      userId,
+      chatId,
+      direction: 'bot',
+      type: 'text',
+      content: response,
+    });
+    await decreaseRequests(userId, 'text_req_left');
+  } catch (error) {
+    console.error('Ошибка в regenerateReply:', error);
+    await bot.sendMessage(chatId, '❌ Не удалось обновить ответ. Отправьте вопрос заново.');
+  }
+}
+
 export async function handleVoiceMessage(bot: TelegramBot, msg: TelegramMessage): Promise<void> {
   const chatId = msg.chat.id;
   const userId = msg.from?.id;
@@ -1,15 +1,30 @@
 import type { TelegramLikeBot as TelegramBot } from '../tg-client.js';
 import type { TelegramMessage, RequestType } from '@/types/index.js';
 import {
-  generateVideoWithFal,
+  FalKlingVideoRequest,
+  getFalVideoTaskResult,
+  getFalVideoTaskStatus,
+  submitFalVideoTask,
   validateFalVideoOptions,
   isFalVideoConfigured,
   parseVideoCommand,
+  formatVideoStatusMessage,
 } from '@/handlers/fal-video-handler.js';
-import { decreaseRequests, canConsumeRequest } from '@/handlers/supabase-handler.js';
+import { JobHandler, getJobQueue } from '@/handlers/job-queue.js';
+import { canConsumeRequest } from '@/handlers/supabase-handler.js';
 import { safeEditMessageText } from '@/handlers/handler-utils.js';
 import { logInteraction } from '@/utils/logger.js';
 
+/**
+ * Input of a video job; with an image the image is animated, otherwise the prompt is filmed.
+ * The image is kept as a Telegram file id: download links carry the bot token and expire,
+ * so the link is made only when the task is submitted.
+ */
+export type VideoJobParams = Omit<FalKlingVideoRequest, 'image_url'> & {
+  duration: '5' | '10';
+  image_file_id?: string;
+};
+
 // Helper function to detect media type from URL
 function getMediaType(url: string): 'video' | 'animation' | 'document' {
   const urlLower = url.toLowerCase();
@@ -36,21 +51,32 @@ function getMediaType(url: string): 'video' | 'animation' | 'document' {
   return 'video';
 }
 
-export async function handleVideoGeneration(bot: TelegramBot, msg: TelegramMessage): Promise<void> {
+const modelType = (params: VideoJobParams) =>
+  params.image_file_id ? ('image-to-video' as const) : ('text-to-video' as const);
+
+/**
+ * Queue a video for the message. The job itself takes minutes, so this resolves once the
+ * job is queued: true then, false when the request was refused with a message to the chat.
+ */
+export async function handleVideoGeneration(
+  bot: TelegramBot,
+  msg: TelegramMessage,
+  imageFileId?: string,
+): Promise<boolean> {
   const chatId = msg.chat.id;
-  const text = msg.text;
-  if (!text) return;
+  const text = imageFileId ? (msg.text ?? msg.caption) : msg.text;
+  if (!text) return false;
 
   if (!isFalVideoConfigured()) {
     await bot.sendMessage(
       chatId,
       '❌ Генерация видео в настоящее время недоступна. Проверьте конфигурацию FAL_KEY.',
     );
-    return;
+    return false;
   }
 
   const userId = msg.from?.id;
-  if (!userId) return;
+  if (!userId) return false;
 
   const canUse = await canConsumeRequest(userId, 'video_req_left' as RequestType);
   if (!canUse) {
@@ -58,19 +84,23 @@ export async function handleVideoGeneration(bot: TelegramBot, msg: TelegramMessa
       chatId,
       '❌ У вас закончились видео-запросы. Оформите премиум в разделе ✨ Премиум.',
     );
-    return;
+    return false;
   }
 
-  // Parse command without image URL (text-to-video)
-  const params = parseVideoCommand(text);
-  const validation = validateFalVideoOptions(params);
+  const options = parseVideoCommand(text);
+  const validation = validateFalVideoOptions(options);
 
   if (!validation.valid) {
     await bot.sendMessage(chatId, `❌ Неверные параметры:\n${validation.errors.join('\n')}`);
-    return;
+    return false;
   }
+  // Without an image the prompt alone is turned into a video (text-to-video)
+  const params: VideoJobParams = { ...options, ...(imageFileId && { image_file_id: imageFileId }) };
 
-  const statusMsg = await bot.sendMessage(chatId, '🎬 Генерация видео с Kling (text-to-video)...');
+  const statusMsg = await bot.sendMessage(
+    chatId,
+    `🎬 Генерация видео с Kling (${modelType(params)})...`,
+  );
 
   try {
     await logInteraction({
@@ -79,28 +109,88 @@ export async function handleVideoGeneration(bot: TelegramBot, msg: TelegramMessa
       direction: 'user',
       type: 'video',
       content: params.prompt,
-      meta: { duration: params.duration, type: 'text-to-video' },
+      meta: {
+        duration: params.duration,
+        type: modelType(params),
+        ...(imageFileId && { image_file_id: imageFileId }),
+      },
     });
 
-    // Use fal.ai Kling for text-to-video generation
-    const result = await generateVideoWithFal(params.prompt, undefined, {
-      duration: params.duration,
-      ...(params.aspect_ratio && { aspect_ratio: params.aspect_ratio }),
-      ...(params.negative_prompt && { negative_prompt: params.negative_prompt }),
-      ...(params.cfg_scale !== undefined && { cfg_scale: params.cfg_scale }),
+    await getJobQueue().enqueue({
+      kind: 'video',
+      provider: 'fal-ai',
+      telegram_id: userId,
+      chat_id: chatId,
+      status_message_id: statusMsg.message_id,
+      params,
     });
+    return true;
+  } catch (e: unknown) {
+    console.error('Error in handleVideoGeneration:', e);
+    await safeEditMessageText(
+      bot,
+      chatId,
+      statusMsg.message_id,
+      `❌ Ошибка: ${e instanceof Error ? e.message : 'unknown'}`,
+    );
+    return false;
+  }
+}
+
+/**
+ * Kling videos through the fal.ai queue
+ */
+export const videoJobHandler: JobHandler = {
+  quota: 'video_req_left',
+  maxWaitMs: () => 10 * 60 * 1000,
+
+  async submit(bot, job, callbackUrl) {
+    const { prompt, image_file_id, ...options } = job.params as VideoJobParams;
+    const imageUrl = image_file_id ? await bot.getFileLink(image_file_id) : undefined;
+    const submitResult = await submitFalVideoTask(prompt, imageUrl, options, callbackUrl);
+    if (!submitResult.success || !submitResult.data?.request_id) {
+      throw new Error(submitResult.error?.message ?? 'Неизвестная ошибка');
+    }
+    return submitResult.data.request_id;
+  },
 
-    if (!result.success || !result.data?.data?.video?.url) {
-      await safeEditMessageText(
-        bot,
-        chatId,
-        statusMsg.message_id,
-        `❌ Ошибка генерации: ${result.error?.message ?? 'Неизвестная ошибка'}`,
-      );
-      return;
+  async status(taskId, job) {
+    const result = await getFalVideoTaskStatus(taskId, modelType(job.params as VideoJobParams));
+    if (!result.success) throw new Error(result.error?.message ?? 'Неизвестная ошибка');
+    switch (result.data?.status) {
+      case 'COMPLETED':
+        return { state: 'completed' };
+      case 'IN_PROGRESS':
+        return { state: 'processing' };
+      default:
+        return { state: 'pending' };
     }
+  },
 
-    const videoUrl = result.data.data.video.url;
+  async result(taskId, job) {
+    const result = await getFalVideoTaskResult(taskId, modelType(job.params as VideoJobParams));
+    const videoUrl = result.data?.data?.video?.url;
+    if (!result.success || !videoUrl) {
+      throw new Error(result.error?.message ?? 'Видео не получено');
+    }
+    return { urls: [videoUrl] };
+  },
+
+  async progress(bot, job, status) {
+    if (!job.status_message_id) return;
+    await safeEditMessageText(
+      bot,
+      job.chat_id,
+      job.status_message_id,
+      formatVideoStatusMessage(status.state === 'pending' ? 'IN_QUEUE' : 'IN_PROGRESS'),
+    );
+  },
+
+  async deliver(bot, job, result) {
+    const params = job.params as VideoJobParams;
+    const chatId = job.chat_id;
+    const videoUrl = result.urls[0];
+    if (!videoUrl) throw new Error('Видео не получено');
     const mediaType = getMediaType(videoUrl);
     const caption = `🎬 ${mediaType === 'animation' ? 'Анимация' : 'Видео'} по запросу: ${params.prompt}\n\n📸 Длительность: ${params.duration}с`;
 
@@ -139,34 +229,35 @@ export async function handleVideoGeneration(bot: TelegramBot, msg: TelegramMessa
     }
 
     await logInteraction({
-      userId: userId!,
+      userId: job.telegram_id,
       chatId,
       direction: 'bot',
       type: 'video',
       content: videoUrl,
-      meta: { prompt: params.prompt, duration: params.duration, type: 'text-to-video' },
+      meta: { prompt: params.prompt, duration: params.duration, type: modelType(params) },
     });
 
-    await decreaseRequests(userId, 'video_req_left' as RequestType, 1);
-
-    try {
-      await bot.deleteMessage(chatId, statusMsg.message_id);
-    } catch {}
-  } catch (e: unknown) {
-    console.error('Error in handleVideoGeneration:', e);
-    await safeEditMessageText(
-      bot,
-      chatId,
-      statusMsg.message_id,
-      `❌ Ошибка: ${e instanceof Error ? e.message : 'unknown'}`,
-    );
+    if (job.status_message_id) {
+      try {
+        await bot.deleteMessage(chatId, job.status_message_id);
+      } catch {}
+    }
+  },
 
+  async fail(bot, job, error) {
+    const text = `❌ Ошибка генерации: ${error}`;
+    if (job.status_message_id) {
+      await safeEditMessageText(bot, job.chat_id, job.status_message_id, text);
+    } else {
+      await bot.sendMessage(job.chat_id, text);
+    }
     await logInteraction({
-      userId: userId!,
-      chatId,
+      userId: job.telegram_id,
+      chatId: job.chat_id,
       direction: 'bot',
       type: 'video',
-      content: `❌ Ошибка: ${e instanceof Error ? e.message : 'unknown'}`,
+      content: `❌ Ошибка: ${error}`,
+      meta: { prompt: (job.params as VideoJobParams).prompt },
     });
-  }
-}
+  },
+};
@@ -1,13 +1,65 @@
 import type { TelegramLikeBot as TelegramBot } from '../tg-client.js';
 import type { TelegramMessage } from '@/types/index.js';
-import { findUser, canConsumeRequest, getUserStats } from '@/handlers/supabase-handler.js';
+import {
+  findUser,
+  canConsumeRequest,
+  decreaseRequests,
+  getUserStats,
+} from '@/handlers/supabase-handler.js';
 import { transcribeAudio } from '@/handlers/openai-handler.js';
+import { TELEGRAM_DOWNLOAD_LIMIT, splitMessage } from '@/handlers/handler-utils.js';
+import { getTranscriptionMode } from '@/replies/transcription-mode.js';
+import { formatSrt } from '@/utils/subtitles.js';
 import { handleTextGeneration } from './text.js';
 
+interface AudioSource {
+  fileId: string;
+  // Whisper detects the format from the file extension
+  filename: string;
+  fileSize?: number;
+}
+
+/**
+ * Voice messages, audio files and video notes all go through transcription
+ */
+export function getAudioSource(msg: TelegramMessage): AudioSource | null {
+  if (msg.voice) {
+    return { fileId: msg.voice.file_id, filename: 'voice.ogg', fileSize: msg.voice.file_size };
+  }
+  if (msg.video_note) {
+    return {
+      fileId: msg.video_note.file_id,
+      filename: 'video-note.mp4',
+      fileSize: msg.video_note.file_size,
+    };
+  }
+  if (msg.audio) {
+    const extension = msg.audio.file_name?.match(/\.\w+$/)?.[0] ?? '.mp3';
+    return {
+      fileId: msg.audio.file_id,
+      filename: `audio${extension.toLowerCase()}`,
+      fileSize: msg.audio.file_size,
+    };
+  }
+  return null;
+}
+
 export async function handleVoiceMessage(bot: TelegramBot, msg: TelegramMessage): Promise<void> {
   const chatId = msg.chat.id;
   const userId = msg.from?.id;
   if (!userId) return;
+  const source = getAudioSource(msg);
+  if (!source) {
+    await bot.sendMessage(chatId, '❌ Голосовое сообщение не найдено.');
+    return;
+  }
+  if ((source.fileSize ?? 0) > TELEGRAM_DOWNLOAD_LIMIT) {
+    await bot.sendMessage(
+      chatId,
+      '❌ Файл слишком большой: бот может скачать из Telegram не больше 20 МБ.',
+    );
+    return;
+  }
   try {
     const user = await findUser(userId);
     if (!user) return;
@@ -21,23 +73,37 @@ export async function handleVoiceMessage(bot: TelegramBot, msg: TelegramMessage)
       return;
     }
     await bot.sendChatAction(chatId, 'typing');
-    if (!msg.voice) {
-      await bot.sendMessage(chatId, '❌ Голосовое сообщение не найдено.');
+    const fileLink = await bot.getFileLink(source.fileId);
+    const transcription = await transcribeAudio(fileLink, source.filename);
+    if (!transcription?.text) {
+      await bot.sendMessage(
+        chatId,
+        '❌ Не удалось расшифровать голосовое сообщение. Пожалуйста, попробуйте снова.',
+      );
       return;
     }
-    const fileId = msg.voice.file_id;
-    const fileLink = await bot.getFileLink(fileId);
-    const transcription = await transcribeAudio(fileLink);
-    if (transcription?.text) {
+
+    const mode = getTranscriptionMode(user);
+    if (mode === 'answer') {
       const syntheticMsg = { ...msg, text: transcription.text, from: msg.from };
       await bot.sendMessage(chatId, `🎤 Расшифрованное сообщение: "${transcription.text}"`);
       await handleTextGeneration(bot, syntheticMsg, user);
-    } else {
-      await bot.sendMessage(
+      return;
+    }
+
+    // Transcripts are sent as plain text: they are user speech, not Markdown
+    for (const part of splitMessage(`📝 Расшифровка:\n\n${transcription.text}`)) {
+      await bot.sendMessage(chatId, part);
+    }
+    if (mode === 'srt' && transcription.segments?.length) {
+      await bot.sendDocument(
         chatId,
-        '❌ Не удалось расшифровать голосовое сообщение. Пожалуйста, попробуйте снова.',
+        Buffer.from(formatSrt(transcription.segments), 'utf-8'),
+        { caption: '🕒 Расшифровка с таймкодами' },
+        { filename: 'transcript.srt', contentType: 'application/x-subrip' },
       );
     }
+    await decreaseRequests(userId, 'text_req_left');
   } catch (error) {
     console.error('Ошибка в handleVoiceMessage:', error);
     await bot.sendMessage(chatId, '❌ Ошибка при обработке голосового сообщения.');
@@ -0,0 +1,155 @@
+import type { ConversationMessage, StoredConversationMessage } from '@/types/index.js';
+
+// Per-message overhead of the chat completion format (role, separators)
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Roughly what a Telegram-sized photo costs at high detail
+const IMAGE_TOKENS = 800;
+
+export interface ContextWindowOptions {
+  maxTokens: number;
+}
+
+export interface ContextWindow {
+  messages: ConversationMessage[];
+  tokens: number;
+  // Older turns that did not fit and are not yet covered by the summary
+  overflow: StoredConversationMessage[];
+}
+
+export function getContextWindowOptions(): ContextWindowOptions {
+  return {
+    maxTokens: parseInt(process.env.CONTEXT_MAX_TOKENS ?? '6000', 10),
+  };
+}
+
+export function isSummaryEnabled(): boolean {
+  return process.env.CONTEXT_SUMMARY_ENABLED !== 'false';
+}
+
+/**
+ * How many later user messages an image stays attached for
+ */
+export function getImageContextTurns(): number {
+  const value = parseInt(process.env.IMAGE_CONTEXT_TURNS ?? '', 10);
+  return Number.isNaN(value) ? 3 : Math.max(0, value);
+}
+
+/**
+ * Approximate token count without a tokenizer dependency.
+ * Latin text averages ~4 chars per token, Cyrillic and other scripts ~2.
+ */
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  let other = 0;
+  for (const char of text) {
+    if (char.charCodeAt(0) < 128) ascii++;
+    else other++;
+  }
+  return Math.ceil(ascii / 4 + other / 2);
+}
+
+export function countMessageTokens(message: ConversationMessage): number {
+  const images = (message.images?.length ?? 0) * IMAGE_TOKENS;
+  return estimateTokens(message.content) + images + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Drop images from turns followed by more than maxTurns user messages.
+ * The text of the turn (and the answer describing the image) stays in the history.
+ */
+export function expireImages<T extends ConversationMessage>(history: T[], maxTurns: number): T[] {
+  let laterUserMessages = 0;
+  return history
+    .slice()
+    .reverse()
+    .map(message => {
+      const expired = laterUserMessages > maxTurns;
+      if (message.role === 'user') laterUserMessages++;
+      if (!message.images?.length || !expired) return message;
+      const { images: _images, ...rest } = message;
+      return rest as T;
+    })
+    .reverse();
+}
+
+/**
+ * Cut text so that it fits into the given token budget, keeping the beginning
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) return text;
+  const marker = '\n\n[…сообщение сокращено]';
+  const budget = Math.max(0, maxTokens - estimateTokens(marker));
+  let result = '';
+  let tokens = 0;
+  for (const char of text) {
+    tokens += char.charCodeAt(0) < 128 ? 0.25 : 0.5;
+    if (tokens > budget) break;
+    result += char;
+  }
+  return `${result}${marker}`;
+}
+
+export function formatSummaryMessage(summary: string): ConversationMessage {
+  return {
+    role: 'system',
+    content: `Краткое содержание предыдущей части диалога:\n${summary}`,
+  };
+}
+
+/**
+ * Select the messages sent to the model.
+ * - the first system message (the prompt) is always kept
+ * - the rolling summary, if any, follows the prompt
+ * - turns are added newest first while they fit into the budget
+ * - the latest turn is always kept, truncated if it alone exceeds the budget
+ */
+export function buildContextWindow(
+  history: StoredConversationMessage[],
+  summary: string | null,
+  options: ContextWindowOptions,
+): ContextWindow {
+  const [first, ...rest] = history;
+  const pinned: ConversationMessage[] = [];
+  let turns = rest;
+  if (first && first.role === 'system') {
+    pinned.push({ role: first.role, content: first.content });
+  } else if (first) {
+    turns = history;
+  }
+  if (summary) {
+    pinned.push(formatSummaryMessage(summary));
+  }
+
+  let tokens = pinned.reduce((sum, m) => sum + countMessageTokens(m), 0);
+  const selected: ConversationMessage[] = [];
+  let index = turns.length - 1;
+
+  for (; index >= 0; index--) {
+    const turn = turns[index]!;
+    const turnTokens = countMessageTokens(turn);
+    if (tokens + turnTokens <= options.maxTokens) {
+      selected.unshift({
+        role: turn.role,
+        content: turn.content,
+        ...(turn.images?.length && { images: turn.images }),
+      });
+      tokens += turnTokens;
+      continue;
+    }
+    if (selected.length === 0) {
+      const available = Math.max(0, options.maxTokens - tokens - MESSAGE_OVERHEAD_TOKENS);
+      const content = truncateToTokens(turn.content, available);
+      // Images are dropped: a turn that alone exceeds the budget cannot afford them
+      selected.unshift({ role: turn.role, content });
+      tokens += estimateTokens(content) + MESSAGE_OVERHEAD_TOKENS;
+      index--;
+    }
+    break;
+  }
+
+  return {
+    messages: [...pinned, ...selected],
+    tokens,
+    overflow: turns.slice(0, index + 1),
+  };
+}
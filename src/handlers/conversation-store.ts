@@ -0,0 +1,257 @@
+import { prisma } from '@/utils/prisma.js';
+import type {
+  ConversationMessage,
+  ConversationRole,
+  ConversationThread,
+  StoredConversationMessage,
+} from '@/types/index.js';
+
+/**
+ * Storage backend for chat threads used by text mode
+ */
+export interface ConversationStore {
+  createThread(threadId: string, systemPrompt: string, telegramId?: number): Promise<void>;
+  getThread(threadId: string): Promise<ConversationThread | null>;
+  getMessages(threadId: string): Promise<StoredConversationMessage[] | null>;
+  addMessage(threadId: string, message: ConversationMessage): Promise<StoredConversationMessage>;
+  updateSummary(threadId: string, summary: string, summarizedUntil: Date): Promise<void>;
+  setTitle(threadId: string, title: string): Promise<void>;
+  /**
+   * Change the text of a user message and drop everything after it (the old answer).
+   * Returns false when the message is not in the thread or a later user turn, such as
+   * an image or a document, follows it.
+   */
+  replaceUserMessage(threadId: string, messageId: string, content: string): Promise<boolean>;
+  /** Most recently active threads of a user, newest first */
+  listThreads(telegramId: number, limit: number): Promise<ConversationThread[]>;
+}
+
+function generateMessageId(): string {
+  return `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function toConversationThread(
+  thread: Omit<ConversationThread, 'telegram_id'> & { telegram_id: bigint | null },
+): ConversationThread {
+  return {
+    ...thread,
+    telegram_id: thread.telegram_id !== null ? Number(thread.telegram_id) : null,
+  };
+}
+
+/**
+ * In-memory store for tests and local development. Threads are lost on restart.
+ */
+export class InMemoryConversationStore implements ConversationStore {
+  private threads = new Map<string, ConversationThread>();
+  private messages = new Map<string, StoredConversationMessage[]>();
+
+  createThread(threadId: string, systemPrompt: string, telegramId?: number): Promise<void> {
+    const now = new Date();
+    this.threads.set(threadId, {
+      id: threadId,
+      telegram_id: telegramId ?? null,
+      title: null,
+      summary: null,
+      summarized_until: null,
+      created_at: now,
+      updated_at: now,
+    });
+    this.messages.set(threadId, [
+      { id: generateMessageId(), role: 'system', content: systemPrompt, created_at: now },
+    ]);
+    return Promise.resolve();
+  }
+
+  getThread(threadId: string): Promise<ConversationThread | null> {
+    return Promise.resolve(this.threads.get(threadId) ?? null);
+  }
+
+  getMessages(threadId: string): Promise<StoredConversationMessage[] | null> {
+    const messages = this.messages.get(threadId);
+    return Promise.resolve(messages ? [...messages] : null);
+  }
+
+  addMessage(threadId: string, message: ConversationMessage): Promise<StoredConversationMessage> {
+    const thread = this.threads.get(threadId);
+    const messages = this.messages.get(threadId);
+    if (!thread || !messages) {
+      return Promise.reject(new Error(`Thread ${threadId} not found`));
+    }
+    const stored: StoredConversationMessage = {
+      id: generateMessageId(),
+      role: message.role,
+      content: message.content,
+      ...(message.images?.length && { images: [...message.images] }),
+      created_at: new Date(),
+    };
+    messages.push(stored);
+    thread.updated_at = stored.created_at;
+    return Promise.resolve(stored);
+  }
+
+  updateSummary(threadId: string, summary: string, summarizedUntil: Date): Promise<void> {
+    const thread = this.threads.get(threadId);
+    if (!thread) {
+      return Promise.reject(new Error(`Thread ${threadId} not found`));
+    }
+    thread.summary = summary;
+    thread.summarized_until = summarizedUntil;
+    return Promise.resolve();
+  }
+
+  setTitle(threadId: string, title: string): Promise<void> {
+    const thread = this.threads.get(threadId);
+    if (!thread) {
+      return Promise.reject(new Error(`Thread ${threadId} not found`));
+    }
+    thread.title = title;
+    return Promise.resolve();
+  }
+
+  replaceUserMessage(threadId: string, messageId: string, content: string): Promise<boolean> {
+    const messages = this.messages.get(threadId);
+    const index = messages?.map(m => m.role).lastIndexOf('user') ?? -1;
+    if (!messages || index === -1 || messages[index]!.id !== messageId) {
+      return Promise.resolve(false);
+    }
+    messages[index] = { ...messages[index]!, content };
+    messages.splice(index + 1);
+    return Promise.resolve(true);
+  }
+
+  listThreads(telegramId: number, limit: number): Promise<ConversationThread[]> {
+    const threads = [...this.threads.values()]
+      .filter(t => t.telegram_id === telegramId)
+      .sort((a, b) => b.updated_at.getTime() - a.updated_at.getTime())
+      .slice(0, limit);
+    return Promise.resolve(threads.map(t => ({ ...t })));
+  }
+}
+
+/**
+ * Postgres-backed store shared by every bot instance
+ */
+export class PrismaConversationStore implements ConversationStore {
+  async createThread(threadId: string, systemPrompt: string, telegramId?: number): Promise<void> {
+    await prisma.conversation_threads.create({
+      data: {
+        id: threadId,
+        telegram_id: telegramId !== undefined ? BigInt(telegramId) : null,
+        conversation_messages: {
+          create: [{ role: 'system', content: systemPrompt }],
+        },
+      },
+    });
+  }
+
+  async getThread(threadId: string): Promise<ConversationThread | null> {
+    const thread = await prisma.conversation_threads.findUnique({ where: { id: threadId } });
+    return thread ? toConversationThread(thread) : null;
+  }
+
+  async getMessages(threadId: string): Promise<StoredConversationMessage[] | null> {
+    const thread = await prisma.conversation_threads.findUnique({
+      where: { id: threadId },
+      include: { conversation_messages: { orderBy: { created_at: 'asc' } } },
+    });
+    if (!thread) return null;
+    return thread.conversation_messages.map(m => ({
+      id: m.id,
+      role: m.role as ConversationRole,
+      content: m.content,
+      ...(m.images.length && { images: m.images }),
+      created_at: m.created_at,
+    }));
+  }
+
+  async addMessage(
+    threadId: string,
+    message: ConversationMessage,
+  ): Promise<StoredConversationMessage> {
+    const [stored] = await prisma.$transaction([
+      prisma.conversation_messages.create({
+        data: {
+          thread_id: threadId,
+          role: message.role,
+          content: message.content,
+          images: message.images ?? [],
+        },
+      }),
+      prisma.conversation_threads.update({
+        where: { id: threadId },
+        data: { updated_at: new Date() },
+      }),
+    ]);
+    return {
+      id: stored.id,
+      role: stored.role as ConversationRole,
+      content: stored.content,
+      ...(stored.images.length && { images: stored.images }),
+      created_at: stored.created_at,
+    };
+  }
+
+  async updateSummary(threadId: string, summary: string, summarizedUntil: Date): Promise<void> {
+    await prisma.conversation_threads.update({
+      where: { id: threadId },
+      data: { summary, summarized_until: summarizedUntil },
+    });
+  }
+
+  async setTitle(threadId: string, title: string): Promise<void> {
+    await prisma.conversation_threads.update({ where: { id: threadId }, data: { title } });
+  }
+
+  async replaceUserMessage(threadId: string, messageId: string, content: string): Promise<boolean> {
+    const last = await prisma.conversation_messages.findFirst({
+      where: { thread_id: threadId, role: 'user' },
+      orderBy: { created_at: 'desc' },
+    });
+    if (last?.id !== messageId) return false;
+    await prisma.$transaction([
+      prisma.conversation_messages.update({ where: { id: last.id }, data: { content } }),
+      prisma.conversation_messages.deleteMany({
+        where: { thread_id: threadId, created_at: { gt: last.created_at } },
+      }),
+    ]);
+    return true;
+  }
+
+  async listThreads(telegramId: number, limit: number): Promise<ConversationThread[]> {
+    const threads = await prisma.conversation_threads.findMany({
+      where: { telegram_id: BigInt(telegramId) },
+      orderBy: { updated_at: 'desc' },
+      take: limit,
+    });
+    return threads.map(toConversationThread);
+  }
+}
+
+/**
+ * Backend shared by all stores. CONVERSATION_STORE=memory|postgres,
+ * defaults to postgres when DATABASE_URL is set.
+ */
+export function resolveStoreBackend(): 'memory' | 'postgres' {
+  const backend =
+    process.env.CONVERSATION_STORE ?? (process.env.DATABASE_URL ? 'postgres' : 'memory');
+  return backend === 'memory' ? 'memory' : 'postgres';
+}
+
+let conversationStore: ConversationStore | null = null;
+
+export function getConversationStore(): ConversationStore {
+  if (!conversationStore) {
+    if (resolveStoreBackend() === 'memory') {
+      console.warn('⚠️ Using in-memory conversation store: history is lost on restart');
+      conversationStore = new InMemoryConversationStore();
+    } else {
+      conversationStore = new PrismaConversationStore();
+    }
+  }
+  return conversationStore;
+}
+
+export function setConversationStore(store: ConversationStore): void {
+  conversationStore = store;
+}
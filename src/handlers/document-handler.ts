@@ -0,0 +1,141 @@
+import type { ConversationDocument, DocumentChunk } from '@/types/index.js';
+import type { DocumentSection } from '@/utils/document-text.js';
+import { getDocumentStore } from './document-store.js';
+
+const CHUNK_MAX_LENGTH = 1200;
+const PASSAGES_PER_ANSWER = 4;
+// BM25 parameters
+const TERM_SATURATION = 1.2;
+const LENGTH_NORMALIZATION = 0.75;
+
+export const MAX_DOCUMENT_CHARS = 1_000_000;
+
+/**
+ * Text requests charged for an upload: one per DOCUMENT_CHARS_PER_REQUEST characters
+ */
+export function getDocumentCost(charCount: number): number {
+  const perRequest = parseInt(process.env.DOCUMENT_CHARS_PER_REQUEST ?? '', 10) || 20_000;
+  return Math.max(1, Math.ceil(charCount / perRequest));
+}
+
+function splitLongLine(line: string): string[] {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += CHUNK_MAX_LENGTH) {
+    parts.push(line.slice(i, i + CHUNK_MAX_LENGTH));
+  }
+  return parts;
+}
+
+/**
+ * Split sections into passages of up to CHUNK_MAX_LENGTH characters at line breaks.
+ * Passages of unlabelled sections are labelled with their line range.
+ */
+export function chunkDocument(sections: DocumentSection[]): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  for (const section of sections) {
+    let lines: string[] = [];
+    let firstLine = 1;
+    let lineNumber = 0;
+    const flush = () => {
+      const text = lines.join('\n').trim();
+      if (text) {
+        const label = section.label ?? `строки ${firstLine}–${lineNumber}`;
+        chunks.push({ label, text });
+      }
+      lines = [];
+      firstLine = lineNumber + 1;
+    };
+
+    for (const line of section.text.split('\n')) {
+      for (const part of line.length > CHUNK_MAX_LENGTH ? splitLongLine(line) : [line]) {
+        if (lines.length && [...lines, part].join('\n').length > CHUNK_MAX_LENGTH) flush();
+        lines.push(part);
+      }
+      lineNumber++;
+    }
+    flush();
+  }
+  return chunks;
+}
+
+/**
+ * Lowercased words cut to six characters, a crude stemmer that lets
+ * Russian word forms ("договора", "договору") match each other
+ */
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter(word => word.length > 2)
+    .map(word => word.slice(0, 6));
+}
+
+export interface RetrievedPassage extends DocumentChunk {
+  filename: string;
+}
+
+/**
+ * Rank passages of the given documents against the question with BM25.
+ * When nothing matches (e.g. "summarize this"), the beginning of the latest document is used.
+ */
+export function retrievePassages(
+  documents: ConversationDocument[],
+  question: string,
+  limit = PASSAGES_PER_ANSWER,
+): RetrievedPassage[] {
+  const passages = documents.flatMap(d => d.chunks.map(c => ({ ...c, filename: d.filename })));
+  if (passages.length === 0) return [];
+
+  const terms = new Set(tokenize(question));
+  const tokenized = passages.map(p => tokenize(p.text));
+  const averageLength = tokenized.reduce((sum, t) => sum + t.length, 0) / passages.length || 1;
+  const documentFrequency = new Map<string, number>();
+  for (const tokens of tokenized) {
+    for (const term of new Set(tokens)) {
+      if (terms.has(term)) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const scored = tokenized.map((tokens, index) => {
+    let score = 0;
+    for (const term of terms) {
+      const frequency = tokens.filter(t => t === term).length;
+      if (!frequency) continue;
+      const df = documentFrequency.get(term)!;
+      const idf = Math.log(1 + (passages.length - df + 0.5) / (df + 0.5));
+      const norm =
+        1 - LENGTH_NORMALIZATION + (LENGTH_NORMALIZATION * tokens.length) / averageLength;
+      score += (idf * frequency * (TERM_SATURATION + 1)) / (frequency + TERM_SATURATION * norm);
+    }
+    return { index, score };
+  });
+
+  const matches = scored
+    .filter(s => s.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    // Keep document order so neighbouring passages read naturally
+    .sort((a, b) => a.index - b.index)
+    .map(s => passages[s.index]!);
+  if (matches.length) return matches;
+
+  const latest = documents[documents.length - 1]!;
+  return latest.chunks.slice(0, limit).map(c => ({ ...c, filename: latest.filename }));
+}
+
+/**
+ * Reference material for a text mode turn, or null when the thread has no documents
+ */
+export async function getDocumentContext(
+  threadId: string,
+  question: string,
+): Promise<string | null> {
+  const documents = await getDocumentStore().listDocuments(threadId);
+  const passages = retrievePassages(documents, question);
+  if (passages.length === 0) return null;
+
+  return [
+    'Passages from documents the user uploaded to this conversation. Base the answer on them ' +
+      'and cite sources in square brackets exactly as they are labelled, e.g. [report.pdf, стр. 3]. ' +
+      'If the passages do not contain the answer, say so.',
+    ...passages.map(p => `[${p.filename}, ${p.label}]\n${p.text}`),
+  ].join('\n\n');
+}
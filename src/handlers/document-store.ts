@@ -0,0 +1,69 @@
+import { prisma } from '@/utils/prisma.js';
+import type { ConversationDocument, DocumentChunk } from '@/types/index.js';
+import { resolveStoreBackend } from './conversation-store.js';
+
+export type NewConversationDocument = Omit<ConversationDocument, 'id' | 'created_at'>;
+
+/**
+ * Storage for documents uploaded to a conversation
+ */
+export interface DocumentStore {
+  addDocument(document: NewConversationDocument): Promise<ConversationDocument>;
+  /** Documents of a thread, oldest first */
+  listDocuments(threadId: string): Promise<ConversationDocument[]>;
+}
+
+/**
+ * In-memory store for tests and local development. Documents are lost on restart.
+ */
+export class InMemoryDocumentStore implements DocumentStore {
+  private documents: ConversationDocument[] = [];
+
+  addDocument(document: NewConversationDocument): Promise<ConversationDocument> {
+    const stored: ConversationDocument = {
+      ...document,
+      id: `doc_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+      created_at: new Date(),
+    };
+    this.documents.push(stored);
+    return Promise.resolve(stored);
+  }
+
+  listDocuments(threadId: string): Promise<ConversationDocument[]> {
+    return Promise.resolve(this.documents.filter(d => d.thread_id === threadId));
+  }
+}
+
+/**
+ * Postgres-backed store; documents are deleted together with their thread
+ */
+export class PrismaDocumentStore implements DocumentStore {
+  async addDocument(document: NewConversationDocument): Promise<ConversationDocument> {
+    const stored = await prisma.conversation_documents.create({
+      data: { ...document, chunks: document.chunks as unknown as object[] },
+    });
+    return { ...stored, chunks: stored.chunks as unknown as DocumentChunk[] };
+  }
+
+  async listDocuments(threadId: string): Promise<ConversationDocument[]> {
+    const documents = await prisma.conversation_documents.findMany({
+      where: { thread_id: threadId },
+      orderBy: { created_at: 'asc' },
+    });
+    return documents.map(d => ({ ...d, chunks: d.chunks as unknown as DocumentChunk[] }));
+  }
+}
+
+let documentStore: DocumentStore | null = null;
+
+export function getDocumentStore(): DocumentStore {
+  if (!documentStore) {
+    documentStore =
+      resolveStoreBackend() === 'memory' ? new InMemoryDocumentStore() : new PrismaDocumentStore();
+  }
+  return documentStore;
+}
+
+export function setDocumentStore(store: DocumentStore): void {
+  documentStore = store;
+}
@@ -15,6 +15,21 @@ export interface NanoBananaTextToImageRequest {
   sync_mode?: boolean;
 }
 
+export type NanoBananaAspectRatio = NonNullable<NanoBananaTextToImageRequest['aspect_ratio']>;
+
+export const NANO_BANANA_ASPECT_RATIOS: NanoBananaAspectRatio[] = [
+  '21:9',
+  '1:1',
+  '4:3',
+  '3:2',
+  '2:3',
+  '5:4',
+  '4:5',
+  '3:4',
+  '16:9',
+  '9:16',
+];
+
 export interface NanoBananaImageToImageRequest {
   prompt: string;
   image_urls: string[];
@@ -261,12 +276,14 @@ export async function generateImageWithFal(
  * @param prompt - The text prompt
  * @param options - Generation/editing options
  * @param imageUrls - Optional image URLs for image-to-image editing
+ * @param webhookUrl - Optional URL fal.ai calls when the task finishes
  * @returns Promise with task submission response
  */
 export async function submitFalImageTask(
   prompt: string,
   options: Omit<NanoBananaTextToImageRequest, 'prompt'> = {},
   imageUrls?: string[],
+  webhookUrl?: string,
 ): Promise<ApiResponse<{ request_id: string }>> {
   try {
     if (!isFalConfigured()) {
@@ -313,6 +330,7 @@ export async function submitFalImageTask(
 
     const { request_id } = await fal.queue.submit(endpoint, {
       input,
+      ...(webhookUrl && { webhookUrl }),
     });
 
     console.log('✅ Nano Banana task submitted with ID:', request_id);
@@ -577,20 +595,8 @@ export function validateNanoBananaOptions(options: Partial<NanoBananaTextToImage
   const errors: string[] = [];
 
   // Validate aspect ratio
-  const validAspectRatios = [
-    '21:9',
-    '1:1',
-    '4:3',
-    '3:2',
-    '2:3',
-    '5:4',
-    '4:5',
-    '3:4',
-    '16:9',
-    '9:16',
-  ];
-  if (options.aspect_ratio && !validAspectRatios.includes(options.aspect_ratio)) {
-    errors.push(`Invalid aspect ratio. Must be one of: ${validAspectRatios.join(', ')}`);
+  if (options.aspect_ratio && !NANO_BANANA_ASPECT_RATIOS.includes(options.aspect_ratio)) {
+    errors.push(`Invalid aspect ratio. Must be one of: ${NANO_BANANA_ASPECT_RATIOS.join(', ')}`);
   }
 
   // Validate number of images
@@ -162,12 +162,14 @@ export async function generateVideoWithFal(
  * @param prompt - The text prompt describing the video motion/action
  * @param imageUrl - Optional URL of the image to animate (for image-to-video)
  * @param options - Additional options for video generation
+ * @param webhookUrl - Optional URL fal.ai calls when the task finishes
  * @returns Promise with task submission response
  */
 export async function submitFalVideoTask(
   prompt: string,
   imageUrl?: string,
   options: Omit<FalKlingVideoRequest, 'prompt' | 'image_url'> = {},
+  webhookUrl?: string,
 ): Promise<ApiResponse<{ request_id: string }>> {
   try {
     if (!isFalVideoConfigured()) {
@@ -213,6 +215,7 @@ export async function submitFalVideoTask(
 
     const { request_id } = await fal.queue.submit(modelEndpoint, {
       input,
+      ...(webhookUrl && { webhookUrl }),
     });
 
     console.log('✅ fal.ai video task submitted with ID:', request_id);
@@ -1,5 +1,6 @@
 import axios from 'axios';
 import type {
+  CallbackData,
   GoApiImageRequest,
   GoApiImageResponse,
   ApiResponse,
@@ -7,6 +8,10 @@ import type {
   TelegramInlineKeyboard,
   ProcessingMode,
   PaymentMode,
+  GoApiWebhookConfig,
+  ImageTransform,
+  MaskRegion,
+  PanDirection,
 } from '@/types/index';
 
 const GOAPI_API_KEY = process.env.GOAPI_API_KEY;
@@ -52,6 +57,7 @@ export async function generateImage(
       },
       config: {
         ...(options.service_mode && { service_mode: options.service_mode }),
+        ...(options.webhook_config && { webhook_config: options.webhook_config }),
       },
     };
 
@@ -78,11 +84,13 @@ export async function generateImage(
  * Upscale a specific image from a generated grid
  * @param {string} taskId - Original task ID
  * @param {number} index - Index of the image to upscale (1-4)
+ * @param {Object} webhookConfig - Webhook called when the upscale finishes
  * @returns {Promise<Object>} Upscale task response
  */
 export async function upscaleImage(
   taskId: string,
   index: number,
+  webhookConfig?: GoApiWebhookConfig,
 ): Promise<ApiResponse<GoApiImageResponse>> {
   try {
     const response = await goapi.post<GoApiImageResponse>('/task', {
@@ -92,6 +100,7 @@ export async function upscaleImage(
         origin_task_id: taskId,
         index: String(index),
       },
+      ...(webhookConfig && { config: { webhook_config: webhookConfig } }),
     });
     return {
       success: true,
@@ -114,12 +123,15 @@ export async function upscaleImage(
 /**
  * Create variations of a specific image from a generated grid
  * @param {string} taskId - Original task ID
- * @param {number} index - Index of the image to vary (1-4)
+ * @param {number|string} index - Index of the image to vary (1-4), or "high_variation" /
+ * "low_variation" for a strong or subtle variation of an upscaled image
+ * @param {Object} webhookConfig - Webhook called when the variation finishes
  * @returns {Promise<Object>} Variation task response
  */
 export async function variateImage(
   taskId: string,
-  index: number,
+  index: number | 'high_variation' | 'low_variation',
+  webhookConfig?: GoApiWebhookConfig,
 ): Promise<ApiResponse<GoApiImageResponse>> {
   try {
     const response = await goapi.post<GoApiImageResponse>('/task', {
@@ -129,6 +141,7 @@ export async function variateImage(
         origin_task_id: taskId,
         index: String(index),
       },
+      ...(webhookConfig && { config: { webhook_config: webhookConfig } }),
     });
     return {
       success: true,
@@ -148,6 +161,128 @@ export async function variateImage(
   }
 }
 
+/**
+ * Generate a new grid from the prompt of a finished task
+ * @param {string} taskId - Original task ID
+ * @param {Object} webhookConfig - Webhook called when the reroll finishes
+ * @returns {Promise<Object>} Reroll task response
+ */
+export async function rerollImage(
+  taskId: string,
+  webhookConfig?: GoApiWebhookConfig,
+): Promise<ApiResponse<GoApiImageResponse>> {
+  try {
+    const response = await goapi.post<GoApiImageResponse>('/task', {
+      model: 'midjourney',
+      task_type: 'reroll',
+      input: {
+        origin_task_id: taskId,
+      },
+      ...(webhookConfig && { config: { webhook_config: webhookConfig } }),
+    });
+    return {
+      success: true,
+      data: response.data,
+    };
+  } catch (error) {
+    console.error(
+      'Error rerolling image:',
+      axios.isAxiosError(error) ? error.response?.data : error,
+    );
+    return {
+      success: false,
+      error: axios.isAxiosError(error)
+        ? ((error.response?.data as { message: string }) ?? { message: error.message })
+        : { message: error instanceof Error ? error.message : 'Unknown error' },
+    };
+  }
+}
+
+async function createChildTask(
+  taskType: 'outpaint' | 'pan' | 'inpaint',
+  input: Record<string, string>,
+  webhookConfig?: GoApiWebhookConfig,
+): Promise<ApiResponse<GoApiImageResponse>> {
+  try {
+    const response = await goapi.post<GoApiImageResponse>('/task', {
+      model: 'midjourney',
+      task_type: taskType,
+      input,
+      ...(webhookConfig && { config: { webhook_config: webhookConfig } }),
+    });
+    return {
+      success: true,
+      data: response.data,
+    };
+  } catch (error) {
+    console.error(
+      `Error creating ${taskType} task:`,
+      axios.isAxiosError(error) ? error.response?.data : error,
+    );
+    return {
+      success: false,
+      error: axios.isAxiosError(error)
+        ? ((error.response?.data as { message: string }) ?? { message: error.message })
+        : { message: error instanceof Error ? error.message : 'Unknown error' },
+    };
+  }
+}
+
+/**
+ * Zoom out of an upscaled image, drawing a new border around it
+ * @param {string} taskId - Upscale task ID
+ * @param {string} zoomRatio - "1.5" or "2"
+ * @param {Object} webhookConfig - Webhook called when the task finishes
+ * @returns {Promise<Object>} Outpaint task response
+ */
+export function outpaintImage(
+  taskId: string,
+  zoomRatio: '1.5' | '2',
+  webhookConfig?: GoApiWebhookConfig,
+): Promise<ApiResponse<GoApiImageResponse>> {
+  return createChildTask(
+    'outpaint',
+    { origin_task_id: taskId, zoom_ratio: zoomRatio, prompt: '' },
+    webhookConfig,
+  );
+}
+
+/**
+ * Extend an upscaled image in one direction
+ * @param {string} taskId - Upscale task ID
+ * @param {string} direction - "left", "right", "up" or "down"
+ * @param {Object} webhookConfig - Webhook called when the task finishes
+ * @returns {Promise<Object>} Pan task response
+ */
+export function panImage(
+  taskId: string,
+  direction: PanDirection,
+  webhookConfig?: GoApiWebhookConfig,
+): Promise<ApiResponse<GoApiImageResponse>> {
+  return createChildTask('pan', { origin_task_id: taskId, direction, prompt: '' }, webhookConfig);
+}
+
+/**
+ * Redraw the masked part of an upscaled image (vary region)
+ * @param {string} taskId - Upscale task ID
+ * @param {string} prompt - What to draw in the region
+ * @param {Buffer} mask - PNG of the image size, white over the region
+ * @param {Object} webhookConfig - Webhook called when the task finishes
+ * @returns {Promise<Object>} Inpaint task response
+ */
+export function inpaintImage(
+  taskId: string,
+  prompt: string,
+  mask: Buffer,
+  webhookConfig?: GoApiWebhookConfig,
+): Promise<ApiResponse<GoApiImageResponse>> {
+  return createChildTask(
+    'inpaint',
+    { origin_task_id: taskId, prompt, mask: mask.toString('base64') },
+    webhookConfig,
+  );
+}
+
 /**
  * Get the status of a task
  * @param {string} taskId - Task ID to check
@@ -343,74 +478,145 @@ export async function describeImageAndWait(
   return await waitForTaskCompletion(taskId);
 }
 
+export const MIDJOURNEY_ASPECT_RATIOS: AspectRatio[] = [
+  '1:1',
+  '1:2',
+  '2:1',
+  '2:3',
+  '3:2',
+  '3:4',
+  '4:3',
+  '4:5',
+  '5:4',
+  '9:16',
+  '16:9',
+  '21:9',
+  '9:21',
+];
+
 /**
  * Parse aspect ratio string and validate it
  * @param {string} aspectRatio - Aspect ratio string like "16:9", "1:1", etc.
  * @returns {boolean} Whether the aspect ratio is valid
  */
 export function isValidAspectRatio(aspectRatio: string): aspectRatio is AspectRatio {
-  const validRatios: AspectRatio[] = [
-    '1:1',
-    '1:2',
-    '2:1',
-    '2:3',
-    '3:2',
-    '3:4',
-    '4:3',
-    '4:5',
-    '5:4',
-    '9:16',
-    '16:9',
-    '21:9',
-    '9:21',
-  ];
-  return validRatios.includes(aspectRatio as AspectRatio);
+  return MIDJOURNEY_ASPECT_RATIOS.includes(aspectRatio as AspectRatio);
+}
+
+/** Buttons under a Midjourney grid or upscaled image */
+export type ImageActionRequest =
+  | { action: 'upscale' | 'variation'; taskId: string; index: number }
+  | { action: 'reroll'; taskId: string }
+  | {
+      action: 'transform';
+      taskId: string;
+      transform: Exclude<ImageTransform, { type: 'vary_region' }>;
+    }
+  /** Opens the region menu of vary region */
+  | { action: 'pick_region'; taskId: string }
+  /** The region was picked; the prompt comes in the next message */
+  | { action: 'region'; taskId: string; region: MaskRegion };
+
+// Telegram allows 64 bytes of callback data and a GoAPI task id takes 36 of them,
+// so actions are sent as codes. U1-U4 and V1-V4 carry the grid part.
+const IMAGE_ACTION_CODES: Record<string, (taskId: string) => ImageActionRequest> = {
+  R: taskId => ({ action: 'reroll', taskId }),
+  Z15: taskId => ({ action: 'transform', taskId, transform: { type: 'zoom_out', ratio: '1.5' } }),
+  Z2: taskId => ({ action: 'transform', taskId, transform: { type: 'zoom_out', ratio: '2' } }),
+  PL: taskId => ({ action: 'transform', taskId, transform: { type: 'pan', direction: 'left' } }),
+  PR: taskId => ({ action: 'transform', taskId, transform: { type: 'pan', direction: 'right' } }),
+  PU: taskId => ({ action: 'transform', taskId, transform: { type: 'pan', direction: 'up' } }),
+  PD: taskId => ({ action: 'transform', taskId, transform: { type: 'pan', direction: 'down' } }),
+  VH: taskId => ({ action: 'transform', taskId, transform: { type: 'vary', strength: 'strong' } }),
+  VL: taskId => ({ action: 'transform', taskId, transform: { type: 'vary', strength: 'subtle' } }),
+  VR: taskId => ({ action: 'pick_region', taskId }),
+  MT: taskId => ({ action: 'region', taskId, region: 'top' }),
+  MB: taskId => ({ action: 'region', taskId, region: 'bottom' }),
+  ML: taskId => ({ action: 'region', taskId, region: 'left' }),
+  MR: taskId => ({ action: 'region', taskId, region: 'right' }),
+  MC: taskId => ({ action: 'region', taskId, region: 'center' }),
+};
+
+function imageActionButton(text: string, code: string, taskId: string) {
+  return { text, callback_data: JSON.stringify({ action: code, t_id: taskId }) };
+}
+
+/**
+ * Reads an image action button; buttons sent before the codes carry just t_id and idx and
+ * upscale
+ */
+export function parseImageAction(data: CallbackData): ImageActionRequest | null {
+  if (!data.t_id) return null;
+  if (data.action === undefined) {
+    return typeof data.idx === 'number'
+      ? { action: 'upscale', taskId: data.t_id, index: data.idx }
+      : null;
+  }
+  const grid = /^([UV])([1-4])$/.exec(data.action);
+  if (grid) {
+    const action = grid[1] === 'U' ? 'upscale' : 'variation';
+    return { action, taskId: data.t_id, index: Number(grid[2]) };
+  }
+  return Object.hasOwn(IMAGE_ACTION_CODES, data.action)
+    ? IMAGE_ACTION_CODES[data.action]!(data.t_id)
+    : null;
 }
 
 /**
- * Create inline keyboard for image actions (upscale, variations)
+ * Create inline keyboard for image actions (upscale, variations, reroll)
  * @param {string} taskId - Task ID
  * @returns {Object} Telegram inline keyboard markup
  */
 export function createImageActionKeyboard(taskId: string): TelegramInlineKeyboard {
+  const indexes = [1, 2, 3, 4];
   return {
     inline_keyboard: [
+      indexes.map(idx => imageActionButton(`U${idx}`, `U${idx}`, taskId)),
       [
-        {
-          text: 'U1',
-          callback_data: JSON.stringify({ action: 'upscale', t_id: taskId, idx: 1 }),
-        },
-        {
-          text: 'U2',
-          callback_data: JSON.stringify({ action: 'upscale', t_id: taskId, idx: 2 }),
-        },
-        {
-          text: 'U3',
-          callback_data: JSON.stringify({ action: 'upscale', t_id: taskId, idx: 3 }),
-        },
-        {
-          text: 'U4',
-          callback_data: JSON.stringify({ action: 'upscale', t_id: taskId, idx: 4 }),
-        },
+        ...indexes.map(idx => imageActionButton(`V${idx}`, `V${idx}`, taskId)),
+        imageActionButton('🔄', 'R', taskId),
       ],
+    ],
+  };
+}
+
+/**
+ * Buttons under an upscaled image: zoom out, pan, strong/subtle variations and vary region
+ */
+export function createUpscaledImageKeyboard(taskId: string): TelegramInlineKeyboard {
+  return {
+    inline_keyboard: [
       [
-        {
-          text: 'V1',
-          callback_data: JSON.stringify({ action: 'variation', t_id: taskId, idx: 1 }),
-        },
-        {
-          text: 'V2',
-          callback_data: JSON.stringify({ action: 'variation', t_id: taskId, idx: 2 }),
-        },
-        {
-          text: 'V3',
-          callback_data: JSON.stringify({ action: 'variation', t_id: taskId, idx: 3 }),
-        },
-        {
-          text: 'V4',
-          callback_data: JSON.stringify({ action: 'variation', t_id: taskId, idx: 4 }),
-        },
+        imageActionButton('🔍 Отдалить 1.5x', 'Z15', taskId),
+        imageActionButton('🔍 Отдалить 2x', 'Z2', taskId),
+      ],
+      [
+        imageActionButton('⬅️', 'PL', taskId),
+        imageActionButton('➡️', 'PR', taskId),
+        imageActionButton('⬆️', 'PU', taskId),
+        imageActionButton('⬇️', 'PD', taskId),
+      ],
+      [
+        imageActionButton('🎨 Вариации (сильные)', 'VH', taskId),
+        imageActionButton('🎨 Вариации (слабые)', 'VL', taskId),
+      ],
+      [imageActionButton('🖌 Изменить область', 'VR', taskId)],
+    ],
+  };
+}
+
+/**
+ * Region choice of vary region
+ */
+export function createMaskRegionKeyboard(taskId: string): TelegramInlineKeyboard {
+  return {
+    inline_keyboard: [
+      [imageActionButton('⬆️ Верх', 'MT', taskId), imageActionButton('⬇️ Низ', 'MB', taskId)],
+      [
+        imageActionButton('⬅️ Левая часть', 'ML', taskId),
+        imageActionButton('➡️ Правая часть', 'MR', taskId),
       ],
+      [imageActionButton('⏺ Центр', 'MC', taskId)],
     ],
   };
 }
@@ -0,0 +1,80 @@
+import type { TelegramLikeBot as TelegramBot } from '../tg-client.js';
+import type { GroupSettings, TelegramMessage } from '@/types/index.js';
+
+export interface BotIdentity {
+  id: number;
+  username?: string;
+}
+
+export interface GroupCommand {
+  name: string;
+  args: string;
+}
+
+let botIdentity: Promise<BotIdentity> | null = null;
+
+/**
+ * The bot's own id and username, needed to recognise mentions and replies.
+ * Fetched once; a failed lookup is retried on the next call.
+ */
+export function getBotIdentity(bot: TelegramBot): Promise<BotIdentity> {
+  botIdentity ??= bot.getMe().catch(error => {
+    botIdentity = null;
+    throw error;
+  });
+  return botIdentity;
+}
+
+/**
+ * Parse a command in a group, where it may be addressed as /command@bot_name.
+ * Commands addressed to other bots and plain text give null.
+ */
+export function parseGroupCommand(text: string, botUsername?: string): GroupCommand | null {
+  const match = text.trim().match(/^\/(\w+)(?:@(\w+))?(?:\s+([\s\S]*))?$/);
+  if (!match) return null;
+  if (match[2] && match[2].toLowerCase() !== botUsername?.toLowerCase()) return null;
+  return { name: match[1]!.toLowerCase(), args: (match[3] ?? '').trim() };
+}
+
+/**
+ * The question a group message puts to the bot: the text after /ask, a message mentioning
+ * the bot (without the mention) or a reply to one of the bot's messages.
+ * Everything else is conversation between members and gives null.
+ */
+export function getGroupQuestion(msg: TelegramMessage, bot: BotIdentity): string | null {
+  const text = msg.text?.trim();
+  if (!text) return null;
+
+  if (text.startsWith('/')) {
+    const command = parseGroupCommand(text, bot.username);
+    return command?.name === 'ask' && command.args ? command.args : null;
+  }
+  if (bot.username) {
+    const mention = new RegExp(`@${bot.username}\\b`, 'gi');
+    if (mention.test(text)) return text.replace(mention, '').trim() || null;
+  }
+  return msg.reply_to_message?.from?.id === bot.id ? text : null;
+}
+
+/**
+ * Conversation used for a member's questions in a group. The epoch is part of the id,
+ * so /groupreset moves the group to fresh threads.
+ */
+export function getGroupThreadId(settings: GroupSettings, userId: number): string {
+  const shared = `group_${settings.chat_id}_${settings.thread_epoch}`;
+  return settings.thread_mode === 'personal' ? `${shared}_${userId}` : shared;
+}
+
+export async function isGroupAdmin(
+  bot: TelegramBot,
+  chatId: number,
+  userId: number,
+): Promise<boolean> {
+  try {
+    const member = await bot.getChatMember(chatId, userId);
+    return member.status === 'creator' || member.status === 'administrator';
+  } catch (error) {
+    console.error('Error checking group admin:', error);
+    return false;
+  }
+}
@@ -0,0 +1,80 @@
+import { prisma } from '@/utils/prisma.js';
+import type { GroupSettings, GroupThreadMode } from '@/types/index.js';
+import { resolveStoreBackend } from './conversation-store.js';
+
+export type GroupSettingsUpdate = Partial<Pick<GroupSettings, 'thread_mode' | 'thread_epoch'>>;
+
+const defaultSettings = (chatId: number): GroupSettings => ({
+  chat_id: chatId,
+  thread_mode: 'shared',
+  thread_epoch: 0,
+  updated_at: new Date(),
+});
+
+/**
+ * Per-group bot configuration. Groups that were never configured get the defaults.
+ */
+export interface GroupStore {
+  getSettings(chatId: number): Promise<GroupSettings>;
+  updateSettings(chatId: number, update: GroupSettingsUpdate): Promise<GroupSettings>;
+}
+
+/**
+ * In-memory store for tests and local development. Settings are lost on restart.
+ */
+export class InMemoryGroupStore implements GroupStore {
+  private settings = new Map<number, GroupSettings>();
+
+  getSettings(chatId: number): Promise<GroupSettings> {
+    return Promise.resolve(this.settings.get(chatId) ?? defaultSettings(chatId));
+  }
+
+  async updateSettings(chatId: number, update: GroupSettingsUpdate): Promise<GroupSettings> {
+    const settings = { ...(await this.getSettings(chatId)), ...update, updated_at: new Date() };
+    this.settings.set(chatId, settings);
+    return settings;
+  }
+}
+
+function toGroupSettings(row: {
+  chat_id: bigint;
+  thread_mode: string;
+  thread_epoch: number;
+  updated_at: Date;
+}): GroupSettings {
+  return { ...row, chat_id: Number(row.chat_id), thread_mode: row.thread_mode as GroupThreadMode };
+}
+
+/**
+ * Postgres-backed store
+ */
+export class PrismaGroupStore implements GroupStore {
+  async getSettings(chatId: number): Promise<GroupSettings> {
+    const row = await prisma.group_settings.findUnique({ where: { chat_id: BigInt(chatId) } });
+    return row ? toGroupSettings(row) : defaultSettings(chatId);
+  }
+
+  async updateSettings(chatId: number, update: GroupSettingsUpdate): Promise<GroupSettings> {
+    const data = { ...update, updated_at: new Date() };
+    const row = await prisma.group_settings.upsert({
+      where: { chat_id: BigInt(chatId) },
+      create: { chat_id: BigInt(chatId), ...data },
+      update: data,
+    });
+    return toGroupSettings(row);
+  }
+}
+
+let groupStore: GroupStore | null = null;
+
+export function getGroupStore(): GroupStore {
+  if (!groupStore) {
+    groupStore =
+      resolveStoreBackend() === 'memory' ? new InMemoryGroupStore() : new PrismaGroupStore();
+  }
+  return groupStore;
+}
+
+export function setGroupStore(store: GroupStore): void {
+  groupStore = store;
+}
@@ -1,6 +1,8 @@
-import type { TelegramLikeBot as TelegramBot } from '../tg-client.js';
+import type { TelegramLikeBot as TelegramBot, TgMessage } from '../tg-client.js';
 import axios from 'axios';
 import { isValidAspectRatio } from './goapi-handler.js';
+import { markdownToTelegramHtml } from '@/utils/telegram-format.js';
+import type { InlineKeyboardMarkup } from '@telegram.ts/types';
 import type {
   ImageGenerationParams,
   ProcessingMode,
@@ -8,8 +10,6 @@ import type {
   SendMessageOptions,
 } from '@/types/index.js';
 
-export const ongoingTasks = new Map<number, boolean>();
-
 export function createMainKeyboard(): TelegramReplyKeyboard {
   return {
     keyboard: [
@@ -21,6 +21,23 @@ export function createMainKeyboard(): TelegramReplyKeyboard {
   };
 }
 
+/**
+ * Actions under an assistant answer. replyKey is the message the answer replies to,
+ * which identifies the answer in the reply store.
+ */
+export function createAnswerKeyboard(replyKey: number): InlineKeyboardMarkup {
+  const button = (text: string, action: string, extra: Record<string, unknown> = {}) => ({
+    text,
+    callback_data: JSON.stringify({ action, m: replyKey, ...extra }),
+  });
+  return {
+    inline_keyboard: [
+      [button('🔄 Заново', 'answer_regen'), button('➡️ Продолжить', 'answer_continue')],
+      [button('👍', 'answer_rate', { v: 1 }), button('👎', 'answer_rate', { v: -1 })],
+    ],
+  };
+}
+
 export function parseImageCommand(text: string): ImageGenerationParams {
   const params: ImageGenerationParams = {
     prompt: text,
@@ -39,7 +56,13 @@ export function parseImageCommand(text: string): ImageGenerationParams {
   const modeMatch = text.match(/--(fast|turbo|relax)/i);
   if (modeMatch?.[1]) {
     params.process_mode = modeMatch[1].toLowerCase() as ProcessingMode;
-    params.prompt = text.replace(/--(fast|turbo|relax)/i, '').trim();
+    params.prompt = params.prompt.replace(/--(fast|turbo|relax)/i, '').trim();
+  }
+
+  const numMatch = text.match(/--n\s+(\d+)/i);
+  if (numMatch?.[1]) {
+    params.num_images = Math.max(parseInt(numMatch[1], 10), 1);
+    params.prompt = params.prompt.replace(/--n\s+\d+/i, '').trim();
   }
 
   params.prompt = params.prompt.replace(/\s+/g, ' ').trim();
@@ -74,6 +97,16 @@ export async function fetchImageBuffer(
   return { buffer: Buffer.from(response.data), contentType, filename };
 }
 
+/**
+ * Telegram photo as a data URL, so the model gets the image without the bot token in a link
+ */
+export async function fetchTelegramImageDataUrl(bot: TelegramBot, fileId: string): Promise<string> {
+  const { buffer, contentType } = await fetchImageBuffer(await bot.getFileLink(fileId));
+  // Telegram serves files as application/octet-stream; photos are always JPEG
+  const mediaType = contentType?.startsWith('image/') ? contentType : 'image/jpeg';
+  return `data:${mediaType};base64,${buffer.toString('base64')}`;
+}
+
 export async function safeEditMessageText(
   bot: TelegramBot,
   chatId: number,
@@ -107,13 +140,23 @@ export const helpMessage = `📖 **Справка по BrainAI Bot**
 
         💬 **Команды текстового режима:**
         • Отправьте любое сообщение для чата с ИИ
-        • Отправляйте голосовые сообщения (автоматическая транскрипция)
+        • Попросите нарисовать картинку, снять видео или показать остаток запросов прямо в чате
+        • Отправляйте голосовые, аудиофайлы и кружки (автоматическая транскрипция)
         • Отправляйте изображения с подписями для анализа
+        • Отправляйте PDF, DOCX, TXT, CSV или Markdown и задавайте вопросы по ним
+        • /search вопрос - ответ с поиском в интернете и ссылками на источники
+        • /new - начать новый диалог
+        • /history - вернуться к одному из прошлых диалогов
+        • /export - выгрузить диалог в Markdown или JSON
+        • /persona - выбрать или создать персону (свои инструкции для ИИ)
+        • /voice - включить голосовые ответы
+        • /transcribe - только расшифровка голосовых (с файлом .srt)
 
         ⚡ **Быстрые команды:**
         /photo - Переключиться в режим изображений
         /text - Переключиться в текстовый режим
         /video - Переключиться в режим видео
+        /model - Выбрать модель для текстового режима
         /imageinfo - Информация о текущем провайдере
         /status - Проверить использование
         /help - Показать эту справку`;
@@ -167,3 +210,312 @@ export async function safeSendMessage(
     throw error;
   }
 }
+
+/**
+ * Extract the Telegram error description from the different error shapes we get
+ */
+function getTelegramErrorText(error: unknown): string {
+  const errorObj = error as {
+    description?: string;
+    message?: string;
+    response?: { body?: { description?: string } };
+  };
+  return errorObj?.response?.body?.description ?? errorObj?.description ?? errorObj?.message ?? '';
+}
+
+/**
+ * Check if Telegram rejected the text because of broken Markdown/HTML entities
+ */
+export function isEntityParseError(error: unknown): boolean {
+  return /can't parse entities|can't find end of the entity/i.test(getTelegramErrorText(error));
+}
+
+/**
+ * Send model output rendered as Telegram HTML. If Telegram still rejects
+ * the entities, the raw text is sent without formatting.
+ */
+export async function sendFormattedMessage(
+  bot: TelegramBot,
+  chatId: number,
+  text: string,
+  options: Omit<SendMessageOptions, 'parse_mode'> = {},
+): Promise<TgMessage> {
+  try {
+    return await bot.sendMessage(chatId, markdownToTelegramHtml(text), {
+      ...options,
+      parse_mode: 'HTML',
+    });
+  } catch (error) {
+    if (!isEntityParseError(error)) throw error;
+    console.warn('Formatted message rejected, sending plain text:', getTelegramErrorText(error));
+    return bot.sendMessage(chatId, text, options);
+  }
+}
+
+export async function editFormattedMessage(
+  bot: TelegramBot,
+  chatId: number,
+  messageId: number,
+  text: string,
+  options: { reply_markup?: InlineKeyboardMarkup } = {},
+): Promise<void> {
+  try {
+    await bot.editMessageText(markdownToTelegramHtml(text), {
+      ...options,
+      chat_id: chatId,
+      message_id: messageId,
+      parse_mode: 'HTML',
+    });
+  } catch (error) {
+    if (!isEntityParseError(error)) throw error;
+    console.warn('Formatted edit rejected, sending plain text:', getTelegramErrorText(error));
+    await bot.editMessageText(text, { ...options, chat_id: chatId, message_id: messageId });
+  }
+}
+
+const MAX_TG_MESSAGE_LENGTH = 4096;
+// Bot API refuses to serve larger files
+export const TELEGRAM_DOWNLOAD_LIMIT = 20 * 1024 * 1024;
+const STREAM_CURSOR = ' ▌';
+
+interface MessageBlock {
+  text: string;
+  isCode: boolean;
+}
+
+/**
+ * Group Markdown into paragraphs and fenced code blocks
+ */
+function splitBlocks(text: string): MessageBlock[] {
+  const blocks: MessageBlock[] = [];
+  let current: string[] = [];
+  let inCode = false;
+
+  const flush = (isCode: boolean) => {
+    if (current.length) blocks.push({ text: current.join('\n'), isCode });
+    current = [];
+  };
+
+  for (const line of text.split('\n')) {
+    if (inCode) {
+      current.push(line);
+      if (/^```\s*$/.test(line)) {
+        flush(true);
+        inCode = false;
+      }
+    } else if (line.startsWith('```')) {
+      flush(false);
+      current.push(line);
+      inCode = true;
+    } else if (line.trim() === '') {
+      flush(false);
+    } else {
+      current.push(line);
+    }
+  }
+  flush(inCode);
+  return blocks;
+}
+
+/**
+ * Greedily join pieces with the separator while they fit into maxLength
+ */
+function packPieces(pieces: string[], separator: string, maxLength: number): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (current && current.length + separator.length + piece.length <= maxLength) {
+      current += separator + piece;
+    } else {
+      if (current) parts.push(current);
+      current = piece;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+/**
+ * Split plain text on line, then word boundaries; cut hard only as a last resort
+ */
+function splitText(text: string, maxLength: number): string[] {
+  if (text.length <= maxLength) return [text];
+  const lines = text.split('\n');
+  if (lines.length > 1) {
+    return packPieces(
+      lines.flatMap(line => splitText(line, maxLength)),
+      '\n',
+      maxLength,
+    );
+  }
+  const words = text.split(' ');
+  if (words.length > 1) {
+    return packPieces(
+      words.flatMap(word => splitText(word, maxLength)),
+      ' ',
+      maxLength,
+    );
+  }
+  const parts: string[] = [];
+  for (let i = 0; i < text.length; i += maxLength) {
+    parts.push(text.slice(i, i + maxLength));
+  }
+  return parts;
+}
+
+/**
+ * Split an oversized code block, closing the fence in every part and reopening it in the next
+ */
+function splitCodeBlock(block: string, maxLength: number): string[] {
+  const lines = block.split('\n');
+  const header = lines[0]!;
+  const closed = lines.length > 1 && /^```\s*$/.test(lines[lines.length - 1]!);
+  const body = lines.slice(1, closed ? -1 : undefined).join('\n');
+  const footer = '\n```';
+  return splitText(body, maxLength - header.length - 1 - footer.length).map(
+    piece => `${header}\n${piece}${footer}`,
+  );
+}
+
+/**
+ * Split Markdown into parts of at most maxLength characters, breaking on paragraph and
+ * code-block boundaries so every part renders on its own without dangling formatting
+ */
+function splitMarkdown(text: string, maxLength: number): string[] {
+  if (text.length <= maxLength) return [text];
+  const pieces = splitBlocks(text).flatMap(block => {
+    if (block.text.length <= maxLength) return [block.text];
+    return block.isCode ? splitCodeBlock(block.text, maxLength) : splitText(block.text, maxLength);
+  });
+  return packPieces(pieces, '\n\n', maxLength);
+}
+
+/**
+ * Split Markdown into parts whose rendered HTML fits maxLength. Tags and escaped entities
+ * make the HTML longer than the Markdown, so a part that renders too long is split again
+ * with the budget shrunk by its overflow.
+ */
+function splitRendered(text: string, budget: number, maxLength: number): string[] {
+  return splitMarkdown(text, budget).flatMap(part => {
+    const rendered = markdownToTelegramHtml(part).length;
+    if (rendered <= maxLength) return [part];
+    const shrunk = Math.floor((part.length * maxLength) / rendered);
+    return splitRendered(part, Math.max(1, Math.min(shrunk, part.length - 1)), maxLength);
+  });
+}
+
+/**
+ * Split Markdown into parts that each fit into one Telegram message once rendered as HTML
+ */
+export function splitMessage(text: string, maxLength = MAX_TG_MESSAGE_LENGTH): string[] {
+  return splitRendered(text, maxLength, maxLength);
+}
+
+/**
+ * Send model output, split into several messages when it is too long.
+ * reply_markup goes on the last part only. Resolves with the sent parts in order.
+ */
+export async function sendLongMessage(
+  bot: TelegramBot,
+  chatId: number,
+  text: string,
+  options: Omit<SendMessageOptions, 'parse_mode'> = {},
+): Promise<TgMessage[]> {
+  const partOptions = { ...options, reply_markup: undefined };
+  const parts = splitMessage(text);
+  const sent: TgMessage[] = [];
+  for (let i = 0; i < parts.length; i++) {
+    sent.push(
+      await sendFormattedMessage(
+        bot,
+        chatId,
+        parts[i]!,
+        i === parts.length - 1 ? options : partOptions,
+      ),
+    );
+  }
+  return sent;
+}
+
+export interface MessageStreamer {
+  /** Schedule an edit with the latest accumulated text */
+  update(text: string): void;
+  /**
+   * Flush pending edits and render the final text with formatting.
+   * The inline keyboard goes on the last message. Resolves with the ids of the messages
+   * holding the reply, the one with the keyboard last.
+   */
+  finish(text: string, options?: { reply_markup?: InlineKeyboardMarkup }): Promise<number[]>;
+}
+
+/**
+ * Progressively edit a placeholder message while a reply is being generated.
+ * Edits are throttled to one per interval to stay within Telegram rate limits;
+ * intermediate edits are sent as plain text so half-written Markdown never fails.
+ */
+export function createMessageStreamer(
+  bot: TelegramBot,
+  chatId: number,
+  messageId: number,
+  intervalMs = parseInt(process.env.STREAM_EDIT_INTERVAL_MS ?? '1500', 10),
+): MessageStreamer {
+  let latest = '';
+  let shown = '';
+  let nextEditAt = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let pending: Promise<void> = Promise.resolve();
+
+  const flush = async (): Promise<void> => {
+    const text =
+      latest.length + STREAM_CURSOR.length > MAX_TG_MESSAGE_LENGTH
+        ? `${latest.slice(0, MAX_TG_MESSAGE_LENGTH - 1)}…`
+        : `${latest}${STREAM_CURSOR}`;
+    if (text === shown) return;
+    shown = text;
+    nextEditAt = Date.now() + intervalMs;
+    try {
+      await bot.editMessageText(text, { chat_id: chatId, message_id: messageId });
+    } catch (error) {
+      const retryAfter = (error as { parameters?: { retry_after?: number } })?.parameters
+        ?.retry_after;
+      if (retryAfter) {
+        nextEditAt = Date.now() + retryAfter * 1000;
+        return;
+      }
+      if (/message is not modified/i.test(getTelegramErrorText(error))) return;
+      console.error('Streaming editMessageText failed:', error);
+    }
+  };
+
+  return {
+    update(text: string): void {
+      latest = text;
+      if (timer) return;
+      timer = setTimeout(
+        () => {
+          timer = null;
+          pending = pending.then(flush);
+        },
+        Math.max(0, nextEditAt - Date.now()),
+      );
+    },
+
+    async finish(text: string, options = {}): Promise<number[]> {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      await pending;
+
+      if (splitMessage(text).length > 1) {
+        // Too long for a single edit: replace the placeholder with the reply split into parts
+        await bot.deleteMessage(chatId, messageId).catch(() => undefined);
+        const parts = await sendLongMessage(bot, chatId, text, options);
+        return parts.map(part => part.message_id);
+      }
+
+      await editFormattedMessage(bot, chatId, messageId, text, options);
+      return [messageId];
+    },
+  };
+}
@@ -0,0 +1,87 @@
+import { deflateSync } from 'node:zlib';
+import type { MaskRegion } from '@/types/index.js';
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+/** Share of the image each region covers: left, top, width, height */
+const REGION_BOXES: Record<MaskRegion, [number, number, number, number]> = {
+  top: [0, 0, 1, 0.5],
+  bottom: [0, 0.5, 1, 0.5],
+  left: [0, 0, 0.5, 1],
+  right: [0.5, 0, 0.5, 1],
+  center: [0.25, 0.25, 0.5, 0.5],
+};
+
+/**
+ * Width and height from a PNG or JPEG header; null for other formats
+ */
+export function readImageSize(buffer: Buffer): ImageSize | null {
+  if (buffer.length >= 24 && buffer.readUInt32BE(0) === 0x89504e47) {
+    return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+  }
+  if (buffer.length < 4 || buffer[0] !== 0xff || buffer[1] !== 0xd8) return null;
+
+  let offset = 2;
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) return null;
+    const marker = buffer[offset + 1]!;
+    // SOF markers; C4, C8 and CC share the range but are not frames
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return { height: buffer.readUInt16BE(offset + 5), width: buffer.readUInt16BE(offset + 7) };
+    }
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Grayscale PNG of the image size: white over the region to redraw, black elsewhere
+ */
+export function createRegionMask({ width, height }: ImageSize, region: MaskRegion): Buffer {
+  const [left, top, boxWidth, boxHeight] = REGION_BOXES[region];
+  const x0 = Math.round(left * width);
+  const x1 = Math.round((left + boxWidth) * width);
+  const y0 = Math.round(top * height);
+  const y1 = Math.round((top + boxHeight) * height);
+
+  // Each row starts with filter type 0
+  const stride = width + 1;
+  const pixels = Buffer.alloc(stride * height);
+  for (let y = y0; y < y1; y++) pixels.fill(0xff, y * stride + 1 + x0, y * stride + 1 + x1);
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 0; // grayscale
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(pixels)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
@@ -0,0 +1,357 @@
+import type {
+  ApiResponse,
+  AspectRatio,
+  GoApiImageResponse,
+  ImageProviderName,
+  ImageTransform,
+  MaskRegion,
+  ProcessingMode,
+} from '@/types/index.js';
+import {
+  MIDJOURNEY_ASPECT_RATIOS,
+  generateImage,
+  getTaskStatus as getGoApiTaskStatus,
+  inpaintImage,
+  outpaintImage,
+  panImage,
+  rerollImage,
+  upscaleImage,
+  variateImage,
+} from './goapi-handler.js';
+import {
+  NANO_BANANA_ASPECT_RATIOS,
+  NanoBananaAspectRatio,
+  getFalTaskResult,
+  getFalTaskStatus,
+  isFalConfigured,
+  submitFalImageTask,
+  uploadFileToFal,
+} from './fal-handler.js';
+import { fetchImageBuffer } from './handler-utils.js';
+import { createRegionMask, readImageSize } from './image-mask.js';
+import { goApiWebhookConfig } from './provider-webhooks.js';
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  aspectRatio: AspectRatio;
+  /** Images to edit or use as a reference, as URLs the bot can download */
+  imageUrls?: string[];
+  numImages?: number;
+  /** Midjourney speed; ignored by providers without modes */
+  processMode?: ProcessingMode;
+  /** Called by the provider when the task finishes, see provider-webhooks */
+  webhookUrl?: string;
+}
+
+export type ImageTaskState = 'pending' | 'processing' | 'completed' | 'failed';
+
+export interface ImageTaskStatus {
+  state: ImageTaskState;
+  /** 0-100 when the provider reports it */
+  progress?: number;
+  error?: string;
+}
+
+export interface ImageResult {
+  imageUrls: string[];
+  /** Text the model returned along with the images */
+  description?: string;
+}
+
+export interface ImageProviderCapabilities {
+  /** Accepts source images with the prompt */
+  edit: boolean;
+  /** The result is a 2x2 grid whose parts can be upscaled with the U1-U4 buttons */
+  upscale: boolean;
+  /** Grid parts can be varied (V1-V4) and the grid rerolled */
+  variations: boolean;
+  /** Upscaled images can be zoomed out, panned, varied and partly redrawn */
+  transforms: boolean;
+  aspectRatios: AspectRatio[];
+  maxImages: number;
+}
+
+/**
+ * Image generation backend selected per user in photo mode
+ */
+export interface ImageProvider {
+  readonly name: ImageProviderName;
+  /** Shown in the provider menu and in status messages */
+  readonly label: string;
+  /** Bullet points of the provider menu */
+  readonly features: string[];
+  readonly capabilities: ImageProviderCapabilities;
+  isConfigured(): boolean;
+  /** Starts a task and gives its id; throws when the provider rejects it */
+  submit(request: ImageGenerationRequest): Promise<string>;
+  status(taskId: string): Promise<ImageTaskStatus>;
+  /** Images of a completed task */
+  result(taskId: string): Promise<ImageResult>;
+  /** Starts upscaling part `index` (1-4) of a grid; set when capabilities.upscale is */
+  upscale?(taskId: string, index: number, webhookUrl?: string): Promise<string>;
+  /** Starts a new grid from part `index` of a grid; set when capabilities.variations is */
+  variation?(taskId: string, index: number, webhookUrl?: string): Promise<string>;
+  /** Starts a new grid from the same prompt; set when capabilities.variations is */
+  reroll?(taskId: string, webhookUrl?: string): Promise<string>;
+  /** Starts a new grid from an upscaled image; set when capabilities.transforms is */
+  transform?(taskId: string, transform: ImageTransform, webhookUrl?: string): Promise<string>;
+}
+
+function goApiTaskId(response: ApiResponse<GoApiImageResponse>, missing: string): string {
+  const taskId = response.data?.data?.task_id;
+  if (!response.success || !taskId) throw new Error(response.error?.message ?? missing);
+  return taskId;
+}
+
+const goApiWebhook = (webhookUrl?: string) =>
+  webhookUrl ? goApiWebhookConfig(webhookUrl) : undefined;
+
+/**
+ * Midjourney through GoAPI. The result is a grid of four images.
+ */
+export class GoApiImageProvider implements ImageProvider {
+  readonly name = 'goapi' as const;
+  readonly label = 'Midjourney';
+  readonly features = [
+    'Высокое качество художественных изображений',
+    'Стилизованная генерация',
+    'Поддержка upscale и вариаций',
+    'Редактирование изображений',
+  ];
+  readonly capabilities: ImageProviderCapabilities = {
+    edit: true,
+    upscale: true,
+    variations: true,
+    transforms: true,
+    aspectRatios: MIDJOURNEY_ASPECT_RATIOS,
+    maxImages: 1,
+  };
+
+  isConfigured(): boolean {
+    return !!process.env.GOAPI_API_KEY;
+  }
+
+  async submit(request: ImageGenerationRequest): Promise<string> {
+    const response = await generateImage(request.prompt, {
+      aspect_ratio: request.aspectRatio,
+      ...(request.processMode && { process_mode: request.processMode }),
+      // Midjourney takes a single image as a reference for the prompt
+      ...(request.imageUrls?.[0] && { image_url: request.imageUrls[0] }),
+      ...(request.webhookUrl && { webhook_config: goApiWebhookConfig(request.webhookUrl) }),
+    });
+    return goApiTaskId(response, 'Нет task ID в ответе');
+  }
+
+  async status(taskId: string): Promise<ImageTaskStatus> {
+    const response = await getGoApiTaskStatus(taskId);
+    const task = response.data?.data;
+    if (!response.success || !task) {
+      throw new Error(response.error?.message ?? 'Не удалось получить статус задачи');
+    }
+    const state: ImageTaskState =
+      task.status === 'staged' ? 'pending' : (task.status as ImageTaskState);
+    return {
+      state,
+      progress: task.output?.progress ?? 0,
+      ...(state === 'failed' && {
+        error: task.error?.message || task.error?.raw_message || 'Задача не выполнена',
+      }),
+    };
+  }
+
+  async result(taskId: string): Promise<ImageResult> {
+    const response = await getGoApiTaskStatus(taskId);
+    const imageUrl = response.data?.data?.output?.image_url;
+    if (!response.success || !imageUrl) {
+      throw new Error(response.error?.message ?? 'URL-адрес изображения не получен');
+    }
+    return { imageUrls: [imageUrl] };
+  }
+
+  async upscale(taskId: string, index: number, webhookUrl?: string): Promise<string> {
+    const response = await upscaleImage(taskId, index, goApiWebhook(webhookUrl));
+    return goApiTaskId(response, 'Нет task ID улучшения изображения');
+  }
+
+  async variation(taskId: string, index: number, webhookUrl?: string): Promise<string> {
+    const response = await variateImage(taskId, index, goApiWebhook(webhookUrl));
+    return goApiTaskId(response, 'Нет task ID вариации изображения');
+  }
+
+  async reroll(taskId: string, webhookUrl?: string): Promise<string> {
+    const response = await rerollImage(taskId, goApiWebhook(webhookUrl));
+    return goApiTaskId(response, 'Нет task ID перегенерации изображения');
+  }
+
+  async transform(taskId: string, transform: ImageTransform, webhookUrl?: string): Promise<string> {
+    const webhook = goApiWebhook(webhookUrl);
+    switch (transform.type) {
+      case 'zoom_out':
+        return goApiTaskId(
+          await outpaintImage(taskId, transform.ratio, webhook),
+          'Нет task ID отдаления изображения',
+        );
+      case 'pan':
+        return goApiTaskId(
+          await panImage(taskId, transform.direction, webhook),
+          'Нет task ID расширения изображения',
+        );
+      case 'vary': {
+        const index = transform.strength === 'strong' ? 'high_variation' : 'low_variation';
+        return goApiTaskId(
+          await variateImage(taskId, index, webhook),
+          'Нет task ID вариации изображения',
+        );
+      }
+      case 'vary_region': {
+        const mask = await this.regionMask(taskId, transform.region);
+        return goApiTaskId(
+          await inpaintImage(taskId, transform.prompt, mask, webhook),
+          'Нет task ID изменения области',
+        );
+      }
+    }
+  }
+
+  /**
+   * The mask must match the upscaled image, so its size is read from the image itself
+   */
+  private async regionMask(taskId: string, region: MaskRegion): Promise<Buffer> {
+    const [imageUrl] = (await this.result(taskId)).imageUrls;
+    const { buffer } = await fetchImageBuffer(imageUrl!);
+    const size = readImageSize(buffer);
+    if (!size) throw new Error('Не удалось определить размер изображения');
+    return createRegionMask(size, region);
+  }
+}
+
+// Editing runs on another endpoint, so the mode is kept in the task id
+const FAL_EDIT_PREFIX = 'edit:';
+
+/**
+ * Nano Banana through the fal.ai queue
+ */
+export class FalImageProvider implements ImageProvider {
+  readonly name = 'fal-ai' as const;
+  readonly label = 'Nano Banana';
+  readonly features = [
+    'Фотореалистичные изображения',
+    'Быстрая генерация',
+    'Хорошее понимание текста',
+  ];
+  readonly capabilities: ImageProviderCapabilities = {
+    edit: true,
+    upscale: false,
+    variations: false,
+    transforms: false,
+    aspectRatios: NANO_BANANA_ASPECT_RATIOS,
+    maxImages: 4,
+  };
+
+  isConfigured(): boolean {
+    return isFalConfigured();
+  }
+
+  /**
+   * fal.ai can't download Telegram files, so sources are copied to its storage first
+   */
+  private async uploadImages(imageUrls: string[]): Promise<string[]> {
+    return Promise.all(
+      imageUrls.map(async (url, i) => {
+        const { buffer } = await fetchImageBuffer(url);
+        const upload = await uploadFileToFal(buffer, `input_${Date.now()}_${i}.jpg`);
+        if (!upload.success || !upload.data?.url) {
+          throw new Error('Ошибка при загрузке изображения для редактирования');
+        }
+        return upload.data.url;
+      }),
+    );
+  }
+
+  async submit(request: ImageGenerationRequest): Promise<string> {
+    const imageUrls = request.imageUrls?.length ? await this.uploadImages(request.imageUrls) : [];
+    const response = await submitFalImageTask(
+      request.prompt,
+      {
+        aspect_ratio: request.aspectRatio as NanoBananaAspectRatio,
+        num_images: request.numImages ?? 1,
+        output_format: 'jpeg',
+      },
+      imageUrls,
+      request.webhookUrl,
+    );
+    const requestId = response.data?.request_id;
+    if (!response.success || !requestId) {
+      throw new Error(response.error?.message ?? 'Не получен ID задачи от сервера');
+    }
+    return imageUrls.length ? `${FAL_EDIT_PREFIX}${requestId}` : requestId;
+  }
+
+  private parseTaskId(taskId: string): [requestId: string, isEdit: boolean] {
+    return taskId.startsWith(FAL_EDIT_PREFIX)
+      ? [taskId.slice(FAL_EDIT_PREFIX.length), true]
+      : [taskId, false];
+  }
+
+  async status(taskId: string): Promise<ImageTaskStatus> {
+    const response = await getFalTaskStatus(...this.parseTaskId(taskId));
+    if (!response.success) {
+      throw new Error(response.error?.message ?? 'Не удалось получить статус задачи');
+    }
+    // The fal queue reports IN_QUEUE, IN_PROGRESS and COMPLETED; failures surface in the result
+    switch (response.data?.status) {
+      case 'COMPLETED':
+        return { state: 'completed' };
+      case 'IN_PROGRESS':
+        return { state: 'processing' };
+      default:
+        return { state: 'pending' };
+    }
+  }
+
+  async result(taskId: string): Promise<ImageResult> {
+    const response = await getFalTaskResult(...this.parseTaskId(taskId));
+    const images = response.data?.data?.images ?? [];
+    if (!response.success || !images.length) {
+      throw new Error(response.error?.message ?? 'Изображения не получены');
+    }
+    return {
+      imageUrls: images.map(image => image.url),
+      ...(response.data?.data?.description && { description: response.data.data.description }),
+    };
+  }
+}
+
+// Menu order; a new provider is an adapter plus an entry here
+const IMAGE_PROVIDER_FACTORIES: Record<ImageProviderName, () => ImageProvider> = {
+  goapi: () => new GoApiImageProvider(),
+  'fal-ai': () => new FalImageProvider(),
+};
+
+const DEFAULT_IMAGE_PROVIDER: ImageProviderName = 'goapi';
+
+const providers = new Map<ImageProviderName, ImageProvider>();
+
+export function isImageProviderName(value: unknown): value is ImageProviderName {
+  return typeof value === 'string' && Object.hasOwn(IMAGE_PROVIDER_FACTORIES, value);
+}
+
+/**
+ * Provider stored for the user; unknown or missing names fall back to Midjourney
+ */
+export function getImageProvider(name?: string | null): ImageProvider {
+  const key = isImageProviderName(name) ? name : DEFAULT_IMAGE_PROVIDER;
+  let provider = providers.get(key);
+  if (!provider) {
+    provider = IMAGE_PROVIDER_FACTORIES[key]();
+    providers.set(key, provider);
+  }
+  return provider;
+}
+
+/**
+ * Providers offered in the photo mode menu
+ */
+export function getImageProviders(): ImageProvider[] {
+  return (Object.keys(IMAGE_PROVIDER_FACTORIES) as ImageProviderName[]).map(getImageProvider);
+}
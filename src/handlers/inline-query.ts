@@ -0,0 +1,96 @@
+import { createHash } from 'node:crypto';
+
+export type InlineResultKind = 'text' | 'image';
+
+export interface InlineRequest {
+  kind: InlineResultKind;
+  /** Query without the image prefix */
+  prompt: string;
+  /** Normalized prompt, shared by everyone asking the same thing */
+  cacheKey: string;
+}
+
+// Queries starting with this ask for a picture instead of a text answer
+const IMAGE_PREFIX = /^(?:🎨|img\s)\s*/i;
+const MIN_QUERY_LENGTH = 3;
+const MAX_CACHE_ENTRIES = 500;
+
+export function getInlineDebounceMs(): number {
+  return parseInt(process.env.INLINE_DEBOUNCE_MS ?? '', 10) || 800;
+}
+
+export function getInlineCacheTtlMs(): number {
+  return parseInt(process.env.INLINE_CACHE_TTL_MS ?? '', 10) || 10 * 60 * 1000;
+}
+
+/**
+ * What an inline query asks for, or null when it is too short to answer yet
+ */
+export function parseInlineQuery(query: string): InlineRequest | null {
+  const trimmed = query.trim();
+  const kind: InlineResultKind = IMAGE_PREFIX.test(trimmed) ? 'image' : 'text';
+  const prompt = trimmed.replace(IMAGE_PREFIX, '').trim();
+  if (prompt.length < MIN_QUERY_LENGTH) return null;
+  return { kind, prompt, cacheKey: `${kind}:${prompt.toLowerCase().replace(/\s+/g, ' ')}` };
+}
+
+/**
+ * Result id that tells chosen_inline_result which quota to charge; fits the 64-byte limit
+ */
+export function getInlineResultId(request: InlineRequest): string {
+  const hash = createHash('sha1').update(request.cacheKey).digest('hex').slice(0, 16);
+  return `${request.kind}:${hash}`;
+}
+
+export function getInlineResultKind(resultId: string): InlineResultKind | null {
+  const kind = resultId.split(':')[0];
+  return kind === 'text' || kind === 'image' ? kind : null;
+}
+
+const latestQueries = new Map<number, string>();
+
+/**
+ * Telegram sends a query for every keystroke. Resolves true once the user has stopped
+ * typing for windowMs, false when a newer query of the same user replaced this one.
+ */
+export function debounceInlineQuery(
+  userId: number,
+  queryId: string,
+  windowMs = getInlineDebounceMs(),
+): Promise<boolean> {
+  latestQueries.set(userId, queryId);
+  return new Promise(resolve => {
+    setTimeout(() => {
+      const isLatest = latestQueries.get(userId) === queryId;
+      if (isLatest) latestQueries.delete(userId);
+      resolve(isLatest);
+    }, windowMs);
+  });
+}
+
+/**
+ * Results per query text. The pending promise is cached too, so identical queries that
+ * arrive while an answer is being generated share it; failures are not cached.
+ */
+export class InlineResultCache<T> {
+  private entries = new Map<string, { value: Promise<T>; expiresAt: number }>();
+
+  constructor(private ttlMs = getInlineCacheTtlMs()) {}
+
+  getOrCreate(key: string, create: () => Promise<T>): Promise<T> {
+    const cached = this.entries.get(key);
+    if (cached && cached.expiresAt > Date.now()) return cached.value;
+
+    const value = create();
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+    value.catch(() => {
+      if (this.entries.get(key)?.value === value) this.entries.delete(key);
+    });
+    // Maps keep insertion order, so the first key is the oldest entry
+    if (this.entries.size > MAX_CACHE_ENTRIES) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+    return value;
+  }
+}
@@ -0,0 +1,263 @@
+import type { TelegramLikeBot as TelegramBot } from '../tg-client.js';
+import type {
+  GenerationJob,
+  GenerationJobKind,
+  GenerationJobResult,
+  GenerationJobStatus,
+  RequestType,
+} from '@/types/index.js';
+import type { ImageTaskStatus } from './image-provider.js';
+import { GenerationJobUpdate, JobStore, NewGenerationJob, getJobStore } from './job-store.js';
+import { decreaseRequests } from './supabase-handler.js';
+import { getJobCallbackUrl } from './provider-webhooks.js';
+
+const POLL_INTERVAL_MS = 5000;
+// With a callback requested, polling only catches callbacks that never arrived
+const FALLBACK_POLL_INTERVAL_MS = 60_000;
+const MAX_WAIT_MS = 10 * 60 * 1000;
+
+/**
+ * Provider calls and chat messages of one job kind. Handlers only get data stored in the job,
+ * so a job can be picked up again by a new process.
+ */
+export interface JobHandler {
+  /** Charged once, after the result is delivered */
+  quota: RequestType;
+  /** How long the task may run, counted from job creation */
+  maxWaitMs?(job: GenerationJob): number;
+  /** Starts the provider task and gives its id; callbackUrl is passed on to the provider */
+  submit(bot: TelegramBot, job: GenerationJob, callbackUrl?: string): Promise<string>;
+  status(taskId: string, job: GenerationJob): Promise<ImageTaskStatus>;
+  result(taskId: string, job: GenerationJob): Promise<GenerationJobResult>;
+  /** Sends the result to the chat */
+  deliver(bot: TelegramBot, job: GenerationJob, result: GenerationJobResult): Promise<void>;
+  /** Tells the user the job failed */
+  fail(bot: TelegramBot, job: GenerationJob, error: string): Promise<void>;
+  /** Called when the task state or progress changes */
+  progress?(bot: TelegramBot, job: GenerationJob, status: ImageTaskStatus): Promise<void>;
+}
+
+export interface JobQueueOptions {
+  /** Delay between status checks */
+  intervalMs?: number;
+  /** Delay between status checks of jobs whose provider calls back */
+  fallbackIntervalMs?: number;
+}
+
+const ACTIVE_STATUSES: GenerationJobStatus[] = ['queued', 'submitted', 'running'];
+
+/**
+ * Runs generation jobs to delivery: submit, poll, store the result, send it once and charge.
+ * Every step is a state transition in the job store, so after a restart resume() continues
+ * each job from its last state and a result is never sent or charged twice.
+ */
+export class JobQueue {
+  private handlers = new Map<GenerationJobKind, JobHandler>();
+  private running = new Set<string>();
+  /** Ends the wait before the next status check of a running job */
+  private wakers = new Map<string, () => void>();
+  /** Running jobs notified while checking the status: their next wait is skipped */
+  private notified = new Set<string>();
+  private intervalMs: number;
+  private fallbackIntervalMs: number;
+
+  constructor(
+    private bot: TelegramBot,
+    private store: JobStore = getJobStore(),
+    {
+      intervalMs = POLL_INTERVAL_MS,
+      fallbackIntervalMs = FALLBACK_POLL_INTERVAL_MS,
+    }: JobQueueOptions = {},
+  ) {
+    this.intervalMs = intervalMs;
+    this.fallbackIntervalMs = fallbackIntervalMs;
+  }
+
+  register(kind: GenerationJobKind, handler: JobHandler): this {
+    this.handlers.set(kind, handler);
+    return this;
+  }
+
+  /**
+   * Store a new job and start it in the background
+   */
+  async enqueue(job: NewGenerationJob): Promise<GenerationJob> {
+    const created = await this.store.createJob(job);
+    this.start(created);
+    return created;
+  }
+
+  /**
+   * Continue the jobs left unfinished by a previous process; gives how many were picked up
+   */
+  async resume(): Promise<number> {
+    const jobs = await this.store.listUnfinishedJobs();
+    jobs.forEach(job => this.start(job));
+    return jobs.length;
+  }
+
+  hasUnfinishedJob(telegramId: number, kind: GenerationJobKind): Promise<boolean> {
+    return this.store.hasUnfinishedJob(telegramId, kind);
+  }
+
+  /**
+   * A provider reported that the task of a job finished: check it now instead of at the next
+   * poll. Gives false when the callback matches no unfinished job.
+   */
+  async notify(jobId: string, taskId: string): Promise<boolean> {
+    const job = await this.store.getJob(jobId);
+    // Task ids can carry a mode prefix (see FalImageProvider). A callback that beats the
+    // task id into the store is left to polling.
+    if (!job?.task_id?.endsWith(taskId) || !ACTIVE_STATUSES.includes(job.status)) return false;
+    const wake = this.wakers.get(jobId);
+    if (wake) {
+      wake();
+    } else if (this.running.has(jobId)) {
+      this.notified.add(jobId);
+    } else {
+      this.start(job);
+    }
+    return true;
+  }
+
+  /**
+   * Run a job from its current state until it is delivered or failed
+   */
+  async run(job: GenerationJob): Promise<void> {
+    // resume() and enqueue() can meet on the same job in one process
+    if (this.running.has(job.id)) return;
+    this.running.add(job.id);
+    try {
+      const handler = this.handlers.get(job.kind);
+      if (!handler) throw new Error(`No handler for ${job.kind} jobs`);
+
+      let current = job;
+      try {
+        if (current.status === 'queued') {
+          const taskId = await handler.submit(this.bot, current, getJobCallbackUrl(current));
+          current = await this.move(current, ['queued'], 'submitted', { task_id: taskId });
+        }
+        if (current.status === 'submitted' || current.status === 'running') {
+          const result = await this.poll(handler, current);
+          current = await this.move(current, ['submitted', 'running'], 'succeeded', { result });
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Неизвестная ошибка';
+        console.error(`Generation job ${job.id} failed:`, error);
+        if (await this.store.transitionJob(job.id, ACTIVE_STATUSES, 'failed', { error: message })) {
+          await handler.fail(this.bot, current, message);
+        }
+        return;
+      }
+
+      if (current.status === 'succeeded') await this.deliver(handler, current);
+    } finally {
+      this.running.delete(job.id);
+      this.notified.delete(job.id);
+    }
+  }
+
+  private start(job: GenerationJob): void {
+    this.run(job).catch(error => console.error(`Generation job ${job.id} crashed:`, error));
+  }
+
+  /**
+   * Apply a transition; when another worker moved the job first, continue from its state
+   */
+  private async move(
+    job: GenerationJob,
+    from: GenerationJobStatus[],
+    to: GenerationJobStatus,
+    update: GenerationJobUpdate = {},
+  ): Promise<GenerationJob> {
+    if (await this.store.transitionJob(job.id, from, to, update)) {
+      return { ...job, ...update, status: to };
+    }
+    return (await this.store.getJob(job.id)) ?? job;
+  }
+
+  private async poll(handler: JobHandler, job: GenerationJob): Promise<GenerationJobResult> {
+    const taskId = job.task_id;
+    if (!taskId) throw new Error('Нет task ID');
+    const deadline = job.created_at.getTime() + (handler.maxWaitMs?.(job) ?? MAX_WAIT_MS);
+    let current = job;
+    let lastStatus = '';
+
+    for (;;) {
+      const intervalMs = getJobCallbackUrl(current) ? this.fallbackIntervalMs : this.intervalMs;
+      let status: ImageTaskStatus;
+      try {
+        status = await handler.status(taskId, current);
+      } catch (error) {
+        // A failed status check says nothing about the task, so keep asking until the deadline
+        if (Date.now() >= deadline) throw error;
+        console.error(`Polling generation job ${current.id} failed:`, error);
+        await this.wait(current.id, Math.min(intervalMs, deadline - Date.now()));
+        continue;
+      }
+      if (status.state === 'processing' && current.status === 'submitted') {
+        current = await this.move(current, ['submitted'], 'running');
+      }
+      const statusKey = `${status.state}:${status.progress ?? 0}`;
+      if (statusKey !== lastStatus) {
+        lastStatus = statusKey;
+        await handler.progress?.(this.bot, current, status);
+      }
+
+      if (status.state === 'completed') return handler.result(taskId, current);
+      if (status.state === 'failed') throw new Error(status.error ?? 'Задача не выполнена');
+      if (Date.now() >= deadline) throw new Error('Время генерации истекло');
+      await this.wait(current.id, Math.min(intervalMs, deadline - Date.now()));
+    }
+  }
+
+  private wait(jobId: string, ms: number): Promise<void> {
+    if (this.notified.delete(jobId)) return Promise.resolve();
+    return new Promise(resolve => {
+      const wake = () => {
+        clearTimeout(timer);
+        this.wakers.delete(jobId);
+        resolve();
+      };
+      const timer = setTimeout(wake, ms);
+      this.wakers.set(jobId, wake);
+    });
+  }
+
+  private async deliver(handler: JobHandler, job: GenerationJob): Promise<void> {
+    // Claimed before sending: a process that dies mid-send leaves the job delivered and
+    // uncharged rather than sending the result again after the restart
+    if (!job.result || !(await this.store.transitionJob(job.id, ['succeeded'], 'delivered'))) {
+      return;
+    }
+    try {
+      await handler.deliver(this.bot, job, job.result);
+    } catch (error) {
+      console.error(`Delivering generation job ${job.id} failed:`, error);
+      // Not charged; the status message would otherwise keep showing progress
+      const message = error instanceof Error ? error.message : 'Неизвестная ошибка';
+      await this.store.transitionJob(job.id, ['delivered'], 'failed', { error: message });
+      try {
+        await handler.fail(this.bot, job, message);
+      } catch (failError) {
+        console.error(`Reporting generation job ${job.id} failure failed:`, failError);
+      }
+      return;
+    }
+    await decreaseRequests(job.telegram_id, handler.quota, 1);
+  }
+}
+
+let jobQueue: JobQueue | null = null;
+
+/**
+ * The queue started with the bot
+ */
+export function getJobQueue(): JobQueue {
+  if (!jobQueue) throw new Error('Generation job queue is not started');
+  return jobQueue;
+}
+
+export function setJobQueue(queue: JobQueue): void {
+  jobQueue = queue;
+}
@@ -0,0 +1,201 @@
+import { randomUUID } from 'node:crypto';
+import type { generation_jobs } from '@prisma/client';
+import { prisma } from '@/utils/prisma.js';
+import type {
+  GenerationJob,
+  GenerationJobKind,
+  GenerationJobResult,
+  GenerationJobStatus,
+} from '@/types/index.js';
+import { resolveStoreBackend } from './conversation-store.js';
+
+export type NewGenerationJob = Pick<
+  GenerationJob,
+  'kind' | 'provider' | 'telegram_id' | 'chat_id' | 'params'
+> & { status_message_id?: number | null };
+
+export type GenerationJobUpdate = Partial<
+  Pick<GenerationJob, 'task_id' | 'status_message_id' | 'result' | 'error'>
+>;
+
+/** Jobs the worker still has to finish */
+export const UNFINISHED_JOB_STATUSES: GenerationJobStatus[] = [
+  'queued',
+  'submitted',
+  'running',
+  'succeeded',
+];
+
+/**
+ * Generation jobs and their states
+ */
+export interface JobStore {
+  createJob(job: NewGenerationJob): Promise<GenerationJob>;
+  getJob(id: string): Promise<GenerationJob | null>;
+  /** The job that ran a provider task, e.g. the parent of a variation */
+  findJobByTaskId(taskId: string): Promise<GenerationJob | null>;
+  /**
+   * Move a job to `to` only while it is in one of the `from` states. Gives false when the job
+   * was moved elsewhere first, so every transition happens once.
+   */
+  transitionJob(
+    id: string,
+    from: GenerationJobStatus[],
+    to: GenerationJobStatus,
+    update?: GenerationJobUpdate,
+  ): Promise<boolean>;
+  /** Jobs that are not yet delivered or failed, oldest first */
+  listUnfinishedJobs(): Promise<GenerationJob[]>;
+  hasUnfinishedJob(telegramId: number, kind: GenerationJobKind): Promise<boolean>;
+}
+
+/**
+ * In-memory store for tests and local development. Jobs are lost on restart.
+ */
+export class InMemoryJobStore implements JobStore {
+  private jobs = new Map<string, GenerationJob>();
+
+  createJob(job: NewGenerationJob): Promise<GenerationJob> {
+    const now = new Date();
+    const created: GenerationJob = {
+      ...job,
+      id: randomUUID(),
+      status: 'queued',
+      task_id: null,
+      status_message_id: job.status_message_id ?? null,
+      result: null,
+      error: null,
+      created_at: now,
+      updated_at: now,
+    };
+    this.jobs.set(created.id, created);
+    return Promise.resolve({ ...created });
+  }
+
+  getJob(id: string): Promise<GenerationJob | null> {
+    const job = this.jobs.get(id);
+    return Promise.resolve(job ? { ...job } : null);
+  }
+
+  findJobByTaskId(taskId: string): Promise<GenerationJob | null> {
+    const job = [...this.jobs.values()].find(job => job.task_id === taskId);
+    return Promise.resolve(job ? { ...job } : null);
+  }
+
+  transitionJob(
+    id: string,
+    from: GenerationJobStatus[],
+    to: GenerationJobStatus,
+    update: GenerationJobUpdate = {},
+  ): Promise<boolean> {
+    const job = this.jobs.get(id);
+    if (!job || !from.includes(job.status)) return Promise.resolve(false);
+    this.jobs.set(id, { ...job, ...update, status: to, updated_at: new Date() });
+    return Promise.resolve(true);
+  }
+
+  listUnfinishedJobs(): Promise<GenerationJob[]> {
+    const jobs = [...this.jobs.values()]
+      .filter(job => UNFINISHED_JOB_STATUSES.includes(job.status))
+      .sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+    return Promise.resolve(jobs.map(job => ({ ...job })));
+  }
+
+  hasUnfinishedJob(telegramId: number, kind: GenerationJobKind): Promise<boolean> {
+    return Promise.resolve(
+      [...this.jobs.values()].some(
+        job =>
+          job.telegram_id === telegramId &&
+          job.kind === kind &&
+          UNFINISHED_JOB_STATUSES.includes(job.status),
+      ),
+    );
+  }
+}
+
+function toGenerationJob(row: generation_jobs): GenerationJob {
+  return {
+    ...row,
+    kind: row.kind as GenerationJobKind,
+    status: row.status as GenerationJobStatus,
+    telegram_id: Number(row.telegram_id),
+    chat_id: Number(row.chat_id),
+    params: row.params as object,
+    result: row.result as unknown as GenerationJobResult | null,
+  };
+}
+
+/**
+ * Postgres-backed store
+ */
+export class PrismaJobStore implements JobStore {
+  async createJob(job: NewGenerationJob): Promise<GenerationJob> {
+    const row = await prisma.generation_jobs.create({
+      data: {
+        ...job,
+        telegram_id: BigInt(job.telegram_id),
+        chat_id: BigInt(job.chat_id),
+      },
+    });
+    return toGenerationJob(row);
+  }
+
+  async getJob(id: string): Promise<GenerationJob | null> {
+    const row = await prisma.generation_jobs.findUnique({ where: { id } });
+    return row ? toGenerationJob(row) : null;
+  }
+
+  async findJobByTaskId(taskId: string): Promise<GenerationJob | null> {
+    const row = await prisma.generation_jobs.findFirst({
+      where: { task_id: taskId },
+      orderBy: { created_at: 'desc' },
+    });
+    return row ? toGenerationJob(row) : null;
+  }
+
+  async transitionJob(
+    id: string,
+    from: GenerationJobStatus[],
+    to: GenerationJobStatus,
+    { result, ...update }: GenerationJobUpdate = {},
+  ): Promise<boolean> {
+    const { count } = await prisma.generation_jobs.updateMany({
+      where: { id, status: { in: from } },
+      data: {
+        ...update,
+        ...(result && { result: result as unknown as object }),
+        status: to,
+        updated_at: new Date(),
+      },
+    });
+    return count > 0;
+  }
+
+  async listUnfinishedJobs(): Promise<GenerationJob[]> {
+    const rows = await prisma.generation_jobs.findMany({
+      where: { status: { in: UNFINISHED_JOB_STATUSES } },
+      orderBy: { created_at: 'asc' },
+    });
+    return rows.map(toGenerationJob);
+  }
+
+  async hasUnfinishedJob(telegramId: number, kind: GenerationJobKind): Promise<boolean> {
+    const count = await prisma.generation_jobs.count({
+      where: { telegram_id: BigInt(telegramId), kind, status: { in: UNFINISHED_JOB_STATUSES } },
+    });
+    return count > 0;
+  }
+}
+
+let jobStore: JobStore | null = null;
+
+export function getJobStore(): JobStore {
+  if (!jobStore) {
+    jobStore = resolveStoreBackend() === 'memory' ? new InMemoryJobStore() : new PrismaJobStore();
+  }
+  return jobStore;
+}
+
+export function setJobStore(store: JobStore): void {
+  jobStore = store;
+}
@@ -0,0 +1,473 @@
+import OpenAI from 'openai';
+import { generateText, jsonSchema, streamText, tool, type ModelMessage, type ToolSet } from 'ai';
+import { createOpenRouter } from '@openrouter/ai-sdk-provider';
+import type { ConversationMessage, LlmProviderName, TextModelOption } from '@/types/index.js';
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ConversationMessage[];
+  maxTokens: number;
+}
+
+/**
+ * Function the model may call, described with a JSON schema of its arguments
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * Conversation messages plus the turns of a tool loop, which are never stored
+ */
+export type ToolLoopMessage =
+  | ConversationMessage
+  | { role: 'assistant'; content: string; toolCalls: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; content: string };
+
+export interface ToolCompletionRequest extends Omit<ChatCompletionRequest, 'messages'> {
+  messages: ToolLoopMessage[];
+  /** Empty to make the model answer without calling anything */
+  tools: ToolDefinition[];
+}
+
+export interface ToolCompletion {
+  content: string;
+  toolCalls: ToolCall[];
+}
+
+/** Text deltas as they arrive; tool calls once their arguments are complete */
+export type ToolStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool-call'; call: ToolCall };
+
+/**
+ * Chat completion backend used by text mode
+ */
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  isConfigured(): boolean;
+  complete(request: ChatCompletionRequest): Promise<string>;
+  /** Yields text deltas as they arrive */
+  stream(request: ChatCompletionRequest): AsyncIterable<string>;
+  /** One step of a tool loop: either an answer or the tools the model wants to call */
+  completeWithTools(request: ToolCompletionRequest): Promise<ToolCompletion>;
+  /** Same as completeWithTools, streamed */
+  streamWithTools(request: ToolCompletionRequest): AsyncIterable<ToolStreamEvent>;
+}
+
+function parseToolArguments(json: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(json || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function toOpenAIMessage(message: ConversationMessage): OpenAI.Chat.ChatCompletionMessageParam {
+  if (message.role !== 'user' || !message.images?.length) {
+    return { role: message.role, content: message.content };
+  }
+  return {
+    role: 'user',
+    content: [
+      { type: 'text', text: message.content },
+      ...message.images.map(url => ({ type: 'image_url' as const, image_url: { url } })),
+    ],
+  };
+}
+
+function toOpenAITools(tools: ToolDefinition[]) {
+  return tools.length
+    ? {
+        tools: tools.map(({ name, description, parameters }) => ({
+          type: 'function' as const,
+          function: { name, description, parameters },
+        })),
+      }
+    : {};
+}
+
+function toOpenAIToolLoopMessage(message: ToolLoopMessage): OpenAI.Chat.ChatCompletionMessageParam {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+  if ('toolCalls' in message) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function' as const,
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+      })),
+    };
+  }
+  return toOpenAIMessage(message);
+}
+
+function toModelMessage(message: ConversationMessage): ModelMessage {
+  if (message.role !== 'user' || !message.images?.length) {
+    return { role: message.role, content: message.content };
+  }
+  return {
+    role: 'user',
+    content: [
+      { type: 'text', text: message.content },
+      ...message.images.map(url => ({ type: 'image' as const, image: new URL(url) })),
+    ],
+  };
+}
+
+function toToolLoopModelMessage(message: ToolLoopMessage): ModelMessage {
+  if (message.role === 'tool') {
+    return {
+      role: 'tool',
+      content: [
+        {
+          type: 'tool-result',
+          toolCallId: message.toolCallId,
+          toolName: message.name,
+          output: { type: 'text', value: message.content },
+        },
+      ],
+    };
+  }
+  if ('toolCalls' in message) {
+    return {
+      role: 'assistant',
+      content: [
+        ...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+        ...message.toolCalls.map(call => ({
+          type: 'tool-call' as const,
+          toolCallId: call.id,
+          toolName: call.name,
+          input: call.arguments,
+        })),
+      ],
+    };
+  }
+  return toModelMessage(message);
+}
+
+/**
+ * OpenAI itself or any server speaking the OpenAI chat completions API
+ * (llama.cpp, Ollama, vLLM, LM Studio)
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+  private client: OpenAI | null = null;
+
+  constructor(
+    readonly name: LlmProviderName,
+    private options: { apiKey?: string; baseURL?: string },
+  ) {}
+
+  isConfigured(): boolean {
+    return this.name === 'local' ? !!this.options.baseURL : !!this.options.apiKey;
+  }
+
+  private getClient(): OpenAI {
+    this.client ??= new OpenAI({
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: this.options.apiKey ?? 'local',
+      baseURL: this.options.baseURL,
+    });
+    return this.client;
+  }
+
+  // OpenAI reasoning models only accept max_completion_tokens, most local servers only max_tokens
+  private tokenLimit(maxTokens: number) {
+    return this.name === 'local' ? { max_tokens: maxTokens } : { max_completion_tokens: maxTokens };
+  }
+
+  async complete(request: ChatCompletionRequest): Promise<string> {
+    const response = await this.getClient().chat.completions.create({
+      model: request.model,
+      messages: request.messages.map(toOpenAIMessage),
+      ...this.tokenLimit(request.maxTokens),
+    });
+    return response.choices[0]?.message?.content ?? '';
+  }
+
+  async *stream(request: ChatCompletionRequest): AsyncIterable<string> {
+    const stream = await this.getClient().chat.completions.create({
+      model: request.model,
+      messages: request.messages.map(toOpenAIMessage),
+      ...this.tokenLimit(request.maxTokens),
+      stream: true,
+    });
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+  }
+
+  async completeWithTools(request: ToolCompletionRequest): Promise<ToolCompletion> {
+    const response = await this.getClient().chat.completions.create({
+      model: request.model,
+      messages: request.messages.map(toOpenAIToolLoopMessage),
+      ...this.tokenLimit(request.maxTokens),
+      ...toOpenAITools(request.tools),
+    });
+    const message = response.choices[0]?.message;
+    return {
+      content: message?.content ?? '',
+      toolCalls: (message?.tool_calls ?? []).flatMap(call =>
+        call.type === 'function'
+          ? [
+              {
+                id: call.id,
+                name: call.function.name,
+                arguments: parseToolArguments(call.function.arguments),
+              },
+            ]
+          : [],
+      ),
+    };
+  }
+
+  async *streamWithTools(request: ToolCompletionRequest): AsyncIterable<ToolStreamEvent> {
+    const stream = await this.getClient().chat.completions.create({
+      model: request.model,
+      messages: request.messages.map(toOpenAIToolLoopMessage),
+      ...this.tokenLimit(request.maxTokens),
+      ...toOpenAITools(request.tools),
+      stream: true,
+    });
+    // Tool calls arrive in pieces: the id and name first, then the arguments JSON in chunks
+    const calls: { id: string; name: string; arguments: string }[] = [];
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta;
+      if (delta?.content) yield { type: 'text', text: delta.content };
+      for (const part of delta?.tool_calls ?? []) {
+        const call = (calls[part.index] ??= { id: '', name: '', arguments: '' });
+        if (part.id) call.id = part.id;
+        call.name += part.function?.name ?? '';
+        call.arguments += part.function?.arguments ?? '';
+      }
+    }
+    for (const call of calls.filter(Boolean)) {
+      yield {
+        type: 'tool-call',
+        call: { id: call.id, name: call.name, arguments: parseToolArguments(call.arguments) },
+      };
+    }
+  }
+}
+
+// Tools without execute: the SDK stops at the calls and the loop runs them
+function toToolSet(tools: ToolDefinition[]): { tools?: ToolSet } {
+  if (!tools.length) return {};
+  return {
+    tools: Object.fromEntries(
+      tools.map(({ name, description, parameters }) => [
+        name,
+        tool({ description, inputSchema: jsonSchema(parameters) }),
+      ]),
+    ),
+  };
+}
+
+/**
+ * OpenRouter through the AI SDK provider
+ */
+export class OpenRouterProvider implements LlmProvider {
+  readonly name = 'openrouter' as const;
+  private openrouter: ReturnType<typeof createOpenRouter> | null = null;
+
+  constructor(private apiKey?: string) {}
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  private getModel(model: string) {
+    this.openrouter ??= createOpenRouter({ apiKey: this.apiKey });
+    return this.openrouter.chat(model);
+  }
+
+  async complete(request: ChatCompletionRequest): Promise<string> {
+    const { text } = await generateText({
+      model: this.getModel(request.model),
+      messages: request.messages.map(toModelMessage),
+      maxOutputTokens: request.maxTokens,
+    });
+    return text;
+  }
+
+  async *stream(request: ChatCompletionRequest): AsyncIterable<string> {
+    const result = streamText({
+      model: this.getModel(request.model),
+      messages: request.messages.map(toModelMessage),
+      maxOutputTokens: request.maxTokens,
+    });
+    yield* result.textStream;
+  }
+
+  async completeWithTools(request: ToolCompletionRequest): Promise<ToolCompletion> {
+    const { text, toolCalls } = await generateText({
+      model: this.getModel(request.model),
+      messages: request.messages.map(toToolLoopModelMessage),
+      maxOutputTokens: request.maxTokens,
+      ...toToolSet(request.tools),
+    });
+    return {
+      content: text,
+      toolCalls: toolCalls.map(call => ({
+        id: call.toolCallId,
+        name: call.toolName,
+        arguments: (call.input ?? {}) as Record<string, unknown>,
+      })),
+    };
+  }
+
+  async *streamWithTools(request: ToolCompletionRequest): AsyncIterable<ToolStreamEvent> {
+    const result = streamText({
+      model: this.getModel(request.model),
+      messages: request.messages.map(toToolLoopModelMessage),
+      maxOutputTokens: request.maxTokens,
+      ...toToolSet(request.tools),
+    });
+    for await (const part of result.fullStream) {
+      if (part.type === 'text-delta') {
+        yield { type: 'text', text: part.text };
+      } else if (part.type === 'tool-call') {
+        yield {
+          type: 'tool-call',
+          call: {
+            id: part.toolCallId,
+            name: part.toolName,
+            arguments: (part.input ?? {}) as Record<string, unknown>,
+          },
+        };
+      } else if (part.type === 'error') {
+        throw part.error;
+      }
+    }
+  }
+}
+
+const providers = new Map<LlmProviderName, LlmProvider>();
+
+export function getLlmProvider(name: LlmProviderName): LlmProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    if (name === 'openrouter') {
+      provider = new OpenRouterProvider(process.env.OPENROUTER_API_KEY);
+    } else if (name === 'local') {
+      provider = new OpenAICompatibleProvider('local', {
+        apiKey: process.env.LOCAL_LLM_API_KEY,
+        baseURL: process.env.LOCAL_LLM_BASE_URL,
+      });
+    } else {
+      provider = new OpenAICompatibleProvider('openai', {
+        apiKey: process.env.OPENAI_API_KEY,
+        baseURL: process.env.OPENAI_BASE_URL,
+      });
+    }
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+export function setLlmProvider(provider: LlmProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Models offered by /model. Entries whose provider is not configured are hidden.
+ */
+export const TEXT_MODELS: TextModelOption[] = [
+  { id: 'gpt-5-mini', label: 'GPT-5 mini', provider: 'openai', model: 'gpt-5-mini', vision: true },
+  { id: 'gpt-5', label: 'GPT-5', provider: 'openai', model: 'gpt-5', vision: true },
+  {
+    id: 'claude-sonnet',
+    label: 'Claude Sonnet 4.5',
+    provider: 'openrouter',
+    model: 'anthropic/claude-sonnet-4.5',
+    vision: true,
+  },
+  {
+    id: 'gemini-flash',
+    label: 'Gemini 2.5 Flash',
+    provider: 'openrouter',
+    model: 'google/gemini-2.5-flash',
+    vision: true,
+  },
+  {
+    id: 'deepseek',
+    label: 'DeepSeek V3',
+    provider: 'openrouter',
+    model: 'deepseek/deepseek-chat',
+    vision: false,
+  },
+];
+
+function isLlmProviderName(value: string | undefined): value is LlmProviderName {
+  return value === 'openai' || value === 'openrouter' || value === 'local';
+}
+
+function getLocalModel(): TextModelOption | null {
+  const model = process.env.LOCAL_LLM_MODEL;
+  if (!model) return null;
+  return {
+    id: 'local',
+    label: `Локальная (${model})`,
+    provider: 'local',
+    model,
+    vision: process.env.LOCAL_LLM_VISION === 'true',
+  };
+}
+
+/**
+ * Default model from LLM_PROVIDER / LLM_MODEL, used when the user has not picked one
+ */
+export function getDefaultTextModel(): TextModelOption {
+  const provider = isLlmProviderName(process.env.LLM_PROVIDER)
+    ? process.env.LLM_PROVIDER
+    : 'openai';
+  const local = getLocalModel();
+  if (provider === 'local' && local && !process.env.LLM_MODEL) return local;
+
+  const model =
+    process.env.LLM_MODEL || (provider === 'openrouter' ? 'openai/gpt-5-mini' : 'gpt-5-mini');
+  const known = TEXT_MODELS.find(m => m.provider === provider && m.model === model);
+  return (
+    known ?? {
+      id: 'default',
+      label: model,
+      provider,
+      model,
+      vision: process.env.LLM_VISION === 'true',
+    }
+  );
+}
+
+export function getAvailableTextModels(): TextModelOption[] {
+  const local = getLocalModel();
+  const models = (local ? [...TEXT_MODELS, local] : TEXT_MODELS).filter(m =>
+    getLlmProvider(m.provider).isConfigured(),
+  );
+  const fallback = getDefaultTextModel();
+  return models.some(m => m.id === fallback.id) ? models : [fallback, ...models];
+}
+
+/**
+ * Map a stored per-user selection to a model, falling back to the default
+ * when the selection is empty or no longer available
+ */
+export function resolveTextModel(modelId?: string | null): TextModelOption {
+  if (modelId) {
+    const selected = getAvailableTextModels().find(m => m.id === modelId);
+    if (selected) return selected;
+  }
+  return getDefaultTextModel();
+}
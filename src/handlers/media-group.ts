@@ -0,0 +1,46 @@
+import type { TgMessage } from '../tg-client.js';
+
+interface PendingGroup {
+  messages: TgMessage[];
+  timer: ReturnType<typeof setTimeout>;
+  resolve: (messages: TgMessage[]) => void;
+}
+
+const pendingGroups = new Map<string, PendingGroup>();
+
+export function getMediaGroupWindowMs(): number {
+  return parseInt(process.env.MEDIA_GROUP_WINDOW_MS ?? '', 10) || 1000;
+}
+
+/**
+ * Telegram delivers every photo of an album as a separate message with the same
+ * media_group_id. The first message of a group resolves with all messages that arrive
+ * until the group has been quiet for windowMs; the others resolve with null.
+ * Messages outside a group resolve immediately.
+ */
+export function collectMediaGroup(
+  msg: TgMessage,
+  windowMs = getMediaGroupWindowMs(),
+): Promise<TgMessage[] | null> {
+  if (!msg.media_group_id) return Promise.resolve([msg]);
+
+  const key = `${msg.chat.id}:${msg.media_group_id}`;
+  const pending = pendingGroups.get(key);
+  const flush = () => {
+    const group = pendingGroups.get(key);
+    if (!group) return;
+    pendingGroups.delete(key);
+    group.resolve(group.messages.sort((a, b) => a.message_id - b.message_id));
+  };
+
+  if (pending) {
+    pending.messages.push(msg);
+    clearTimeout(pending.timer);
+    pending.timer = setTimeout(flush, windowMs);
+    return Promise.resolve(null);
+  }
+
+  return new Promise(resolve => {
+    pendingGroups.set(key, { messages: [msg], timer: setTimeout(flush, windowMs), resolve });
+  });
+}
@@ -1,8 +1,17 @@
 import type { TelegramLikeBot as TelegramBot, TgMessage } from '../tg-client.js';
-import type { RequestType, TelegramMessage, TelegramPreCheckoutQuery } from '@/types/index.js';
-
-import { analyzeImage } from './openai-handler.js';
+import type {
+  DbUser,
+  RequestType,
+  TelegramMessage,
+  TelegramPreCheckoutQuery,
+} from '@/types/index.js';
+
+import { addImageAnalysisTurn, analyzeImages } from './openai-handler.js';
+import { collectMediaGroup } from './media-group.js';
+import { asImageEditRequest } from './reply-context.js';
+import { getReplyStore } from './reply-store.js';
 import { decreaseRequests, canConsumeRequest, getUserStats } from './supabase-handler.js';
+import { parseSearchCommand } from './web-search.js';
 import {
   handlePreCheckout,
   handleSuccessfulPayment,
@@ -16,10 +25,18 @@ import {
   safeEditMessageText,
   isBotBlockedError,
   safeSendMessage,
+  sendLongMessage,
+  fetchTelegramImageDataUrl,
 } from './handler-utils.js';
-import { handlePhotoGeneration } from '../flows/image.js';
+import { handlePhotoGeneration, handleRegionPromptInput } from '../flows/image.js';
 import { handleVideoGeneration } from '../flows/video.js';
 import { handleTextGeneration } from '../flows/text.js';
+import {
+  handleNewConversation,
+  showConversationHistory,
+  showExportOptions,
+} from '../flows/conversations.js';
+import { handlePersonaInput, showPersonaMenu } from '../flows/personas.js';
 
 import {
   generateVideoWithFal,
@@ -33,8 +50,15 @@ import { startReply } from '../replies/start.js';
 import { textReply } from '../replies/text.js';
 import { photoReply } from '../replies/photo.js';
 import { videoReply } from '../replies/video.js';
+import { modelReply } from '../replies/model.js';
+import { voiceModeReply } from '../replies/voice-mode.js';
+import { transcriptionModeReply } from '../replies/transcription-mode.js';
 
 export { handleVoiceMessage } from '../flows/voice.js';
+export { handleDocumentMessage } from '../flows/documents.js';
+export { handleEditedMessage } from '../flows/edits.js';
+export { handleGroupMessage } from '../flows/groups.js';
+export { handleInlineQuery, handleChosenInlineResult } from '../flows/inline.js';
 export { handleCallbackQuery } from '../flows/callbacks.js';
 export { handlePreCheckout, handleSuccessfulPayment } from './payment-handler.js';
 
@@ -58,6 +82,9 @@ export async function handleTextMessage(bot: TelegramBot, msg: TgMessage): Promi
       return;
     }
 
+    if (await handlePersonaInput(bot, msg, user)) return;
+    if (await handleRegionPromptInput(bot, msg)) return;
+
     switch (text) {
       case '/start':
         await startReply(userId, chatId, text, bot);
@@ -78,6 +105,27 @@ export async function handleTextMessage(bot: TelegramBot, msg: TgMessage): Promi
       case '/pay':
         await showPricing(bot, chatId);
         return;
+      case '/new':
+        await handleNewConversation(bot, chatId, user, userId);
+        return;
+      case '/history':
+        await showConversationHistory(bot, chatId, user, userId);
+        return;
+      case '/export':
+        await showExportOptions(bot, chatId);
+        return;
+      case '/persona':
+        await showPersonaMenu(bot, chatId, user);
+        return;
+      case '/voice':
+        await voiceModeReply(user, userId, chatId, text, bot);
+        return;
+      case '/transcribe':
+        await transcriptionModeReply(user, userId, chatId, text, bot);
+        return;
+      case '/model':
+        await modelReply(user, userId, chatId, text, bot);
+        return;
       case '/status':
         await checkPaymentStatus(bot, chatId, userId);
         return;
@@ -86,7 +134,8 @@ export async function handleTextMessage(bot: TelegramBot, msg: TgMessage): Promi
         return;
     }
 
-    const currentMode = user.current_mode ?? 'text';
+    // /search asks a text question with web search whatever mode is selected
+    const currentMode = parseSearchCommand(text) !== null ? 'text' : (user.current_mode ?? 'text');
 
     await logInteraction({
       userId,
@@ -95,8 +144,24 @@ export async function handleTextMessage(bot: TelegramBot, msg: TgMessage): Promi
       type: 'text',
       content: text,
     });
+    if (currentMode === 'photo' || currentMode === 'video') {
+      // Results arrive later, so an edit of the prompt offers a rerun instead of a rewrite
+      await getReplyStore().saveReply({
+        chat_id: chatId,
+        user_message_id: msg.message_id,
+        bot_message_id: null,
+        part_message_ids: [],
+        mode: currentMode,
+        prompt: text,
+        thread_id: null,
+        conversation_message_id: null,
+        telegram_id: userId,
+        model: null,
+        response: null,
+      });
+    }
     if (currentMode === 'photo') {
-      await handlePhotoGeneration(bot, msg as any);
+      await handlePhotoGeneration(bot, asImageEditRequest(msg as any));
     } else if (currentMode === 'video') {
       await handleVideoGeneration(bot, msg as any);
     } else {
@@ -115,12 +180,16 @@ export async function handleTextMessage(bot: TelegramBot, msg: TgMessage): Promi
   }
 }
 
-async function handleImageAnalysis(bot: TelegramBot, msg: TgMessage): Promise<void> {
+async function handleImageAnalysis(bot: TelegramBot, msg: TgMessage, user: DbUser): Promise<void> {
   const chatId = msg.chat.id;
   const userId = msg.from?.id;
 
   if (!userId || !msg.photo) return;
 
+  // An album is answered once, by the handler of its first photo
+  const group = await collectMediaGroup(msg);
+  if (!group) return;
+
   const allowed = await canConsumeRequest(userId, 'text_req_left');
   if (!allowed) {
     const stats = await getUserStats(userId);
@@ -133,20 +202,24 @@ async function handleImageAnalysis(bot: TelegramBot, msg: TgMessage): Promise<vo
 
   await bot.sendChatAction(chatId, 'typing');
 
-  const photoId = msg.photo[msg.photo.length - 1]!.file_id;
-  const fileLink = await bot.getFileLink(photoId);
+  const fileIds = group
+    .filter(m => m.photo?.length)
+    .map(m => m.photo![m.photo!.length - 1]!.file_id);
+  const images = await Promise.all(fileIds.map(fileId => fetchTelegramImageDataUrl(bot, fileId)));
+  const caption = group.map(m => m.caption).find(Boolean);
 
-  // Set MIME type for image processing
-  const analysis = await analyzeImage(
-    fileLink,
-    msg.caption ?? 'caption: \n\nanswer in russian language if other not specified!',
+  const analysis = await analyzeImages(
+    images,
+    caption ?? 'caption: \n\nanswer in russian language if other not specified!',
   );
 
-  await bot.sendMessage(chatId, analysis, {
-    parse_mode: 'Markdown',
+  await sendLongMessage(bot, chatId, analysis, {
     reply_markup: createMainKeyboard(),
   });
 
+  if (user.openai_thread_id) {
+    await addImageAnalysisTurn(user.openai_thread_id, fileIds, caption, analysis, userId);
+  }
   await decreaseRequests(userId, 'text_req_left');
 }
 
@@ -173,7 +246,7 @@ export async function handlePhotoMessage(bot: TelegramBot, msg: TgMessage): Prom
 
     switch (currentMode) {
       case 'text':
-        await handleImageAnalysis(bot, msg);
+        await handleImageAnalysis(bot, msg, user);
         break;
       case 'photo':
         await handlePhotoGeneration(bot, msg as any);
@@ -1,37 +1,104 @@
 import OpenAI from 'openai';
 import axios from 'axios';
-import type { TranscriptionResponse } from '@/types/index.js';
+import type {
+  ConversationMessage,
+  StoredConversationMessage,
+  TextModelOption,
+  TranscriptionResponse,
+} from '@/types/index.js';
+import { getConversationStore } from './conversation-store.js';
+import {
+  buildContextWindow,
+  expireImages,
+  getContextWindowOptions,
+  getImageContextTurns,
+  isSummaryEnabled,
+} from './context-manager.js';
+import {
+  getDefaultTextModel,
+  getLlmProvider,
+  resolveTextModel,
+  type ChatCompletionRequest,
+  type LlmProvider,
+  type ToolCall,
+  type ToolDefinition,
+  type ToolLoopMessage,
+} from './llm-provider.js';
+import { markdownToPlainText } from '@/utils/telegram-format.js';
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
 });
 
-// Store conversation history in memory (in production, use a database)
-const conversationHistory = new Map<
-  string,
-  Array<{ role: 'system' | 'user' | 'assistant'; content: string }>
->();
+const conversationStore = getConversationStore();
 
-export async function transcribeAudio(fileUrl: string): Promise<TranscriptionResponse> {
-  const response = await axios.get(fileUrl, { responseType: 'arraybuffer' });
-  const audioBuffer = Buffer.from(response.data as ArrayBuffer);
+// Fold dropped turns into the summary in batches rather than on every message
+const SUMMARY_MIN_MESSAGES = 4;
+
+// Long replies are split into several messages, so premium users can get longer answers
+const DEFAULT_MAX_COMPLETION_TOKENS = 900;
+const PREMIUM_MAX_COMPLETION_TOKENS = 4000;
+
+export function getMaxCompletionTokens(isPremium: boolean): number {
+  const value = isPremium ? process.env.PREMIUM_TEXT_MAX_TOKENS : process.env.TEXT_MAX_TOKENS;
+  const fallback = isPremium ? PREMIUM_MAX_COMPLETION_TOKENS : DEFAULT_MAX_COMPLETION_TOKENS;
+  return parseInt(value ?? '', 10) || fallback;
+}
 
-  // Create a File-like object for OpenAI
-  const audioFile = new File([audioBuffer], 'audio.ogg', { type: 'audio/ogg' });
+const SYSTEM_PROMPT =
+  'You are a helpful AI assistant. Respond in Russian unless the user specifically asks for another language. Be conversational and helpful.';
 
+/**
+ * Transcribe a Telegram file. The Bot API serves at most 20 MB, which is under the
+ * 25 MB Whisper upload limit, so the file always goes up in one piece.
+ */
+export async function transcribeAudio(
+  fileUrl: string,
+  filename = 'audio.ogg',
+): Promise<TranscriptionResponse> {
+  const response = await axios.get(fileUrl, { responseType: 'arraybuffer' });
   const transcription = await openai.audio.transcriptions.create({
-    file: audioFile,
+    file: new File([Buffer.from(response.data as ArrayBuffer)], filename),
     model: 'whisper-1',
+    response_format: 'verbose_json',
+    timestamp_granularities: ['segment'],
   });
 
   return {
-    text: transcription.text,
+    text: transcription.text.trim(),
+    language: transcription.language,
+    duration: transcription.duration,
+    segments: (transcription.segments ?? []).map(({ start, end, text }) => ({ start, end, text })),
   };
 }
 
-export async function analyzeImage(imageUrl: string, caption?: string): Promise<string> {
+// OpenAI speech endpoint rejects longer input
+const TTS_MAX_INPUT_LENGTH = 4096;
+
+/**
+ * Synthesize speech as OGG/Opus, the format Telegram expects for voice messages
+ */
+export async function synthesizeSpeech(text: string): Promise<Buffer> {
+  const input = markdownToPlainText(text).slice(0, TTS_MAX_INPUT_LENGTH);
+  const response = await openai.audio.speech.create({
+    model: process.env.TTS_MODEL ?? 'gpt-4o-mini-tts',
+    voice: process.env.TTS_VOICE ?? 'alloy',
+    input,
+    response_format: 'opus',
+  });
+  return Buffer.from(await response.arrayBuffer());
+}
+
+export function getVisionModel(): string {
+  return process.env.VISION_MODEL || 'gpt-4o-mini';
+}
+
+/**
+ * Answer a question (the caption) about one or more images in a single request
+ */
+export async function analyzeImages(imageUrls: string[], caption?: string): Promise<string> {
   const response = await openai.chat.completions.create({
-    model: 'gpt-4-vision-preview',
+    model: getVisionModel(),
     messages: [
       {
         role: 'system',
@@ -41,87 +108,432 @@ export async function analyzeImage(imageUrl: string, caption?: string): Promise<
       {
         role: 'user',
         content: [
-          { type: 'text', text: caption ?? 'Describe this image.' },
           {
-            type: 'image_url',
-            image_url: { url: imageUrl },
+            type: 'text',
+            text:
+              caption ?? (imageUrls.length > 1 ? 'Describe these images.' : 'Describe this image.'),
           },
+          ...imageUrls.map(url => ({ type: 'image_url' as const, image_url: { url } })),
         ],
       },
     ],
-    max_tokens: 900,
+    max_completion_tokens: 900,
   });
 
   return response.choices[0]?.message?.content ?? 'Описание отсутствует.';
 }
 
-export function createThread(): Promise<{ id: string }> {
+export interface AssistantRequestOptions {
+  /** Per-user model selection from /model */
+  modelId?: string | null;
+  /** Prompt of the selected persona; replaces the one stored with the thread */
+  systemPrompt?: string | null;
+  /** Completion token limit, see getMaxCompletionTokens */
+  maxTokens?: number;
+  /** Reference material for this turn only, e.g. passages of uploaded documents */
+  context?: string | null;
+  /** Turn a stored image reference into a URL or data URL; without it images are skipped */
+  resolveImage?: (reference: string) => Promise<string>;
+  /** Tools the model may call while a streamed answer is generated */
+  tools?: AssistantTool[];
+  /** Told about every tool call before it runs, e.g. to show progress */
+  onToolCall?: (call: ToolCall) => void;
+}
+
+export async function createThread(
+  telegramId?: number,
+  systemPrompt?: string | null,
+): Promise<{ id: string }> {
   // Generate a simple thread ID for conversation tracking
   const threadId = `thread_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
   // Initialize conversation with system message
-  conversationHistory.set(threadId, [
-    {
-      role: 'system',
-      content:
-        'You are a helpful AI assistant. Respond in Russian unless the user specifically asks for another language. Be conversational and helpful. Keep each answer under 3500 characters.',
-    },
-  ]);
+  await conversationStore.createThread(threadId, systemPrompt || SYSTEM_PROMPT, telegramId);
 
-  return Promise.resolve({ id: threadId });
+  return { id: threadId };
 }
 
-export function createMessage(threadId: string, content: string): Promise<{ id: string }> {
-  // Add user message to conversation history
-  const conversation = conversationHistory.get(threadId) ?? [];
-  conversation.push({
-    role: 'user',
-    content,
-  });
+const THREAD_TITLE_MAX_LENGTH = 40;
 
-  if (conversation.length > 10) {
-    const systemMessage = conversation[0]!;
-    const recentMessages = conversation.slice(-9);
-    conversationHistory.set(threadId, [systemMessage, ...recentMessages]);
-  } else {
-    conversationHistory.set(threadId, conversation);
+/**
+ * Thread title for /history: the first line of the first message, cut at a word boundary
+ */
+export function generateThreadTitle(content: string): string {
+  const firstLine = content.trim().split('\n')[0]!.replace(/\s+/g, ' ');
+  if (firstLine.length <= THREAD_TITLE_MAX_LENGTH) return firstLine;
+  const cut = firstLine.slice(0, THREAD_TITLE_MAX_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > THREAD_TITLE_MAX_LENGTH / 2 ? cut.slice(0, lastSpace) : cut}…`;
+}
+
+/**
+ * Threads created before persistence existed only lived in memory; recreate them on demand
+ */
+export async function ensureThread(threadId: string, telegramId?: number) {
+  const thread = await conversationStore.getThread(threadId);
+  if (!thread) {
+    await conversationStore.createThread(threadId, SYSTEM_PROMPT, telegramId);
   }
+  return thread;
+}
 
-  const messageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  return Promise.resolve({ id: messageId });
+/**
+ * Record an image analysis in the thread as a multimodal turn, so follow-up questions
+ * can look at the images again while they are within IMAGE_CONTEXT_TURNS
+ */
+export async function addImageAnalysisTurn(
+  threadId: string,
+  images: string[],
+  caption: string | undefined,
+  analysis: string,
+  telegramId?: number,
+): Promise<void> {
+  const label = images.length > 1 ? `[📷 Изображений: ${images.length}]` : '[📷 Изображение]';
+  await createMessage(threadId, caption ? `${label} ${caption}` : label, telegramId, images);
+  await conversationStore.addMessage(threadId, { role: 'assistant', content: analysis });
 }
 
-export async function getAssistantResponse(threadId: string): Promise<string> {
-  const conversation = conversationHistory.get(threadId) ?? [];
+export async function createMessage(
+  threadId: string,
+  content: string,
+  telegramId?: number,
+  images?: string[],
+): Promise<{ id: string }> {
+  const thread = await ensureThread(threadId, telegramId);
 
-  if (!conversation) {
+  const message = await conversationStore.addMessage(threadId, { role: 'user', content, images });
+  if (!thread?.title && content.trim()) {
+    await conversationStore.setTitle(threadId, generateThreadTitle(content));
+  }
+  return { id: message.id };
+}
+
+async function summarizeOverflow(
+  threadId: string,
+  previousSummary: string | null,
+  overflow: StoredConversationMessage[],
+): Promise<void> {
+  const transcript = overflow.map(m => `${m.role}: ${m.content}`).join('\n\n');
+  // Summaries always use the configured default model, whatever the user picked
+  const { provider, model } = getDefaultTextModel();
+  const response = await getLlmProvider(provider).complete({
+    model,
+    messages: [
+      {
+        role: 'system',
+        content:
+          'Summarize the conversation so far for your own future reference. Keep facts, names, decisions and user preferences, drop small talk. Write in the language of the conversation, under 200 words.',
+      },
+      {
+        role: 'user',
+        content: previousSummary
+          ? `Previous summary:\n${previousSummary}\n\nNew messages:\n${transcript}`
+          : transcript,
+      },
+    ],
+    maxTokens: 400,
+  });
+
+  const summary = response.trim();
+  if (!summary) return;
+  await conversationStore.updateSummary(
+    threadId,
+    summary,
+    overflow[overflow.length - 1]!.created_at,
+  );
+}
+
+/**
+ * Replace image references with URLs; images that cannot be resolved are left out
+ */
+async function resolveImages(
+  messages: ConversationMessage[],
+  resolveImage: (reference: string) => Promise<string>,
+): Promise<ConversationMessage[]> {
+  return Promise.all(
+    messages.map(async message => {
+      if (!message.images?.length) return message;
+      const urls = await Promise.all(
+        message.images.map(reference =>
+          resolveImage(reference).catch(error => {
+            console.error('Error resolving image for context:', error);
+            return null;
+          }),
+        ),
+      );
+      return { ...message, images: urls.filter((url): url is string => !!url) };
+    }),
+  );
+}
+
+async function loadContextWindow(
+  threadId: string,
+  { systemPrompt, context: turnContext, resolveImage }: AssistantRequestOptions,
+  { vision }: TextModelOption,
+) {
+  const [thread, conversation] = await Promise.all([
+    conversationStore.getThread(threadId),
+    conversationStore.getMessages(threadId),
+  ]);
+
+  if (!thread || !conversation) {
     throw new Error('Thread not found');
   }
 
+  // Turns already folded into the rolling summary are not sent again
+  const summarizedUntil = thread.summarized_until;
+  let history = summarizedUntil
+    ? conversation.filter((m, i) => i === 0 || m.created_at > summarizedUntil)
+    : conversation;
+  // The persona can change mid-thread, so the stored prompt is only a fallback
+  if (systemPrompt && history[0]?.role === 'system') {
+    history = [{ ...history[0], content: systemPrompt }, ...history.slice(1)];
+  }
+  // Text-only models get the stored analysis of an image instead of the image itself
+  const withImages = vision && resolveImage;
+  history = withImages
+    ? expireImages(history, getImageContextTurns())
+    : history.map(({ images: _images, ...message }) => message);
+  const context = buildContextWindow(history, thread.summary, getContextWindowOptions());
+  if (withImages) {
+    context.messages = await resolveImages(context.messages, resolveImage);
+  }
+  // Turn context goes right before the question and is not stored with the thread
+  if (turnContext) {
+    const question = context.messages.pop();
+    context.messages.push(
+      { role: 'system', content: turnContext },
+      ...(question ? [question] : []),
+    );
+  }
+  return { thread, context };
+}
+
+async function saveAssistantMessage(
+  threadId: string,
+  { thread, context }: Awaited<ReturnType<typeof loadContextWindow>>,
+  assistantMessage: string,
+): Promise<void> {
+  // Add assistant response to conversation history
+  await conversationStore.addMessage(threadId, {
+    role: 'assistant',
+    content: assistantMessage,
+  });
+
+  if (isSummaryEnabled() && context.overflow.length >= SUMMARY_MIN_MESSAGES) {
+    summarizeOverflow(threadId, thread.summary, context.overflow).catch(error => {
+      console.error('Error summarizing conversation:', error);
+    });
+  }
+}
+
+/**
+ * Answer the last user turn of the thread and store the answer. Throws when the model
+ * fails or returns nothing, so callers never present or charge for a failure.
+ */
+export async function getAssistantResponse(
+  threadId: string,
+  options: AssistantRequestOptions = {},
+): Promise<string> {
+  const textModel = resolveTextModel(options.modelId);
+  const loaded = await loadContextWindow(threadId, options, textModel);
+  const { provider, model } = textModel;
+
+  const assistantMessage = await getLlmProvider(provider).complete({
+    model,
+    messages: loaded.context.messages,
+    maxTokens: options.maxTokens ?? DEFAULT_MAX_COMPLETION_TOKENS,
+  });
+
+  if (!assistantMessage) {
+    throw new Error('Empty chat completion');
+  }
+
+  await saveAssistantMessage(threadId, loaded, assistantMessage);
+  return assistantMessage;
+}
+
+/**
+ * Tool the model may call while answering. The result is sent back to the model as text.
+ */
+export interface AssistantTool {
+  definition: ToolDefinition;
+  execute(args: Record<string, unknown>): Promise<string>;
+}
+
+// Model calls per answer; the last one gets no tools, so the loop always ends with an answer
+const MAX_TOOL_STEPS = 5;
+
+async function runToolCall(tools: AssistantTool[], call: ToolCall): Promise<string> {
+  const tool = tools.find(t => t.definition.name === call.name);
+  if (!tool) return `Error: unknown tool ${call.name}`;
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-5-mini',
-      messages: conversation,
-      max_completion_tokens: 900,
+    return await tool.execute(call.arguments);
+  } catch (error) {
+    console.error(`Error running tool ${call.name}:`, error);
+    return `Error: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+/**
+ * Run the calls of one step; gives the turns to append to the loop messages
+ */
+async function runToolCalls(
+  tools: AssistantTool[],
+  content: string,
+  calls: ToolCall[],
+  onToolCall?: (call: ToolCall) => void,
+): Promise<ToolLoopMessage[]> {
+  const turns: ToolLoopMessage[] = [{ role: 'assistant', content, toolCalls: calls }];
+  for (const call of calls) {
+    onToolCall?.(call);
+    turns.push({
+      role: 'tool',
+      toolCallId: call.id,
+      name: call.name,
+      content: await runToolCall(tools, call),
     });
+  }
+  return turns;
+}
 
-    const assistantMessage = response.choices[0]?.message?.content ?? '';
+/**
+ * Same as getAssistantResponse, but the model may call tools before answering.
+ * Tool calls and results are kept out of the thread; only the final answer is stored.
+ * Throws when no answer comes back, like getAssistantResponse.
+ */
+export async function getAssistantResponseWithTools(
+  threadId: string,
+  tools: AssistantTool[],
+  options: AssistantRequestOptions = {},
+): Promise<string> {
+  const textModel = resolveTextModel(options.modelId);
+  const loaded = await loadContextWindow(threadId, options, textModel);
+  const { provider, model } = textModel;
+  const messages: ToolLoopMessage[] = [...loaded.context.messages];
 
-    if (!assistantMessage) {
-      return 'Извините, не удалось получить ответ. Попробуйте еще раз.';
+  let assistantMessage = '';
+  for (let step = 1; step <= MAX_TOOL_STEPS; step++) {
+    const completion = await getLlmProvider(provider).completeWithTools({
+      model,
+      messages,
+      maxTokens: options.maxTokens ?? DEFAULT_MAX_COMPLETION_TOKENS,
+      tools: step < MAX_TOOL_STEPS ? tools.map(t => t.definition) : [],
+    });
+    if (!completion.toolCalls.length) {
+      assistantMessage = completion.content;
+      break;
     }
 
-    // Add assistant response to conversation history
-    conversation.push({
-      role: 'assistant',
-      content: assistantMessage,
+    messages.push(
+      ...(await runToolCalls(tools, completion.content, completion.toolCalls, options.onToolCall)),
+    );
+  }
+
+  if (!assistantMessage) {
+    throw new Error('Empty answer after the tool loop');
+  }
+
+  await saveAssistantMessage(threadId, loaded, assistantMessage);
+  return assistantMessage;
+}
+
+// Inline answers are inserted into the user's own message, so they are kept short
+const INLINE_MAX_COMPLETION_TOKENS = 350;
+
+/**
+ * Standalone short answer for inline mode. Uses the default model and stores nothing,
+ * so the result can be shared between users asking the same thing.
+ */
+export async function getInlineAnswer(question: string): Promise<string> {
+  const { provider, model } = getDefaultTextModel();
+  return getLlmProvider(provider).complete({
+    model,
+    messages: [
+      {
+        role: 'system',
+        content: `${SYSTEM_PROMPT} Answer in a few sentences: the answer is pasted into a chat message.`,
+      },
+      { role: 'user', content: question },
+    ],
+    maxTokens: INLINE_MAX_COMPLETION_TOKENS,
+  });
+}
+
+/**
+ * Streamed tool loop. Text of every step is shown as it arrives and kept in the answer,
+ * so a remark made before a tool call stays above the rest of the reply.
+ */
+async function* streamToolLoop(
+  provider: LlmProvider,
+  request: ChatCompletionRequest,
+  { tools = [], onToolCall }: AssistantRequestOptions,
+): AsyncIterable<string> {
+  const messages: ToolLoopMessage[] = [...request.messages];
+  let separator = '';
+  for (let step = 1; step <= MAX_TOOL_STEPS; step++) {
+    const stream = provider.streamWithTools({
+      ...request,
+      messages,
+      tools: step < MAX_TOOL_STEPS ? tools.map(t => t.definition) : [],
     });
+    let content = '';
+    const calls: ToolCall[] = [];
+    for await (const event of stream) {
+      if (event.type === 'tool-call') {
+        calls.push(event.call);
+        continue;
+      }
+      yield content ? event.text : `${separator}${event.text}`;
+      content += event.text;
+    }
+    if (!calls.length) return;
+    if (content) separator = '\n\n';
+    messages.push(...(await runToolCalls(tools, content, calls, onToolCall)));
+  }
+}
 
-    conversationHistory.set(threadId, conversation);
+/**
+ * Same as getAssistantResponse, but streams the completion.
+ * onUpdate receives the accumulated text after every received chunk.
+ * With options.tools the model may call them between parts of the answer.
+ * Throws like getAssistantResponse when nothing was received.
+ */
+export async function streamAssistantResponse(
+  threadId: string,
+  onUpdate: (text: string) => void,
+  options: AssistantRequestOptions = {},
+): Promise<string> {
+  const textModel = resolveTextModel(options.modelId);
+  const loaded = await loadContextWindow(threadId, options, textModel);
+  const { provider, model } = textModel;
+  let assistantMessage = '';
 
-    return assistantMessage;
+  try {
+    const request = {
+      model,
+      messages: loaded.context.messages,
+      maxTokens: options.maxTokens ?? DEFAULT_MAX_COMPLETION_TOKENS,
+    };
+    const llm = getLlmProvider(provider);
+    const stream = options.tools?.length
+      ? streamToolLoop(llm, request, options)
+      : llm.stream(request);
+
+    for await (const delta of stream) {
+      assistantMessage += delta;
+      onUpdate(assistantMessage);
+    }
   } catch (error) {
-    console.error('Error getting chat completion:', error);
-    return 'Извините, произошла ошибка при обработке вашего запроса. Попробуйте позже.';
+    // Keep whatever was already shown to the user instead of replacing it with an error
+    if (!assistantMessage) throw error;
+    console.error('Error streaming chat completion:', error);
   }
+
+  if (!assistantMessage) {
+    throw new Error('Empty chat completion');
+  }
+
+  await saveAssistantMessage(threadId, loaded, assistantMessage);
+  return assistantMessage;
 }
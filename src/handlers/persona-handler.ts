@@ -0,0 +1,82 @@
+import type { DbUser, Persona } from '@/types/index.js';
+import { updateUser } from './supabase-handler.js';
+
+export const MAX_PERSONAS = 10;
+export const MAX_PERSONA_NAME_LENGTH = 32;
+export const MAX_PERSONA_PROMPT_LENGTH = 2000;
+
+function isPersona(value: unknown): value is Persona {
+  const persona = value as Persona;
+  return (
+    typeof persona?.id === 'string' &&
+    typeof persona.name === 'string' &&
+    typeof persona.prompt === 'string'
+  );
+}
+
+/**
+ * Personas saved on the user record; malformed entries are skipped
+ */
+export function getPersonas(user: DbUser): Persona[] {
+  return Array.isArray(user.personas) ? (user.personas as unknown[]).filter(isPersona) : [];
+}
+
+export function getActivePersona(user: DbUser): Persona | null {
+  if (!user.active_persona_id) return null;
+  return getPersonas(user).find(p => p.id === user.active_persona_id) ?? null;
+}
+
+/**
+ * Parse "Name\nInstructions" sent by the user when creating a persona
+ */
+export function parsePersonaInput(text: string): { name: string; prompt: string } | null {
+  const [firstLine, ...rest] = text.trim().split('\n');
+  const name = firstLine?.trim() ?? '';
+  const prompt = rest.join('\n').trim();
+  if (!name || !prompt) return null;
+  if (name.length > MAX_PERSONA_NAME_LENGTH || prompt.length > MAX_PERSONA_PROMPT_LENGTH) {
+    return null;
+  }
+  return { name, prompt };
+}
+
+export async function createPersona(
+  user: DbUser,
+  telegramId: number,
+  input: { name: string; prompt: string },
+): Promise<Persona | null> {
+  const personas = getPersonas(user);
+  if (personas.length >= MAX_PERSONAS) return null;
+
+  const persona: Persona = { id: Math.random().toString(36).slice(2, 10), ...input };
+  // A freshly created persona is selected right away
+  const updated = await updateUser(telegramId, {
+    personas: [...personas, persona],
+    active_persona_id: persona.id,
+  });
+  return updated ? persona : null;
+}
+
+export async function selectPersona(
+  user: DbUser,
+  telegramId: number,
+  personaId: string | null,
+): Promise<boolean> {
+  if (personaId && !getPersonas(user).some(p => p.id === personaId)) return false;
+  const updated = await updateUser(telegramId, { active_persona_id: personaId });
+  return updated !== null;
+}
+
+export async function deletePersona(
+  user: DbUser,
+  telegramId: number,
+  personaId: string,
+): Promise<boolean> {
+  const personas = getPersonas(user);
+  if (!personas.some(p => p.id === personaId)) return false;
+  const updated = await updateUser(telegramId, {
+    personas: personas.filter(p => p.id !== personaId),
+    ...(user.active_persona_id === personaId && { active_persona_id: null }),
+  });
+  return updated !== null;
+}
@@ -0,0 +1,127 @@
+import {
+  createHash,
+  createPublicKey,
+  timingSafeEqual,
+  verify,
+  type JsonWebKey,
+  type KeyObject,
+} from 'node:crypto';
+import axios from 'axios';
+import type { GenerationJob, GoApiWebhookConfig } from '@/types/index.js';
+
+/** Providers that call back when a task finishes */
+export type CallbackProvider = 'goapi' | 'fal-ai';
+
+export const CALLBACK_PROVIDERS: CallbackProvider[] = ['goapi', 'fal-ai'];
+
+type CallbackHeaders = Record<string, string | string[] | undefined>;
+
+let callbackBaseUrl: string | null = null;
+
+/**
+ * Public URL of the webhook server. Callbacks are requested only while it is set, so in
+ * polling mode jobs are simply polled.
+ */
+export function setCallbackBaseUrl(url: string | null): void {
+  callbackBaseUrl = url ? url.replace(/\/$/, '') : null;
+}
+
+export function isCallbackProvider(value: string): value is CallbackProvider {
+  return (CALLBACK_PROVIDERS as string[]).includes(value);
+}
+
+/**
+ * URL the provider calls when the task of a job finishes; undefined when callbacks are off.
+ * GoAPI callbacks also need GOAPI_WEBHOOK_SECRET, the only way to tell them from forged ones.
+ */
+export function getJobCallbackUrl(job: Pick<GenerationJob, 'id' | 'provider'>): string | undefined {
+  if (!callbackBaseUrl || !isCallbackProvider(job.provider)) return undefined;
+  if (job.provider === 'goapi' && !process.env.GOAPI_WEBHOOK_SECRET) return undefined;
+  return `${callbackBaseUrl}/callbacks/${job.provider}/${job.id}`;
+}
+
+export function goApiWebhookConfig(endpoint: string): GoApiWebhookConfig {
+  return { endpoint, secret: process.env.GOAPI_WEBHOOK_SECRET ?? '' };
+}
+
+function getHeader(headers: CallbackHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * GoAPI sends back the secret given with the task
+ */
+export function verifyGoApiCallback(headers: CallbackHeaders): boolean {
+  const secret = process.env.GOAPI_WEBHOOK_SECRET;
+  const received = getHeader(headers, 'x-webhook-secret');
+  if (!secret || !received) return false;
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(received);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+const FAL_JWKS_URL = 'https://rest.alpha.fal.ai/.well-known/jwks.json';
+const FAL_JWKS_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_CLOCK_SKEW_S = 5 * 60;
+
+let falKeys: { keys: KeyObject[]; fetchedAt: number } | null = null;
+
+/**
+ * Public keys fal.ai signs webhooks with, cached for a day
+ */
+export async function fetchFalPublicKeys(): Promise<KeyObject[]> {
+  if (falKeys && Date.now() - falKeys.fetchedAt < FAL_JWKS_TTL_MS) return falKeys.keys;
+  const { data } = await axios.get<{ keys: JsonWebKey[] }>(FAL_JWKS_URL, { timeout: 10_000 });
+  const keys = data.keys.map(key => createPublicKey({ key, format: 'jwk' }));
+  falKeys = { keys, fetchedAt: Date.now() };
+  return keys;
+}
+
+/**
+ * fal.ai signs the request id, user id, timestamp and SHA-256 of the body with ED25519.
+ * Old timestamps are rejected so a captured callback can't be replayed later.
+ */
+export async function verifyFalCallback(
+  headers: CallbackHeaders,
+  rawBody: Buffer,
+  getKeys: () => Promise<KeyObject[]> = fetchFalPublicKeys,
+  now = Date.now(),
+): Promise<boolean> {
+  const requestId = getHeader(headers, 'x-fal-webhook-request-id');
+  const userId = getHeader(headers, 'x-fal-webhook-user-id');
+  const timestamp = getHeader(headers, 'x-fal-webhook-timestamp');
+  const signature = getHeader(headers, 'x-fal-webhook-signature');
+  if (!requestId || !userId || !timestamp || !signature) return false;
+  if (!(Math.abs(now / 1000 - Number(timestamp)) <= MAX_CLOCK_SKEW_S)) return false;
+
+  const bodyHash = createHash('sha256').update(rawBody).digest('hex');
+  const message = Buffer.from([requestId, userId, timestamp, bodyHash].join('\n'));
+  const signatureBytes = Buffer.from(signature, 'hex');
+  const keys = await getKeys();
+  return keys.some(key => {
+    try {
+      return verify(null, message, key, signatureBytes);
+    } catch {
+      return false;
+    }
+  });
+}
+
+export function verifyProviderCallback(
+  provider: CallbackProvider,
+  headers: CallbackHeaders,
+  rawBody: Buffer,
+): Promise<boolean> {
+  return provider === 'goapi'
+    ? Promise.resolve(verifyGoApiCallback(headers))
+    : verifyFalCallback(headers, rawBody);
+}
+
+/**
+ * Provider task id in a callback body
+ */
+export function getCallbackTaskId(provider: CallbackProvider, body: unknown): string | undefined {
+  const payload = body as { data?: { task_id?: string }; request_id?: string } | null;
+  return provider === 'goapi' ? payload?.data?.task_id : payload?.request_id;
+}
@@ -0,0 +1,82 @@
+import { prisma } from '@/utils/prisma.js';
+import type { ReplyRating } from '@/types/index.js';
+import { resolveStoreBackend } from './conversation-store.js';
+
+export type NewReplyRating = Omit<ReplyRating, 'created_at'>;
+
+/**
+ * Ratings of assistant answers, reviewed later to judge answer quality
+ */
+export interface RatingStore {
+  /** Insert or replace the rating of an answer */
+  saveRating(rating: NewReplyRating): Promise<void>;
+  /** Ratings of a chat, newest first */
+  listRatings(chatId: number): Promise<ReplyRating[]>;
+}
+
+/**
+ * In-memory store for tests and local development. Ratings are lost on restart.
+ */
+export class InMemoryRatingStore implements RatingStore {
+  private ratings = new Map<string, ReplyRating>();
+
+  saveRating(rating: NewReplyRating): Promise<void> {
+    const key = `${rating.chat_id}:${rating.bot_message_id}`;
+    this.ratings.set(key, { ...rating, created_at: new Date() });
+    return Promise.resolve();
+  }
+
+  listRatings(chatId: number): Promise<ReplyRating[]> {
+    const ratings = [...this.ratings.values()]
+      .filter(r => r.chat_id === chatId)
+      .sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+    return Promise.resolve(ratings);
+  }
+}
+
+/**
+ * Postgres-backed store
+ */
+export class PrismaRatingStore implements RatingStore {
+  async saveRating(rating: NewReplyRating): Promise<void> {
+    const data = {
+      ...rating,
+      chat_id: BigInt(rating.chat_id),
+      telegram_id: BigInt(rating.telegram_id),
+    };
+    await prisma.reply_ratings.upsert({
+      where: {
+        chat_id_bot_message_id: { chat_id: data.chat_id, bot_message_id: rating.bot_message_id },
+      },
+      create: data,
+      update: { ...data, created_at: new Date() },
+    });
+  }
+
+  async listRatings(chatId: number): Promise<ReplyRating[]> {
+    const ratings = await prisma.reply_ratings.findMany({
+      where: { chat_id: BigInt(chatId) },
+      orderBy: { created_at: 'desc' },
+    });
+    return ratings.map(r => ({
+      ...r,
+      chat_id: Number(r.chat_id),
+      telegram_id: Number(r.telegram_id),
+      rating: r.rating > 0 ? 1 : -1,
+    }));
+  }
+}
+
+let ratingStore: RatingStore | null = null;
+
+export function getRatingStore(): RatingStore {
+  if (!ratingStore) {
+    ratingStore =
+      resolveStoreBackend() === 'memory' ? new InMemoryRatingStore() : new PrismaRatingStore();
+  }
+  return ratingStore;
+}
+
+export function setRatingStore(store: RatingStore): void {
+  ratingStore = store;
+}
@@ -0,0 +1,36 @@
+import type { TelegramMessage } from '@/types/index.js';
+
+const REPLY_QUOTE_MAX_LENGTH = 1000;
+
+/**
+ * Telegram only tells us which message was replied to, so its text is passed to the model
+ * as context for this turn. Returns null when the message is not a reply or quotes no text.
+ */
+export function getReplyContext(msg: TelegramMessage): string | null {
+  const reply = msg.reply_to_message;
+  const quoted = (reply?.text ?? reply?.caption)?.trim();
+  if (!reply || !quoted) return null;
+
+  const text =
+    quoted.length > REPLY_QUOTE_MAX_LENGTH ? `${quoted.slice(0, REPLY_QUOTE_MAX_LENGTH)}…` : quoted;
+  const author = reply.from?.is_bot ? 'your earlier answer' : 'an earlier message of theirs';
+  return `The user is replying to ${author}. Treat it as the subject of their message:\n"""\n${text}\n"""`;
+}
+
+/**
+ * File id of the largest size of the photo the message replies to
+ */
+export function getRepliedPhotoId(msg: TelegramMessage): string | null {
+  const photo = msg.reply_to_message?.photo;
+  return photo?.length ? photo[photo.length - 1]!.file_id : null;
+}
+
+/**
+ * In photo mode a reply to an image edits it: the replied photo becomes the input
+ * image and the reply text its caption, as if the user had sent them together
+ */
+export function asImageEditRequest(msg: TelegramMessage): TelegramMessage {
+  const photo = msg.reply_to_message?.photo;
+  if (!photo?.length || !msg.text) return msg;
+  return { ...msg, photo, caption: msg.text };
+}
@@ -0,0 +1,106 @@
+import { prisma } from '@/utils/prisma.js';
+import type { MessageReply } from '@/types/index.js';
+import { resolveStoreBackend } from './conversation-store.js';
+
+export type NewMessageReply = Omit<MessageReply, 'created_at'>;
+
+/**
+ * Mapping from user prompts to bot replies, used to redo answers when a prompt is edited
+ */
+export interface ReplyStore {
+  /** Insert or replace the mapping of a user message */
+  saveReply(reply: NewMessageReply): Promise<void>;
+  getReply(chatId: number, userMessageId: number): Promise<MessageReply | null>;
+  /** The most recent prompt of a chat */
+  getLatestReply(chatId: number): Promise<MessageReply | null>;
+}
+
+/**
+ * In-memory store for tests and local development. Mappings are lost on restart.
+ */
+export class InMemoryReplyStore implements ReplyStore {
+  private replies = new Map<string, MessageReply>();
+
+  saveReply(reply: NewMessageReply): Promise<void> {
+    const key = `${reply.chat_id}:${reply.user_message_id}`;
+    this.replies.set(key, { ...reply, created_at: new Date() });
+    return Promise.resolve();
+  }
+
+  getReply(chatId: number, userMessageId: number): Promise<MessageReply | null> {
+    return Promise.resolve(this.replies.get(`${chatId}:${userMessageId}`) ?? null);
+  }
+
+  getLatestReply(chatId: number): Promise<MessageReply | null> {
+    const latest = [...this.replies.values()]
+      .filter(r => r.chat_id === chatId)
+      .sort((a, b) => b.user_message_id - a.user_message_id)[0];
+    return Promise.resolve(latest ?? null);
+  }
+}
+
+function toMessageReply(
+  reply: Omit<MessageReply, 'chat_id' | 'mode' | 'telegram_id'> & {
+    chat_id: bigint;
+    mode: string;
+    telegram_id: bigint | null;
+  },
+): MessageReply {
+  return {
+    ...reply,
+    chat_id: Number(reply.chat_id),
+    mode: reply.mode as MessageReply['mode'],
+    telegram_id: reply.telegram_id !== null ? Number(reply.telegram_id) : null,
+  };
+}
+
+/**
+ * Postgres-backed store, so edits work after restarts
+ */
+export class PrismaReplyStore implements ReplyStore {
+  async saveReply(reply: NewMessageReply): Promise<void> {
+    const data = {
+      ...reply,
+      chat_id: BigInt(reply.chat_id),
+      telegram_id: reply.telegram_id !== null ? BigInt(reply.telegram_id) : null,
+    };
+    await prisma.message_replies.upsert({
+      where: {
+        chat_id_user_message_id: { chat_id: data.chat_id, user_message_id: reply.user_message_id },
+      },
+      create: data,
+      update: data,
+    });
+  }
+
+  async getReply(chatId: number, userMessageId: number): Promise<MessageReply | null> {
+    const reply = await prisma.message_replies.findUnique({
+      where: {
+        chat_id_user_message_id: { chat_id: BigInt(chatId), user_message_id: userMessageId },
+      },
+    });
+    return reply ? toMessageReply(reply) : null;
+  }
+
+  async getLatestReply(chatId: number): Promise<MessageReply | null> {
+    const reply = await prisma.message_replies.findFirst({
+      where: { chat_id: BigInt(chatId) },
+      orderBy: { user_message_id: 'desc' },
+    });
+    return reply ? toMessageReply(reply) : null;
+  }
+}
+
+let replyStore: ReplyStore | null = null;
+
+export function getReplyStore(): ReplyStore {
+  if (!replyStore) {
+    replyStore =
+      resolveStoreBackend() === 'memory' ? new InMemoryReplyStore() : new PrismaReplyStore();
+  }
+  return replyStore;
+}
+
+export function setReplyStore(store: ReplyStore): void {
+  replyStore = store;
+}
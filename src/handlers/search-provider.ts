@@ -0,0 +1,85 @@
+import axios from 'axios';
+
+export interface SearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+}
+
+/**
+ * Web search backend used by /search answers
+ */
+export interface SearchProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  search(query: string, limit: number): Promise<SearchResult[]>;
+}
+
+interface BraveWebResult {
+  title?: string;
+  url?: string;
+  description?: string;
+}
+
+const BRAVE_SEARCH_URL = 'https://api.search.brave.com/res/v1/web/search';
+
+/**
+ * Brave Search API, https://api.search.brave.com
+ */
+export class BraveSearchProvider implements SearchProvider {
+  readonly name = 'brave';
+
+  constructor(private apiKey: string | undefined) {}
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async search(query: string, limit: number): Promise<SearchResult[]> {
+    if (!this.apiKey) throw new Error('BRAVE_SEARCH_API_KEY is not set');
+    const response = await axios.get<{ web?: { results?: BraveWebResult[] } }>(BRAVE_SEARCH_URL, {
+      params: { q: query, count: limit },
+      headers: { Accept: 'application/json', 'X-Subscription-Token': this.apiKey },
+      timeout: 10_000,
+    });
+    return (response.data.web?.results ?? [])
+      .filter((r): r is BraveWebResult & { url: string } => !!r.url)
+      .slice(0, limit)
+      .map(r => ({
+        title: r.title || r.url,
+        url: r.url,
+        // Brave highlights matches with <strong>
+        snippet: (r.description ?? '').replace(/<[^>]+>/g, ''),
+      }));
+  }
+}
+
+/**
+ * Fixed results for every query. Used in tests and for local development without an API key.
+ */
+export class StaticSearchProvider implements SearchProvider {
+  readonly name = 'static';
+  readonly queries: string[] = [];
+
+  constructor(private results: SearchResult[]) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async search(query: string, limit: number): Promise<SearchResult[]> {
+    this.queries.push(query);
+    return this.results.slice(0, limit);
+  }
+}
+
+let searchProvider: SearchProvider | null = null;
+
+export function getSearchProvider(): SearchProvider {
+  searchProvider ??= new BraveSearchProvider(process.env.BRAVE_SEARCH_API_KEY);
+  return searchProvider;
+}
+
+export function setSearchProvider(provider: SearchProvider): void {
+  searchProvider = provider;
+}
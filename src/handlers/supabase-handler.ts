@@ -24,6 +24,8 @@ const DEFAULT_VIDEO_REQUESTS = parseInt(process.env.DEFAULT_VIDEO_REQUESTS ?? '5
 const PREMIUM_TEXT_REQUESTS = parseInt(process.env.PREMIUM_TEXT_REQUESTS ?? '1000', 10);
 const PREMIUM_IMAGE_REQUESTS = parseInt(process.env.PREMIUM_IMAGE_REQUESTS ?? '100', 10);
 const PREMIUM_VIDEO_REQUESTS = parseInt(process.env.PREMIUM_VIDEO_REQUESTS ?? '50', 10);
+// Text requests charged for a text mode reply that is also sent as voice
+export const VOICE_REPLY_COST = Math.max(1, parseInt(process.env.VOICE_REPLY_COST ?? '2', 10) || 2);
 
 type QuotaRow = {
   id: string;
@@ -0,0 +1,148 @@
+import type { TelegramLikeBot as TelegramBot } from '../tg-client.js';
+import type { DbUser, RequestType, TelegramMessage } from '@/types/index.js';
+import type { AssistantTool } from './openai-handler.js';
+import type { ToolDefinition } from './llm-provider.js';
+import { canConsumeRequest, decreaseRequests } from './supabase-handler.js';
+
+const DEFAULT_TOOL_TIMEOUT_MS = 30_000;
+
+/**
+ * The message being answered; tools reply to its chat and charge its sender
+ */
+export interface ToolContext {
+  bot: TelegramBot;
+  msg: TelegramMessage;
+  user: DbUser;
+  userId: number;
+}
+
+export interface ToolCost {
+  quota: RequestType;
+  amount: number;
+  /** The tool only starts the work, which charges the user itself once it is done */
+  chargedByHandler?: boolean;
+}
+
+/**
+ * Tool the assistant can use in text mode. Arguments are checked against the JSON schema
+ * of the definition before execute is called.
+ */
+export interface BotTool<Args = Record<string, unknown>> {
+  definition: ToolDefinition;
+  /** Requests a call needs; charged after the call succeeds */
+  cost?: ToolCost;
+  timeoutMs?: number;
+  /** Shown under the answer while the tool runs */
+  status?: string;
+  /** Gives the text sent back to the model; throws when the call failed */
+  execute(args: Args, context: ToolContext): Promise<string>;
+}
+
+interface JsonSchemaProperty {
+  type?: string;
+  enum?: unknown[];
+}
+
+function matchesType(value: unknown, type: string | undefined): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number';
+    case 'boolean':
+      return typeof value === 'boolean';
+    default:
+      return true;
+  }
+}
+
+/**
+ * Check arguments against an object schema: required properties, primitive types and enums.
+ * Gives the problems found, empty when the arguments are fine.
+ */
+export function validateToolArguments(
+  schema: Record<string, unknown>,
+  args: Record<string, unknown>,
+): string[] {
+  const properties = (schema.properties ?? {}) as Record<string, JsonSchemaProperty>;
+  const required = (schema.required ?? []) as string[];
+  const errors = required.filter(name => args[name] == null).map(name => `${name} is required`);
+  for (const [name, value] of Object.entries(args)) {
+    const property = properties[name];
+    if (!property || value == null) continue;
+    if (!matchesType(value, property.type)) {
+      errors.push(`${name} must be of type ${property.type}`);
+    } else if (property.enum && !property.enum.includes(value)) {
+      errors.push(`${name} must be one of ${property.enum.join(', ')}`);
+    }
+  }
+  return errors;
+}
+
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number, name: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`${name} timed out after ${Math.round(timeoutMs / 1000)}s`)),
+      timeoutMs,
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+const QUOTA_NAMES: Record<RequestType, string> = {
+  text_req_left: 'text',
+  image_req_left: 'image',
+  video_req_left: 'video',
+};
+
+export class ToolRegistry {
+  private tools = new Map<string, BotTool<unknown>>();
+
+  register<Args>(tool: BotTool<Args>): this {
+    if (this.tools.has(tool.definition.name)) {
+      throw new Error(`Tool ${tool.definition.name} is already registered`);
+    }
+    this.tools.set(tool.definition.name, tool);
+    return this;
+  }
+
+  get(name: string): BotTool | undefined {
+    return this.tools.get(name);
+  }
+
+  list(): BotTool[] {
+    return [...this.tools.values()];
+  }
+
+  /**
+   * Tools for one answer: arguments are validated, the quota is checked before a call
+   * and charged after it, and slow calls fail after their timeout
+   */
+  bind(context: ToolContext): AssistantTool[] {
+    return this.list().map(tool => ({
+      definition: tool.definition,
+      execute: async args => {
+        const { name } = tool.definition;
+        const errors = validateToolArguments(tool.definition.parameters, args);
+        if (errors.length) throw new Error(`Invalid arguments: ${errors.join('; ')}`);
+
+        const { cost } = tool;
+        if (cost && !(await canConsumeRequest(context.userId, cost.quota, cost.amount))) {
+          throw new Error(`The user has no ${QUOTA_NAMES[cost.quota]} requests left`);
+        }
+        const result = await withTimeout(
+          tool.execute(args, context),
+          tool.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS,
+          name,
+        );
+        if (cost && !cost.chargedByHandler) {
+          await decreaseRequests(context.userId, cost.quota, cost.amount);
+        }
+        return result;
+      },
+    }));
+  }
+}
@@ -0,0 +1,165 @@
+import axios from 'axios';
+import type { AssistantTool } from './openai-handler.js';
+import { getSearchProvider, type SearchProvider, type SearchResult } from './search-provider.js';
+
+const SEARCH_RESULTS_LIMIT = 5;
+// Page text sent back to the model; enough for a summary without eating the context
+const PAGE_MAX_CHARS = 6000;
+const PAGE_MAX_BYTES = 2 * 1024 * 1024;
+
+/**
+ * Turn context for /search answers
+ */
+export const WEB_SEARCH_INSTRUCTIONS =
+  'Answer using web search. Call web_search to find current information and fetch_page to ' +
+  'read a result in full when its snippet is not enough, then summarize what you found. ' +
+  'Cite sources inline by their numbers in square brackets, like [1] or [2][3]. ' +
+  'Do not list sources or URLs at the end: the list is added automatically.';
+
+/**
+ * Question of a message sent with the /search prefix: '' when it has no question,
+ * null for messages without the prefix
+ */
+export function parseSearchCommand(text: string): string | null {
+  const match = text.trim().match(/^\/search(?:@\w+)?(?:\s+([\s\S]*))?$/i);
+  return match ? (match[1] ?? '').trim() : null;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * Readable text of an HTML page: scripts, styles and markup removed, whitespace collapsed
+ */
+export function extractPageText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript|svg|head)\b[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<\/(p|div|li|h[1-6]|tr|section|article)>|<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&(#\d+|[a-z]+);/gi, (entity, name: string) =>
+      name.startsWith('#')
+        ? String.fromCodePoint(Number(name.slice(1)))
+        : (ENTITIES[name.toLowerCase()] ?? entity),
+    )
+    .replace(/[ \t\f\v\r]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .replace(/\n{2,}/g, '\n')
+    .trim();
+}
+
+export async function fetchPageText(url: string): Promise<string> {
+  const response = await axios.get<string>(url, {
+    responseType: 'text',
+    timeout: 10_000,
+    maxContentLength: PAGE_MAX_BYTES,
+    headers: { Accept: 'text/html,text/plain;q=0.9' },
+  });
+  const contentType = String(response.headers['content-type'] ?? '');
+  if (contentType && !/^text\/|html|xml/.test(contentType)) {
+    throw new Error(`Unsupported content type: ${contentType}`);
+  }
+  return extractPageText(String(response.data));
+}
+
+/**
+ * Numbers cited in an answer: [1], [2][3] and [1, 4] all count
+ */
+export function getCitedSources(answer: string): number[] {
+  const cited = new Set<number>();
+  for (const match of answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    for (const number of match[1]!.split(',')) cited.add(Number(number));
+  }
+  return [...cited].sort((a, b) => a - b);
+}
+
+/**
+ * Search tools for one answer. Every result gets a number that stays the same across
+ * searches, so the model can cite it and the sources list can be built afterwards.
+ */
+export class WebSearchSession {
+  readonly sources: SearchResult[] = [];
+
+  constructor(
+    private provider: SearchProvider = getSearchProvider(),
+    private fetchPage: (url: string) => Promise<string> = fetchPageText,
+  ) {}
+
+  private addSource(result: SearchResult): number {
+    const index = this.sources.findIndex(s => s.url === result.url);
+    if (index !== -1) return index + 1;
+    return this.sources.push(result);
+  }
+
+  async search(query: string): Promise<string> {
+    const results = await this.provider.search(query, SEARCH_RESULTS_LIMIT);
+    if (!results.length) return 'No results.';
+    return results
+      .map(
+        result => `[${this.addSource(result)}] ${result.title}\n${result.url}\n${result.snippet}`,
+      )
+      .join('\n\n');
+  }
+
+  /**
+   * Only pages from the search results can be read, so the model cannot be talked
+   * into requesting arbitrary addresses
+   */
+  async readPage(source: number): Promise<string> {
+    const result = this.sources[source - 1];
+    if (!result) return `Error: there is no source [${source}], search first.`;
+    const text = await this.fetchPage(result.url);
+    if (!text) return `[${source}] The page has no readable text.`;
+    const page = text.length > PAGE_MAX_CHARS ? `${text.slice(0, PAGE_MAX_CHARS)}…` : text;
+    return `[${source}] ${result.title}\n\n${page}`;
+  }
+
+  get tools(): AssistantTool[] {
+    return [
+      {
+        definition: {
+          name: 'web_search',
+          description: 'Search the web. Returns numbered results with title, URL and snippet.',
+          parameters: {
+            type: 'object',
+            properties: { query: { type: 'string', description: 'Search query' } },
+            required: ['query'],
+          },
+        },
+        execute: args => this.search(String(args.query ?? '')),
+      },
+      {
+        definition: {
+          name: 'fetch_page',
+          description: 'Read the text of a search result page by its number.',
+          parameters: {
+            type: 'object',
+            properties: { source: { type: 'integer', description: 'Result number, e.g. 1' } },
+            required: ['source'],
+          },
+        },
+        execute: args => this.readPage(Number(args.source)),
+      },
+    ];
+  }
+
+  /**
+   * Append the numbered sources cited in the answer, or all found ones when it cites none
+   */
+  formatAnswer(answer: string): string {
+    const cited = getCitedSources(answer).filter(n => this.sources[n - 1]);
+    const numbers = cited.length ? cited : this.sources.map((_, i) => i + 1);
+    if (!numbers.length) return answer;
+    const list = numbers.map(n => {
+      const { title, url } = this.sources[n - 1]!;
+      return `[${n}] [${title.replace(/[[\]]/g, '')}](${url})`;
+    });
+    return `${answer}\n\n**Источники:**\n${list.join('\n')}`;
+  }
+}
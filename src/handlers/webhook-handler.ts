@@ -4,11 +4,24 @@ import type { TelegramUpdate } from '@/types/index.js';
 import {
   handleTextMessage,
   handleVoiceMessage,
+  handleDocumentMessage,
+  handleEditedMessage,
+  handleGroupMessage,
+  handleInlineQuery,
+  handleChosenInlineResult,
   handleCallbackQuery,
   handlePreCheckoutQuery,
   handleSuccessfulPaymentMessage,
   handlePhotoMessage,
 } from '@/handlers/msg-handler.js';
+import { getJobQueue } from '@/handlers/job-queue.js';
+import {
+  getCallbackTaskId,
+  isCallbackProvider,
+  setCallbackBaseUrl,
+  verifyProviderCallback,
+} from '@/handlers/provider-webhooks.js';
+import { isGroupChat } from '@/types/index.js';
 
 export interface WebhookHandler {
   getStatus(): Promise<{
@@ -89,6 +102,7 @@ export class WebhookHandler implements WebhookHandler {
 
         // Set webhook URL via ngrok
         this.webhookUrl = `${this.ngrokUrl}/webhook`;
+        setCallbackBaseUrl(this.ngrokUrl);
       } else {
         // No ngrok: require baseUrl
         const resolvedBaseUrl = baseUrl ?? process.env.WEBHOOK_PUBLIC_URL ?? '';
@@ -97,6 +111,7 @@ export class WebhookHandler implements WebhookHandler {
         }
         this.ngrokUrl = null;
         this.webhookUrl = `${resolvedBaseUrl.replace(/\/$/, '')}/webhook`;
+        setCallbackBaseUrl(resolvedBaseUrl);
         console.log(`🌐 Using public URL for webhook: ${this.webhookUrl}`);
       }
 
@@ -149,6 +164,44 @@ export class WebhookHandler implements WebhookHandler {
         },
       );
 
+      // Generation providers report finished tasks here. Signatures cover the exact bytes sent,
+      // so the body is parsed only after verification.
+      this.app!.register(async scope => {
+        scope.addContentTypeParser('application/json', { parseAs: 'buffer' }, (_req, body, done) =>
+          done(null, body),
+        );
+        scope.post(
+          `${prefix}/callbacks/:provider/:jobId`,
+          async (
+            request: FastifyRequest<{ Params: { provider: string; jobId: string }; Body: Buffer }>,
+            reply,
+          ) => {
+            const { provider, jobId } = request.params;
+            if (!isCallbackProvider(provider)) return reply.code(404).send({ ok: false });
+            const rawBody = Buffer.isBuffer(request.body) ? request.body : Buffer.alloc(0);
+            if (!(await verifyProviderCallback(provider, request.headers, rawBody))) {
+              console.warn(`Rejected unverified ${provider} callback for job ${jobId}`);
+              return reply.code(401).send({ ok: false });
+            }
+
+            let taskId: string | undefined;
+            try {
+              taskId = getCallbackTaskId(provider, JSON.parse(rawBody.toString('utf8')));
+            } catch {
+              return reply.code(400).send({ ok: false });
+            }
+            if (!taskId) return reply.code(400).send({ ok: false });
+
+            try {
+              return { ok: await getJobQueue().notify(jobId, taskId) };
+            } catch (error) {
+              console.error(`Provider callback for job ${jobId} failed:`, error);
+              return reply.code(503).send({ ok: false });
+            }
+          },
+        );
+      });
+
       // API docs endpoint
       this.app!.get(`${prefix}/docs`, async () => {
         return {
@@ -156,6 +209,7 @@ export class WebhookHandler implements WebhookHandler {
           endpoints: {
             'GET /health': 'Health check',
             'POST /webhook': 'Telegram webhook',
+            'POST /callbacks/:provider/:jobId': 'Generation provider callbacks',
             'GET /docs': 'This documentation',
           },
         };
@@ -206,15 +260,31 @@ export class WebhookHandler implements WebhookHandler {
 
         if (msg.successful_payment) {
           await handleSuccessfulPaymentMessage(this.bot as any, msg as any);
+        } else if (isGroupChat(msg.chat)) {
+          await handleGroupMessage(this.bot as any, msg as any);
         } else if (msg.text) {
           await handleTextMessage(this.bot as any, msg as any);
         } else if (msg.photo) {
           await handlePhotoMessage(this.bot as any, msg as any);
-        } else if (msg.voice) {
+        } else if (msg.voice ?? msg.audio ?? msg.video_note) {
           await handleVoiceMessage(this.bot as any, msg as any);
+        } else if (msg.document) {
+          await handleDocumentMessage(this.bot as any, msg as any);
         }
       }
 
+      if (update.edited_message) {
+        await handleEditedMessage(this.bot as any, update.edited_message);
+      }
+
+      if (update.inline_query) {
+        await handleInlineQuery(this.bot as any, update.inline_query);
+      }
+
+      if (update.chosen_inline_result) {
+        await handleChosenInlineResult(this.bot as any, update.chosen_inline_result);
+      }
+
       if (update.callback_query) {
         await handleCallbackQuery(this.bot as any, update.callback_query);
       }
@@ -306,6 +376,7 @@ export class WebhookHandler implements WebhookHandler {
   async stop(): Promise<void> {
     try {
       console.log('🛑 Stopping webhook servers...');
+      setCallbackBaseUrl(null);
 
       // Remove webhook
       await this.bot.deleteWebHook();
@@ -1,6 +1,7 @@
 import 'dotenv/config';
 import { startBot } from './tg-bot.js';
 import { startWebhook } from './handlers/webhook-handler.js';
+import { startJobQueue } from './flows/jobs.js';
 
 interface StartupConfig {
   useWebhook: boolean;
@@ -47,13 +48,15 @@ async function main(): Promise<void> {
     if (config.useWebhook) {
       console.log('🌐 Starting in webhook mode...');
 
-      await startWebhook(startBot());
+      const bot = startBot();
+      await startWebhook(bot);
+      await startJobQueue(bot);
 
       console.log('✅ BrainAI Bot started successfully in webhook mode!');
     } else {
       console.log('📡 Starting in polling mode...');
 
-      startBot();
+      await startJobQueue(startBot());
 
       console.log('✅ BrainAI Bot started successfully in polling mode!');
     }
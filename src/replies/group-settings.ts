@@ -0,0 +1,26 @@
+import { GroupSettings, GroupThreadMode, TelegramInlineKeyboard } from '@/types';
+
+const groupThreadModes: { mode: GroupThreadMode; label: string; description: string }[] = [
+  { mode: 'shared', label: '👥 Общий диалог', description: 'один диалог на всю группу' },
+  { mode: 'personal', label: '👤 Личные диалоги', description: 'у каждого участника свой диалог' },
+];
+
+export function isGroupThreadMode(value: unknown): value is GroupThreadMode {
+  return groupThreadModes.some(m => m.mode === value);
+}
+
+export const createGroupSettingsKeyboard = (current: GroupThreadMode): TelegramInlineKeyboard => ({
+  inline_keyboard: groupThreadModes.map(({ mode, label }) => [
+    {
+      text: mode === current ? `✅ ${label}` : label,
+      callback_data: JSON.stringify({ action: 'set_group_thread_mode', mode }),
+    },
+  ]),
+});
+
+export const groupSettingsText = (settings: GroupSettings) =>
+  `👥 **Настройки группы**\n\n` +
+  `**Сейчас:** ${groupThreadModes.find(m => m.mode === settings.thread_mode)?.description}\n\n` +
+  `Бот отвечает, когда его упоминают, отвечают на его сообщение или пишут /ask вопрос. ` +
+  `Запросы списываются с того, кто спросил.\n` +
+  `/groupreset начинает диалог заново. Менять настройки могут только администраторы.`;
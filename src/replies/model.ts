@@ -0,0 +1,49 @@
+import { logInteraction } from '@/utils/logger';
+import { TelegramLikeBot } from '@/tg-client';
+import { getAvailableTextModels, resolveTextModel } from '@/handlers/llm-provider';
+import { DbUser, TelegramInlineKeyboard } from '@/types';
+
+export const createModelKeyboard = (currentModelId: string): TelegramInlineKeyboard => ({
+  inline_keyboard: [
+    ...getAvailableTextModels().map(model => [
+      {
+        text: model.id === currentModelId ? `✅ ${model.label}` : model.label,
+        callback_data: JSON.stringify({ action: 'set_model', model: model.id }),
+      },
+    ]),
+    [
+      {
+        text: '🔙 Главное меню',
+        callback_data: JSON.stringify({ action: 'back_to_main' }),
+      },
+    ],
+  ],
+});
+
+export const modelMenuText = (label: string) =>
+  `🧠 **Модель для ChatGPT**\n\n` +
+  `**Текущая модель:** ${label}\n\n` +
+  `Выберите модель для текстовых ответов:`;
+
+export const modelReply = async (
+  user: DbUser,
+  userId: number,
+  chatId: number,
+  text: string,
+  bot: TelegramLikeBot,
+) => {
+  await logInteraction({
+    userId,
+    chatId,
+    direction: 'user',
+    type: 'text',
+    content: text,
+  });
+
+  const current = resolveTextModel(user.text_model);
+
+  await bot.sendMessage(chatId, modelMenuText(current.label), {
+    parse_mode: 'Markdown',
+    reply_markup: createModelKeyboard(current.id),
+  });
+};
@@ -1,7 +1,42 @@
 import { logInteraction } from '@/utils/logger';
 import { TelegramLikeBot } from '@/tg-client';
 import { updateUser } from '@/handlers/supabase-handler';
-import { DbUser } from '@/types';
+import { getImageProvider, getImageProviders } from '@/handlers/image-provider';
+import { DbUser, TelegramInlineKeyboard } from '@/types';
+
+export const createImageProviderKeyboard = (current: string): TelegramInlineKeyboard => ({
+  inline_keyboard: [
+    ...getImageProviders().map(provider => [
+      {
+        text: provider.name === current ? `✅ (${provider.label})` : `(${provider.label})`,
+        callback_data: JSON.stringify({ action: 'set_provider', provider: provider.name }),
+      },
+    ]),
+    [
+      {
+        text: '🚀 Начать генерацию',
+        callback_data: JSON.stringify({ action: 'proceed_to_generation' }),
+      },
+    ],
+    [
+      {
+        text: '🔙 Главное меню',
+        callback_data: JSON.stringify({ action: 'back_to_main' }),
+      },
+    ],
+  ],
+});
+
+export const imageProviderText = (current: string) =>
+  `🎨 **Генерация изображений**\n\n` +
+  `**Текущий провайдер:** (${getImageProvider(current).label})\n\n` +
+  getImageProviders()
+    .map(
+      provider =>
+        `**(${provider.label}):**\n${provider.features.map(feature => `• ${feature}`).join('\n')}\n\n`,
+    )
+    .join('') +
+  `Выберите провайдера для генерации изображений:`;
 
 export const photoReply = async (
   user: DbUser,
@@ -22,54 +57,9 @@ export const photoReply = async (
     await updateUser(userId, { current_mode: 'photo' });
   }
 
-  const currentProvider = (user as any).image_provider || 'goapi';
-
-  const keyboard = {
-    inline_keyboard: [
-      [
-        {
-          text: currentProvider === 'goapi' ? '✅ (Midjourney)' : '(Midjourney)',
-          callback_data: JSON.stringify({ action: 'set_provider', provider: 'goapi' }),
-        },
-      ],
-      [
-        {
-          text: currentProvider === 'fal-ai' ? '🍌 (Nano Banana)' : '(Nano Banana)',
-          callback_data: JSON.stringify({ action: 'set_provider', provider: 'fal-ai' }),
-        },
-      ],
-      [
-        {
-          text: '🚀 Начать генерацию',
-          callback_data: JSON.stringify({ action: 'proceed_to_generation' }),
-        },
-      ],
-      [
-        {
-          text: '🔙 Главное меню',
-          callback_data: JSON.stringify({ action: 'back_to_main' }),
-        },
-      ],
-    ],
-  };
-
-  await bot.sendMessage(
-    chatId,
-    `🎨 **Генерация изображений**\n\n` +
-      `**Текущий провайдер:** ${currentProvider === 'goapi' ? '(Midjourney)' : '🍌 (Nano Banana)'}\n\n` +
-      `**(Midjourney):**\n` +
-      `• Высокое качество художественных изображений\n` +
-      `• Стилизованная генерация\n` +
-      `• Поддержка upscale и вариаций\n` +
-      `• Редактирование изображений\n\n` +
-      `**(Nano Banana):**\n` +
-      `• Фотореалистичные изображения\n` +
-      `• Быстрая генерация\n` +
-      `• Хорошее понимание текста\n` +
-      `Выберите провайдера для генерации изображений:`,
-    {
-      parse_mode: 'Markdown',
-      reply_markup: keyboard,
-    },
-  );
+  const currentProvider = getImageProvider(user.image_provider).name;
+  await bot.sendMessage(chatId, imageProviderText(currentProvider), {
+    parse_mode: 'Markdown',
+    reply_markup: createImageProviderKeyboard(currentProvider),
+  });
 };
@@ -0,0 +1,59 @@
+import { logInteraction } from '@/utils/logger';
+import { TelegramLikeBot } from '@/tg-client';
+import { DbUser, TelegramInlineKeyboard, TranscriptionMode } from '@/types';
+
+const transcriptionModes: { mode: TranscriptionMode; label: string; description: string }[] = [
+  {
+    mode: 'answer',
+    label: '💬 Расшифровать и ответить',
+    description: 'расшифровка и ответ ChatGPT',
+  },
+  { mode: 'text', label: '📝 Только расшифровка', description: 'только расшифровка' },
+  { mode: 'srt', label: '🕒 Расшифровка + .srt', description: 'расшифровка и субтитры .srt' },
+];
+
+export function isTranscriptionMode(value: unknown): value is TranscriptionMode {
+  return transcriptionModes.some(m => m.mode === value);
+}
+
+export function getTranscriptionMode(user: DbUser): TranscriptionMode {
+  return isTranscriptionMode(user.transcription_mode) ? user.transcription_mode : 'answer';
+}
+
+export const createTranscriptionModeKeyboard = (
+  current: TranscriptionMode,
+): TelegramInlineKeyboard => ({
+  inline_keyboard: transcriptionModes.map(({ mode, label }) => [
+    {
+      text: mode === current ? `✅ ${label}` : label,
+      callback_data: JSON.stringify({ action: 'set_transcription_mode', mode }),
+    },
+  ]),
+});
+
+export const transcriptionModeText = (current: TranscriptionMode) =>
+  `🎙 **Голосовые, аудио и кружки**\n\n` +
+  `**Сейчас:** ${transcriptionModes.find(m => m.mode === current)?.description}\n\n` +
+  `В режиме расшифровки бот присылает текст сообщения, а в файле .srt — текст с таймкодами.`;
+
+export const transcriptionModeReply = async (
+  user: DbUser,
+  userId: number,
+  chatId: number,
+  text: string,
+  bot: TelegramLikeBot,
+) => {
+  await logInteraction({
+    userId,
+    chatId,
+    direction: 'user',
+    type: 'text',
+    content: text,
+  });
+
+  const current = getTranscriptionMode(user);
+  await bot.sendMessage(chatId, transcriptionModeText(current), {
+    parse_mode: 'Markdown',
+    reply_markup: createTranscriptionModeKeyboard(current),
+  });
+};
@@ -0,0 +1,47 @@
+import { logInteraction } from '@/utils/logger';
+import { TelegramLikeBot } from '@/tg-client';
+import { VOICE_REPLY_COST } from '@/handlers/supabase-handler';
+import { DbUser, TelegramInlineKeyboard } from '@/types';
+
+export const createVoiceModeKeyboard = (enabled: boolean): TelegramInlineKeyboard => ({
+  inline_keyboard: [
+    [
+      {
+        text: enabled ? '✅ 🔊 Голосом' : '🔊 Голосом',
+        callback_data: JSON.stringify({ action: 'set_voice_replies', enabled: true }),
+      },
+      {
+        text: enabled ? '📝 Только текст' : '✅ 📝 Только текст',
+        callback_data: JSON.stringify({ action: 'set_voice_replies', enabled: false }),
+      },
+    ],
+  ],
+});
+
+export const voiceModeText = (enabled: boolean) =>
+  `🔊 **Голосовые ответы**\n\n` +
+  `**Сейчас:** ${enabled ? 'ответы озвучиваются' : 'только текст'}\n\n` +
+  `В режиме голосовых ответов ChatGPT дополнительно присылает ответ голосовым сообщением.\n` +
+  `Стоимость голосового ответа в текстовых запросах: ${VOICE_REPLY_COST}`;
+
+export const voiceModeReply = async (
+  user: DbUser,
+  userId: number,
+  chatId: number,
+  text: string,
+  bot: TelegramLikeBot,
+) => {
+  await logInteraction({
+    userId,
+    chatId,
+    direction: 'user',
+    type: 'text',
+    content: text,
+  });
+
+  const enabled = !!user.voice_replies;
+  await bot.sendMessage(chatId, voiceModeText(enabled), {
+    parse_mode: 'Markdown',
+    reply_markup: createVoiceModeKeyboard(enabled),
+  });
+};
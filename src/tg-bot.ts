@@ -1,11 +1,17 @@
 import {
   handleTextMessage,
   handleVoiceMessage,
+  handleDocumentMessage,
+  handleEditedMessage,
+  handleGroupMessage,
+  handleInlineQuery,
+  handleChosenInlineResult,
   handleCallbackQuery,
   handlePreCheckoutQuery,
   handleSuccessfulPaymentMessage,
   handlePhotoMessage,
 } from '@/handlers/msg-handler.js';
+import { isGroupChat } from '@/types/index.js';
 import { TgBotAdapter, TgMessage, TgCallbackQuery, TgPreCheckoutQuery } from '@/tg-client.js';
 
 const token = process.env.TELEGRAM_BOT_TOKEN as string;
@@ -62,24 +68,26 @@ export function setupBotHandlers(bot: TgBotAdapter): void {
         return;
       }
 
+      // In groups the bot only answers questions addressed to it
+      if (isGroupChat(msg.chat as any)) {
+        await handleGroupMessage(bot, msg as any);
+        return;
+      }
+
       if (msg.text) {
         await handleTextMessage(bot, msg as any);
-      } else if (msg.voice) {
+      } else if (msg.voice ?? msg.audio ?? msg.video_note) {
         await handleVoiceMessage(bot, msg as any);
       } else if (msg.photo) {
         await handlePhotoMessage(bot, msg as any);
-      } else if (msg.video_note ?? msg.video) {
+      } else if (msg.video) {
         // Handle video messages
         await bot.sendMessage(
           msg.chat.id,
-          '📹 Видеосообщения пока не поддерживаются. Пожалуйста, отправляйте текст, голос или изображения.',
+          '📹 Видео пока не поддерживаются. Пожалуйста, отправляйте текст, голос, кружки или изображения.',
         );
       } else if (msg.document) {
-        // Handle documents
-        await bot.sendMessage(
-          msg.chat.id,
-          '📄 Обработка документов пока не поддерживается. Пожалуйста, отправьте текст, голос или изображение.',
-        );
+        await handleDocumentMessage(bot, msg as any);
       } else if (msg.sticker) {
         // Handle stickers with fun response
         await bot.sendMessage(
@@ -167,48 +175,19 @@ export function setupBotHandlers(bot: TgBotAdapter): void {
     }
   });
 
-  // Handle inline queries (if bot is set to inline mode)
+  // Handle inline queries (@bot question in any chat)
   bot.on('inline_query', async (inlineQuery: any) => {
     try {
-      console.log('Inline query received:', inlineQuery.query);
-
-      const results = [
-        {
-          type: 'article' as const,
-          id: '1',
-          title: '🤖 BrainAI Bot',
-          description: 'Start chatting with BrainAI Bot',
-          input_message_content: {
-            message_text: '🤖 Click here to start using BrainAI Bot!',
-          },
-          thumb_url: 'https://via.placeholder.com/64x64/4CAF50/FFFFFF?text=AI',
-        },
-        {
-          type: 'article' as const,
-          id: '2',
-          title: '🎨 Generate Image',
-          description: 'Generate an image with AI',
-          input_message_content: {
-            message_text: '🎨 Switch to photo mode to generate images!',
-          },
-          thumb_url: 'https://via.placeholder.com/64x64/FF9800/FFFFFF?text=🎨',
-        },
-      ];
-
-      await bot.answerInlineQuery(inlineQuery.id, results, {
-        cache_time: 300,
-        is_personal: true,
-      });
+      await handleInlineQuery(bot, inlineQuery);
     } catch (error) {
       console.error('Error handling inline query:', error);
     }
   });
 
-  // Handle chosen inline result
+  // Handle chosen inline result (charges the inline answer, draws the inline picture)
   bot.on('chosen_inline_result', async (chosenResult: any) => {
     try {
-      console.log('Chosen inline result:', chosenResult);
-      // Log for analytics, no action needed
+      await handleChosenInlineResult(bot, chosenResult);
     } catch (error) {
       console.error('Error handling chosen inline result:', error);
     }
@@ -227,9 +206,7 @@ export function setupBotHandlers(bot: TgBotAdapter): void {
   // Handle edited messages
   bot.on('edited_message', async (msg: any) => {
     try {
-      console.log('Message edited by user:', msg.from?.id);
-      // For now, just log edited messages
-      // In the future, we could re-process edited messages
+      await handleEditedMessage(bot, msg);
     } catch (error) {
       console.error('Error handling edited message:', error);
     }
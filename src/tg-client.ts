@@ -1,6 +1,13 @@
 import { TelegramClient } from 'telegramsjs';
 
-import type { Message, CallbackQuery, PreCheckoutQuery } from '@telegram.ts/types';
+import type {
+  Message,
+  CallbackQuery,
+  PreCheckoutQuery,
+  InlineQuery,
+  ChosenInlineResult,
+  User,
+} from '@telegram.ts/types';
 
 type ChatAction =
   | 'typing'
@@ -23,6 +30,10 @@ export type TgCallbackQuery = CallbackQuery & { message?: Message };
 
 export type TgPreCheckoutQuery = PreCheckoutQuery;
 
+export type TgInlineQuery = InlineQuery;
+
+export type TgChosenInlineResult = ChosenInlineResult;
+
 export type Update = {
   update_id?: number;
   message?: TgMessage;
@@ -74,11 +85,11 @@ export class TgBotAdapter {
       return;
     }
     if (event === 'inlineQuery' || event === 'inline_query') {
-      this.client.on('inlineQuery', handler as any);
+      this.client.on('inlineQuery', (q: any) => handler(this.mapInlineQuery(q)));
       return;
     }
     if (event === 'chosenInlineResult' || event === 'chosen_inline_result') {
-      this.client.on('chosenInlineResult', handler as any);
+      this.client.on('chosenInlineResult', (r: any) => handler(this.mapChosenInlineResult(r)));
       return;
     }
     if (event === 'channelPost' || event === 'channel_post') {
@@ -86,7 +97,7 @@ export class TgBotAdapter {
       return;
     }
     if (event === 'editedMessage' || event === 'edited_message') {
-      this.client.on('editedMessage', handler as any);
+      this.client.on('editedMessage', (m: any) => handler(this.mapMessage(m as any)) as any);
       return;
     }
     if (event === 'polling_error' || event === 'webhook_error') {
@@ -192,17 +203,42 @@ export class TgBotAdapter {
     chatId: number,
     data: Buffer | string,
     options?: any,
-    _fileOptions?: { filename?: string; contentType?: string },
+    fileOptions?: { filename?: string; contentType?: string },
   ): Promise<TgMessage> {
+    // Buffers are uploaded without a name unless it is passed explicitly
+    const document =
+      Buffer.isBuffer(data) && fileOptions?.filename
+        ? { source: { media: data, filename: fileOptions.filename } }
+        : data;
     const msg = await this.client.sendDocument({
       chatId,
-      document: data as any,
+      document: document as any,
       caption: options?.caption,
       replyMarkup: options?.reply_markup,
     } as any);
     return this.mapMessage(msg);
   }
 
+  async sendVoice(
+    chatId: number,
+    data: Buffer | string,
+    options?: any,
+    fileOptions?: { filename?: string; contentType?: string },
+  ): Promise<TgMessage> {
+    const voice =
+      Buffer.isBuffer(data) && fileOptions?.filename
+        ? { source: { media: data, filename: fileOptions.filename } }
+        : data;
+    const msg = await this.client.sendVoice({
+      chatId,
+      voice: voice as any,
+      caption: options?.caption,
+      duration: options?.duration,
+      replyMarkup: options?.reply_markup,
+    } as any);
+    return this.mapMessage(msg);
+  }
+
   async sendChatAction(chatId: number, action: ChatAction): Promise<void> {
     await this.client.sendChatAction({ chatId, action: action as any } as any);
   }
@@ -229,6 +265,32 @@ export class TgBotAdapter {
     } as any);
   }
 
+  /** Messages sent through inline mode are only known by their inline message id */
+  async editInlineMessageText(
+    inlineMessageId: string,
+    text: string,
+    options?: { reply_markup?: any },
+  ): Promise<void> {
+    await this.client.editMessageText({
+      inlineMessageId,
+      text,
+      replyMarkup: options?.reply_markup,
+    } as any);
+  }
+
+  /** Turns an inline text message into a photo; the photo has to be given by URL or file id */
+  async editInlineMessagePhoto(
+    inlineMessageId: string,
+    photoUrl: string,
+    options?: { caption?: string; reply_markup?: any },
+  ): Promise<void> {
+    await this.client.editMessageMedia({
+      inlineMessageId,
+      media: { type: 'photo', media: photoUrl, caption: options?.caption },
+      replyMarkup: options?.reply_markup,
+    } as any);
+  }
+
   async deleteMessage(chatId: number, messageId: number): Promise<void> {
     await this.client.deleteMessage(chatId, messageId);
   }
@@ -317,6 +379,11 @@ export class TgBotAdapter {
     };
   }
 
+  async getChatMember(chatId: number, userId: number): Promise<{ status: string }> {
+    const member = await this.client.getChatMember(chatId, userId);
+    return { status: member.status };
+  }
+
   async getWebHookInfo(): Promise<{ url?: string; allowed_updates?: string[] }> {
     const token = this.token;
     if (!token) {
@@ -401,6 +468,34 @@ export class TgBotAdapter {
     return Promise.resolve();
   }
 
+  // telegramsjs calls the sender "author" and uses camelCase fields
+  private mapUser(u: any): User {
+    return {
+      id: u.id,
+      is_bot: u.is_bot ?? u.isBot ?? false,
+      first_name: u.first_name ?? u.firstName ?? '',
+      last_name: u.last_name ?? u.lastName,
+      username: u.username,
+      language_code: u.language_code ?? u.languageCode,
+    };
+  }
+  private mapInlineQuery(q: any): TgInlineQuery {
+    return {
+      id: q.id,
+      from: this.mapUser(q.from ?? q.author),
+      query: q.query ?? '',
+      offset: q.offset ?? '',
+      chat_type: q.chat_type ?? q.chatType,
+    };
+  }
+  private mapChosenInlineResult(r: any): TgChosenInlineResult {
+    return {
+      result_id: r.result_id ?? r.resultId ?? r.id,
+      from: this.mapUser(r.from ?? r.author),
+      query: r.query ?? '',
+      inline_message_id: r.inline_message_id ?? r.inlineMessageId,
+    };
+  }
   private mapMessage(m: any): TgMessage {
     const msg: any = { ...m };
     msg.message_id = msg.message_id ?? msg.id ?? msg.messageId;
@@ -8,6 +8,8 @@ export type {
   TelegramChat,
   TelegramCallbackQuery,
   TelegramPreCheckoutQuery,
+  TelegramInlineQuery,
+  TelegramChosenInlineResult,
   TelegramUpdate,
   SendMessageOptions,
   SendPhotoOptions,
@@ -33,7 +35,12 @@ export interface CreateUserData {
   telegram_id: number;
   openai_thread_id: string;
   current_mode?: 'text' | 'photo' | 'video';
-  image_provider?: ImageProvider;
+  image_provider?: ImageProviderName;
+  text_model?: string | null;
+  personas?: Persona[];
+  active_persona_id?: string | null;
+  voice_replies?: boolean;
+  transcription_mode?: TranscriptionMode;
   text_req_left?: number;
   image_req_left?: number;
   video_req_left?: number;
@@ -46,7 +53,12 @@ export interface CreateUserData {
 
 export interface UpdateUserData {
   current_mode?: 'text' | 'photo' | 'video';
-  image_provider?: ImageProvider;
+  image_provider?: ImageProviderName;
+  text_model?: string | null;
+  personas?: Persona[];
+  active_persona_id?: string | null;
+  voice_replies?: boolean;
+  transcription_mode?: TranscriptionMode;
   text_req_left?: number;
   image_req_left?: number;
   video_req_left?: number;
@@ -61,7 +73,7 @@ export interface UpdateUserData {
 export interface UserStats {
   telegram_id: number;
   current_mode: 'text' | 'photo' | 'video';
-  image_provider?: ImageProvider;
+  image_provider?: ImageProviderName;
   text_req_left: number;
   image_req_left: number;
   video_req_left: number;
@@ -101,6 +113,13 @@ export interface GoApiImageRequest {
     | 'outpaint'
     | 'pan';
   image_url?: string;
+  webhook_config?: GoApiWebhookConfig;
+}
+
+/** GoAPI calls the endpoint when the task finishes, with the secret in x-webhook-secret */
+export interface GoApiWebhookConfig {
+  endpoint: string;
+  secret: string;
 }
 
 export interface GoApiImageResponse {
@@ -153,6 +172,8 @@ export interface ImageGenerationParams {
   process_mode: string;
   skip_prompt_check: boolean;
   service_mode: string;
+  /** Requested with --n; providers cap it at what they can return */
+  num_images?: number;
 }
 
 export interface VideoGenerationParams {
@@ -317,12 +338,180 @@ export interface OpenAIRun {
   metadata: Record<string, any>;
 }
 
+export type ConversationRole = 'system' | 'user' | 'assistant';
+
+export interface ConversationMessage {
+  role: ConversationRole;
+  content: string;
+  /**
+   * Images of a multimodal user turn. Stored messages keep Telegram file ids,
+   * messages sent to a provider carry URLs.
+   */
+  images?: string[];
+}
+
+export interface StoredConversationMessage extends ConversationMessage {
+  id: string;
+  created_at: Date;
+}
+
+export interface ConversationThread {
+  id: string;
+  telegram_id: number | null;
+  title: string | null;
+  summary: string | null;
+  summarized_until: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Passage of an uploaded document; label is what answers cite, e.g. "стр. 3"
+ */
+export interface DocumentChunk {
+  label: string;
+  text: string;
+}
+
+export interface ConversationDocument {
+  id: string;
+  thread_id: string;
+  filename: string;
+  chunks: DocumentChunk[];
+  char_count: number;
+  created_at: Date;
+}
+
+/**
+ * Which bot message answered a user prompt, so edits of the prompt can redo the answer
+ */
+export interface MessageReply {
+  chat_id: number;
+  /** Message that was answered: the prompt, or the previous answer for a continuation */
+  user_message_id: number;
+  /** Message holding the answer; null in photo/video mode where results arrive later */
+  bot_message_id: number | null;
+  /** Earlier parts of an answer split over several messages; bot_message_id is the last */
+  part_message_ids: number[];
+  mode: 'text' | 'photo' | 'video';
+  /** Latest text of the prompt, including edits */
+  prompt: string;
+  thread_id: string | null;
+  /** Turn of the thread that holds the prompt, replaced when the answer is redone */
+  conversation_message_id: string | null;
+  /** Author of the prompt, the only one who may redo, continue or rate the answer */
+  telegram_id: number | null;
+  /** Model that wrote the answer and its full text, kept for ratings; null outside text mode */
+  model: string | null;
+  response: string | null;
+  created_at: Date;
+}
+
+/**
+ * Feedback on an assistant answer; rating again replaces the previous vote
+ */
+export interface ReplyRating {
+  chat_id: number;
+  bot_message_id: number;
+  telegram_id: number;
+  rating: 1 | -1;
+  prompt: string;
+  response: string;
+  /** Text model that produced the answer */
+  model: string | null;
+  created_at: Date;
+}
+
+/** In a group, one conversation for everyone or a separate one per member */
+export type GroupThreadMode = 'shared' | 'personal';
+
+export interface GroupSettings {
+  chat_id: number;
+  thread_mode: GroupThreadMode;
+  /** Bumped by /groupreset so the group starts new conversations */
+  thread_epoch: number;
+  updated_at: Date;
+}
+
+export type GenerationJobKind = 'image' | 'video';
+
+/**
+ * Queue states of a generation job. failed and delivered are final; succeeded means the
+ * result is stored but not yet sent to the chat.
+ */
+export type GenerationJobStatus =
+  | 'queued'
+  | 'submitted'
+  | 'running'
+  | 'succeeded'
+  | 'failed'
+  | 'delivered';
+
+export interface GenerationJobResult {
+  urls: string[];
+  /** Text the provider returned along with the media */
+  description?: string;
+}
+
+/**
+ * Image or video generation that outlives the process: the worker resumes it after a restart
+ */
+export interface GenerationJob {
+  id: string;
+  kind: GenerationJobKind;
+  /** Provider name, e.g. goapi or fal-ai */
+  provider: string;
+  telegram_id: number;
+  chat_id: number;
+  status: GenerationJobStatus;
+  /** Task id at the provider, set once the job is submitted */
+  task_id: string | null;
+  /** Progress message edited while the job runs */
+  status_message_id: number | null;
+  /** Input of the flow that created the job, stored as JSON */
+  params: object;
+  result: GenerationJobResult | null;
+  error: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface Persona {
+  id: string;
+  name: string;
+  prompt: string;
+}
+
+export type LlmProviderName = 'openai' | 'openrouter' | 'local';
+
+export interface TextModelOption {
+  id: string;
+  label: string;
+  provider: LlmProviderName;
+  model: string;
+  /** Accepts images; other models only see the text of an image analysis */
+  vision: boolean;
+}
+
+export interface TranscriptionSegment {
+  start: number; // seconds
+  end: number;
+  text: string;
+}
+
 export interface TranscriptionResponse {
   text: string;
   language?: string;
   duration?: number;
+  segments?: TranscriptionSegment[];
 }
 
+/**
+ * What happens to voice, audio and video notes: answered in text mode,
+ * returned as a transcript, or returned as a transcript with an .srt file
+ */
+export type TranscriptionMode = 'answer' | 'text' | 'srt';
+
 export interface ImageAnalysisResponse {
   content: string;
   confidence?: number;
@@ -359,7 +548,19 @@ export type VideoResolution = '480p' | '720p' | '1080p';
 
 export type BotMode = 'text' | 'photo' | 'video';
 
-export type ImageProvider = 'goapi' | 'fal-ai';
+export type ImageProviderName = 'goapi' | 'fal-ai';
+
+export type PanDirection = 'left' | 'right' | 'up' | 'down';
+
+/** Part of an image redrawn by vary region */
+export type MaskRegion = 'top' | 'bottom' | 'left' | 'right' | 'center';
+
+/** Midjourney actions on an upscaled image; each gives a new grid */
+export type ImageTransform =
+  | { type: 'zoom_out'; ratio: '1.5' | '2' }
+  | { type: 'pan'; direction: PanDirection }
+  | { type: 'vary'; strength: 'strong' | 'subtle' }
+  | { type: 'vary_region'; region: MaskRegion; prompt: string };
 
 export type TaskStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'staged';
 
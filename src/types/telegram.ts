@@ -141,6 +141,22 @@ export interface TelegramCallbackQuery {
   game_short_name?: string;
 }
 
+export interface TelegramInlineQuery {
+  id: string;
+  from: TelegramUser;
+  query: string;
+  offset: string;
+  chat_type?: 'sender' | 'private' | 'group' | 'supergroup' | 'channel';
+}
+
+// Sent only when inline feedback is enabled with @BotFather
+export interface TelegramChosenInlineResult {
+  result_id: string;
+  from: TelegramUser;
+  query: string;
+  inline_message_id?: string;
+}
+
 // Enhanced pre-checkout query type
 export interface TelegramPreCheckoutQuery {
   id: string;
@@ -212,8 +228,8 @@ export interface TelegramUpdate {
   edited_message?: TelegramMessage;
   channel_post?: TelegramMessage;
   edited_channel_post?: TelegramMessage;
-  inline_query?: Record<string, unknown>; // InlineQuery type
-  chosen_inline_result?: Record<string, unknown>; // ChosenInlineResult type
+  inline_query?: TelegramInlineQuery;
+  chosen_inline_result?: TelegramChosenInlineResult;
   callback_query?: TelegramCallbackQuery;
   shipping_query?: Record<string, unknown>; // ShippingQuery type
   pre_checkout_query?: TelegramPreCheckoutQuery;
@@ -0,0 +1,164 @@
+import { inflateRawSync } from 'node:zlib';
+import { extractText, getDocumentProxy } from 'unpdf';
+
+export type DocumentFormat = 'pdf' | 'docx' | 'txt' | 'csv' | 'md';
+
+/**
+ * Part of a document with its own citation label (page or heading).
+ * Plain text has no structure, so its sections are unlabelled.
+ */
+export interface DocumentSection {
+  label: string | null;
+  text: string;
+}
+
+const formatsByExtension: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  txt: 'txt',
+  text: 'txt',
+  log: 'txt',
+  csv: 'csv',
+  md: 'md',
+  markdown: 'md',
+};
+
+const formatsByMimeType: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/plain': 'txt',
+  'text/csv': 'csv',
+  'text/markdown': 'md',
+};
+
+export function detectDocumentFormat(filename?: string, mimeType?: string): DocumentFormat | null {
+  const extension = filename?.match(/\.(\w+)$/)?.[1]?.toLowerCase();
+  return (
+    (extension && formatsByExtension[extension]) ||
+    (mimeType && formatsByMimeType[mimeType]) ||
+    null
+  );
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([\da-f]+);/gi, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Read one file from a ZIP archive (DOCX is a ZIP of XML files).
+ * Only stored and deflated entries are supported, which is all Word produces.
+ */
+export function readZipEntry(archive: Buffer, name: string): Buffer | null {
+  // End of central directory record: at least 22 bytes, followed by an optional comment
+  let eocd = archive.length - 22;
+  while (eocd >= 0 && archive.readUInt32LE(eocd) !== 0x06054b50) eocd--;
+  if (eocd < 0) return null;
+
+  const entries = archive.readUInt16LE(eocd + 10);
+  let offset = archive.readUInt32LE(eocd + 16);
+  for (let i = 0; i < entries && archive.readUInt32LE(offset) === 0x02014b50; i++) {
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localHeader = archive.readUInt32LE(offset + 42);
+    const entryName = archive.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+    if (entryName === name) {
+      const dataStart =
+        localHeader +
+        30 +
+        archive.readUInt16LE(localHeader + 26) +
+        archive.readUInt16LE(localHeader + 28);
+      const data = archive.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return inflateRawSync(data);
+      return null;
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+}
+
+/**
+ * DOCX paragraphs, split into sections at headings
+ */
+function extractDocx(buffer: Buffer): DocumentSection[] {
+  const xml = readZipEntry(buffer, 'word/document.xml')?.toString('utf-8');
+  if (!xml) throw new Error('word/document.xml not found');
+
+  const sections: DocumentSection[] = [];
+  let current: DocumentSection = { label: null, text: '' };
+  for (const [paragraph] of xml.matchAll(/<w:p[ >][\s\S]*?<\/w:p>/g)) {
+    const runs = paragraph.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(tab|br)\/>/g);
+    const text = decodeXmlEntities(
+      [...runs].map(([, run, tag]) => run ?? (tag === 'tab' ? '\t' : '\n')).join(''),
+    ).trim();
+    if (!text) continue;
+
+    const style = paragraph.match(/<w:pStyle w:val="([^"]+)"/)?.[1] ?? '';
+    if (/^(heading|title)/i.test(style) || paragraph.includes('<w:outlineLvl')) {
+      if (current.text) sections.push(current);
+      current = { label: `раздел «${text}»`, text: `${text}\n` };
+    } else {
+      current.text += `${text}\n`;
+    }
+  }
+  if (current.text) sections.push(current);
+  return sections;
+}
+
+/**
+ * Markdown split into sections at headings
+ */
+function extractMarkdown(text: string): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+  let current: DocumentSection = { label: null, text: '' };
+  for (const line of text.split('\n')) {
+    const heading = line.match(/^\s{0,3}#{1,6}\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      if (current.text.trim()) sections.push(current);
+      current = { label: `раздел «${heading[1]}»`, text: '' };
+    }
+    current.text += `${line}\n`;
+  }
+  if (current.text.trim()) sections.push(current);
+  return sections;
+}
+
+async function extractPdf(buffer: Buffer): Promise<DocumentSection[]> {
+  const pdf = await getDocumentProxy(new Uint8Array(buffer));
+  const { text } = await extractText(pdf, { mergePages: false });
+  return text.map((page, i) => ({ label: `стр. ${i + 1}`, text: page }));
+}
+
+/**
+ * Extract the text of an uploaded document. Sections without text are dropped,
+ * so a scanned PDF without a text layer yields an empty list.
+ */
+export async function extractDocumentText(
+  buffer: Buffer,
+  format: DocumentFormat,
+): Promise<DocumentSection[]> {
+  let sections: DocumentSection[];
+  if (format === 'pdf') {
+    sections = await extractPdf(buffer);
+  } else if (format === 'docx') {
+    sections = extractDocx(buffer);
+  } else if (format === 'md') {
+    sections = extractMarkdown(buffer.toString('utf-8'));
+  } else {
+    sections = [{ label: null, text: buffer.toString('utf-8') }];
+  }
+  return sections
+    .map(section => ({ ...section, text: section.text.replace(/\r\n?/g, '\n').trim() }))
+    .filter(section => section.text);
+}
@@ -0,0 +1,24 @@
+import type { TranscriptionSegment } from '@/types/index.js';
+
+function formatTimestamp(seconds: number): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)},${pad(ms, 3)}`;
+}
+
+/**
+ * Render transcript segments as a SubRip (.srt) document
+ */
+export function formatSrt(segments: TranscriptionSegment[]): string {
+  return segments
+    .filter(segment => segment.text.trim())
+    .map(
+      (segment, i) =>
+        `${i + 1}\n${formatTimestamp(segment.start)} --> ${formatTimestamp(segment.end)}\n${segment.text.trim()}\n`,
+    )
+    .join('\n');
+}
@@ -0,0 +1,176 @@
+/**
+ * Convert CommonMark-ish model output to the HTML subset Telegram accepts
+ * (https://core.telegram.org/bots/api#html-style). Anything that does not
+ * form a balanced construct is left as escaped literal text.
+ */
+
+const PLACEHOLDER = '\u0000';
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeAttribute(text: string): string {
+  return escapeHtml(text).replace(/"/g, '&quot;');
+}
+
+/**
+ * Inline formatting: code spans, links, bold, italic, strikethrough
+ */
+function formatInline(text: string): string {
+  const tokens: string[] = [];
+  const protect = (html: string) => `${PLACEHOLDER}${tokens.push(html) - 1}${PLACEHOLDER}`;
+
+  let result = text
+    .replace(/`([^`\n]+)`/g, (_, code: string) => protect(`<code>${escapeHtml(code)}</code>`))
+    .replace(/\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)/g, (_, label: string, url: string) =>
+      protect(`<a href="${escapeAttribute(url)}">${formatEmphasis(escapeHtml(label))}</a>`),
+    );
+
+  result = formatEmphasis(escapeHtml(result));
+  return result.replace(
+    new RegExp(`${PLACEHOLDER}(\\d+)${PLACEHOLDER}`, 'g'),
+    (_, index: string) => tokens[Number(index)]!,
+  );
+}
+
+function formatEmphasis(html: string): string {
+  return (
+    html
+      .replace(/\*\*(?=\S)([^\n]*?\S)\*\*/g, '<b>$1</b>')
+      .replace(/__(?=\S)([^\n]*?\S)__/g, '<b>$1</b>')
+      .replace(/~~(?=\S)([^\n]*?\S)~~/g, '<s>$1</s>')
+      // Single markers only count at word boundaries so snake_case and 2*3*4 stay literal
+      .replace(/(^|[^\w*])\*(?=\S)([^*\n]*?\S)\*(?![\w*])/g, '$1<i>$2</i>')
+      .replace(/(^|[^\w])_(?=\S)([^_\n]*?\S)_(?!\w)/g, '$1<i>$2</i>')
+  );
+}
+
+function stripInline(text: string): string {
+  return text
+    .replace(/`([^`\n]+)`/g, '$1')
+    .replace(/\*\*([^\n]+?)\*\*/g, '$1')
+    .replace(/__([^\n]+?)__/g, '$1');
+}
+
+function isTableSeparator(line: string): boolean {
+  return /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(line);
+}
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split('|')
+    .map(cell => stripInline(cell.trim()));
+}
+
+/**
+ * Telegram has no tables, so they are rendered as aligned monospace text
+ */
+function renderTable(lines: string[]): string {
+  const rows = lines.filter(line => !isTableSeparator(line)).map(splitTableRow);
+  const columns = Math.max(...rows.map(row => row.length));
+  const widths = Array.from({ length: columns }, (_, i) =>
+    Math.max(...rows.map(row => (row[i] ?? '').length)),
+  );
+  const body = rows
+    .map(row => widths.map((width, i) => (row[i] ?? '').padEnd(width)).join(' │ '))
+    .map(row => row.trimEnd());
+  body.splice(1, 0, widths.map(width => '─'.repeat(width)).join('─┼─'));
+  return `<pre>${escapeHtml(body.join('\n'))}</pre>`;
+}
+
+function renderCodeBlock(language: string, code: string): string {
+  const escaped = escapeHtml(code.replace(/\n$/, ''));
+  return language
+    ? `<pre><code class="language-${escapeAttribute(language)}">${escaped}</code></pre>`
+    : `<pre>${escaped}</pre>`;
+}
+
+function renderBlocks(text: string): string {
+  const lines = text.split('\n');
+  const output: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+
+    if (line.trim().startsWith('|') && isTableSeparator(lines[i + 1] ?? '')) {
+      const table: string[] = [];
+      while (i < lines.length && lines[i]!.trim().startsWith('|')) {
+        table.push(lines[i]!);
+        i++;
+      }
+      i--;
+      output.push(renderTable(table));
+      continue;
+    }
+
+    if (/^\s*>/.test(line)) {
+      const quote: string[] = [];
+      while (i < lines.length && /^\s*>/.test(lines[i]!)) {
+        quote.push(lines[i]!.replace(/^\s*>\s?/, ''));
+        i++;
+      }
+      i--;
+      output.push(`<blockquote>${quote.map(formatInline).join('\n')}</blockquote>`);
+      continue;
+    }
+
+    const heading = line.match(/^\s{0,3}#{1,6}\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      output.push(`<b>${formatInline(heading[1]!)}</b>`);
+      continue;
+    }
+
+    if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      output.push('──────────');
+      continue;
+    }
+
+    const bullet = line.match(/^(\s*)[-*+]\s+(.*)$/);
+    if (bullet) {
+      output.push(`${bullet[1]}• ${formatInline(bullet[2]!)}`);
+      continue;
+    }
+
+    output.push(formatInline(line));
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Drop Markdown syntax, e.g. before passing model output to text-to-speech
+ */
+export function markdownToPlainText(markdown: string): string {
+  return markdown
+    .replace(/^```.*$/gm, '')
+    .replace(/`([^`\n]+)`/g, '$1')
+    .replace(/\[([^\]\n]+)\]\([^)\s]+\)/g, '$1')
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+    .replace(/^\s*>\s?/gm, '')
+    .replace(/^(\s*)[-*+]\s+/gm, '$1')
+    .replace(/(\*\*|__|~~)(?=\S)([^\n]*?\S)\1/g, '$2')
+    .replace(/(^|[^\w*])\*(?=\S)([^*\n]*?\S)\*(?![\w*])/g, '$1$2')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function markdownToTelegramHtml(markdown: string): string {
+  const parts: string[] = [];
+  // An unterminated fence (e.g. a reply cut by the token limit) runs to the end of the text
+  const fence = /^```[ \t]*([\w+#.-]*)[^\n]*\n([\s\S]*?)(?:^```[ \t]*$|(?![\s\S]))/gm;
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = fence.exec(markdown)) !== null) {
+    parts.push(renderBlocks(markdown.slice(last, match.index)));
+    parts.push(renderCodeBlock(match[1] ?? '', match[2] ?? ''));
+    last = fence.lastIndex;
+  }
+  parts.push(renderBlocks(markdown.slice(last)));
+
+  return parts.join('').trim();
+}
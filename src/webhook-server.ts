@@ -7,6 +7,7 @@
 import 'dotenv/config';
 import { startBotWebhook } from './tg-bot.js';
 import { startWebhook } from './handlers/webhook-handler.js';
+import { startJobQueue } from './flows/jobs.js';
 
 interface ServerConfig {
   botToken: string;
@@ -45,6 +46,7 @@ async function startServer(): Promise<void> {
 
     // Start webhook server (no ngrok)
     const webhookHandler = await startWebhook(bot);
+    await startJobQueue(bot);
 
     // Display server info
     console.log('\n🎉 Webhook server started successfully!');
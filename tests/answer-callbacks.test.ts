@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import { InMemoryReplyStore, setReplyStore } from '../src/handlers/reply-store.js';
+import { InMemoryRatingStore, setRatingStore } from '../src/handlers/rating-store.js';
+
+vi.mock('../src/utils/prisma.js', () => ({ prisma: {} }));
+vi.mock('../src/utils/logger.js', () => ({ logInteraction: vi.fn() }));
+vi.mock('../src/findOrCreate.js', () => ({ findOrCreate: vi.fn() }));
+vi.mock('../src/handlers/supabase-handler.js', () => ({
+  findUser: vi.fn().mockResolvedValue({ text_model: 'deepseek' }),
+  updateUser: vi.fn(),
+}));
+
+const answer = {
+  chat_id: 100,
+  user_message_id: 10,
+  bot_message_id: 12,
+  part_message_ids: [11],
+  mode: 'text' as const,
+  prompt: 'Расскажи про Рим',
+  thread_id: 't1',
+  conversation_message_id: 'm1',
+  telegram_id: 7,
+  model: 'gpt-5-mini',
+  response: 'Первая часть.\n\nВторая часть.',
+};
+
+const rateQuery = (fromId: number) =>
+  ({
+    id: 'cb',
+    from: { id: fromId },
+    message: { message_id: 12, date: 0, chat: { id: 100, type: 'group' }, text: 'Вторая часть.' },
+    data: JSON.stringify({ action: 'answer_rate', m: 10, v: 1 }),
+  }) as any;
+
+describe('answer buttons', () => {
+  const bot = { answerCallbackQuery: vi.fn() } as any;
+  let ratings: InMemoryRatingStore;
+
+  beforeAll(() => {
+    vi.stubEnv('GOAPI_API_KEY', 'test-key');
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+  });
+
+  beforeEach(async () => {
+    bot.answerCallbackQuery.mockReset();
+    const replies = new InMemoryReplyStore();
+    await replies.saveReply(answer);
+    setReplyStore(replies);
+    ratings = new InMemoryRatingStore();
+    setRatingStore(ratings);
+  });
+
+  it('only lets the author of the prompt rate the answer', async () => {
+    const { handleCallbackQuery } = await import('../src/flows/callbacks.js');
+
+    await handleCallbackQuery(bot, rateQuery(8));
+
+    expect(await ratings.listRatings(100)).toEqual([]);
+    expect(bot.answerCallbackQuery).toHaveBeenCalledWith(
+      'cb',
+      expect.objectContaining({ show_alert: true }),
+    );
+  });
+
+  it('rates the full answer with the model that wrote it', async () => {
+    const { handleCallbackQuery } = await import('../src/flows/callbacks.js');
+
+    await handleCallbackQuery(bot, rateQuery(7));
+
+    expect(await ratings.listRatings(100)).toMatchObject([
+      { telegram_id: 7, rating: 1, response: answer.response, model: 'gpt-5-mini' },
+    ]);
+  });
+});
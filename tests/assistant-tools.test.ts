@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../src/utils/prisma.js', () => ({ prisma: {} }));
+vi.mock('../src/handlers/supabase-handler.js', () => ({ getUserStats: vi.fn() }));
+vi.mock('../src/handlers/fal-video-handler.js', () => ({ isFalVideoConfigured: () => true }));
+
+const provider = {
+  name: 'fal-ai',
+  label: 'Nano Banana',
+  isConfigured: () => true,
+  capabilities: { aspectRatios: ['1:1', '16:9'] },
+};
+vi.mock('../src/handlers/image-provider.js', () => ({ getImageProvider: () => provider }));
+
+const queue = { hasUnfinishedJob: vi.fn(), enqueue: vi.fn() };
+vi.mock('../src/handlers/job-queue.js', () => ({ getJobQueue: () => queue }));
+
+const handleVideoGeneration = vi.fn();
+vi.mock('../src/flows/video.js', () => ({ handleVideoGeneration }));
+
+const context = { bot: {}, msg: { chat: { id: 70 } }, user: {}, userId: 7 } as any;
+
+describe('assistant tools', () => {
+  beforeEach(() => {
+    queue.hasUnfinishedJob.mockReset().mockResolvedValue(false);
+    queue.enqueue.mockReset();
+    handleVideoGeneration.mockReset();
+  });
+
+  it('refuses aspect ratios the image provider does not support', async () => {
+    const { assistantTools } = await import('../src/flows/assistant-tools.js');
+    const tool = assistantTools.get('generate_image')!;
+
+    await expect(tool.execute({ prompt: 'a cat', aspect_ratio: '4:3' }, context)).rejects.toThrow(
+      'use one of 1:1, 16:9',
+    );
+    expect(queue.enqueue).not.toHaveBeenCalled();
+
+    await tool.execute({ prompt: 'a cat', aspect_ratio: '16:9' }, context);
+    expect(queue.enqueue).toHaveBeenCalledWith(
+      expect.objectContaining({
+        params: expect.objectContaining({ request: { prompt: 'a cat', aspectRatio: '16:9' } }),
+      }),
+    );
+  });
+
+  it('reports a video that was not started', async () => {
+    const { assistantTools } = await import('../src/flows/assistant-tools.js');
+    const tool = assistantTools.get('start_video')!;
+
+    handleVideoGeneration.mockResolvedValueOnce(false);
+    await expect(tool.execute({ prompt: 'a cat' }, context)).rejects.toThrow('refused');
+
+    handleVideoGeneration.mockResolvedValueOnce(true);
+    await expect(tool.execute({ prompt: 'a cat' }, context)).resolves.toContain('started');
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import type { ConversationRole, StoredConversationMessage } from '../src/types/index.js';
+import {
+  buildContextWindow,
+  countMessageTokens,
+  estimateTokens,
+  expireImages,
+  truncateToTokens,
+} from '../src/handlers/context-manager.js';
+
+const makeHistory = (turns: Array<[ConversationRole, string]>): StoredConversationMessage[] =>
+  turns.map(([role, content], i) => ({
+    id: `m${i}`,
+    role,
+    content,
+    created_at: new Date(2024, 0, 1, 0, i),
+  }));
+
+const systemAndTurns = (count: number, content = 'short message') =>
+  makeHistory([
+    ['system', 'You are a helpful assistant.'],
+    ...Array.from({ length: count }, (_, i): [ConversationRole, string] => [
+      i % 2 === 0 ? 'user' : 'assistant',
+      `${content} ${i}`,
+    ]),
+  ]);
+
+describe('estimateTokens', () => {
+  it('counts Cyrillic denser than Latin text', () => {
+    expect(estimateTokens('abcdefgh')).toBe(2);
+    expect(estimateTokens('абвгдежз')).toBe(4);
+  });
+});
+
+describe('buildContextWindow', () => {
+  it('keeps the whole history of a short chat instead of the last 9 messages', () => {
+    const history = systemAndTurns(20);
+    const window = buildContextWindow(history, null, { maxTokens: 10000 });
+
+    expect(window.messages).toHaveLength(21);
+    expect(window.overflow).toHaveLength(0);
+  });
+
+  it('pins the system prompt and keeps the most recent turns within the budget', () => {
+    const history = systemAndTurns(20, 'x'.repeat(400));
+    const perTurn = countMessageTokens(history[1]!);
+    const systemTokens = countMessageTokens(history[0]!);
+    const window = buildContextWindow(history, null, { maxTokens: systemTokens + perTurn * 5 });
+
+    expect(window.messages[0]).toEqual({ role: 'system', content: history[0]!.content });
+    expect(window.messages).toHaveLength(6);
+    expect(window.messages[5]!.content).toBe(history[20]!.content);
+    expect(window.overflow.map(m => m.id)).toEqual(history.slice(1, 16).map(m => m.id));
+  });
+
+  it('places the rolling summary right after the system prompt', () => {
+    const history = systemAndTurns(4);
+    const window = buildContextWindow(history, 'User is called Anna.', { maxTokens: 10000 });
+
+    expect(window.messages[1]!.role).toBe('system');
+    expect(window.messages[1]!.content).toContain('User is called Anna.');
+    expect(window.messages).toHaveLength(6);
+  });
+
+  it('truncates a single paste that exceeds the budget instead of dropping it', () => {
+    const history = makeHistory([
+      ['system', 'prompt'],
+      ['user', 'earlier question'],
+      ['user', 'y'.repeat(40000)],
+    ]);
+    const window = buildContextWindow(history, null, { maxTokens: 1000 });
+
+    expect(window.messages).toHaveLength(2);
+    expect(window.messages[1]!.content.length).toBeLessThan(40000);
+    expect(window.tokens).toBeLessThanOrEqual(1000);
+    expect(window.overflow.map(m => m.id)).toEqual(['m1']);
+  });
+});
+
+describe('truncateToTokens', () => {
+  it('returns text unchanged when it fits', () => {
+    expect(truncateToTokens('hello', 10)).toBe('hello');
+  });
+});
+
+describe('expireImages', () => {
+  it('drops images once more than maxTurns user messages follow them', () => {
+    const history = makeHistory([
+      ['system', 'prompt'],
+      ['user', '[📷 Изображение] old'],
+      ['assistant', 'a car'],
+      ['user', '[📷 Изображение] recent'],
+      ['assistant', 'a cat'],
+      ['user', 'what colour?'],
+      ['assistant', 'red'],
+      ['user', 'and the cat?'],
+    ]);
+    history[1]!.images = ['file_old'];
+    history[3]!.images = ['file_recent'];
+
+    const result = expireImages(history, 2);
+
+    expect(result.map(m => m.images)).toEqual([
+      undefined,
+      undefined,
+      undefined,
+      ['file_recent'],
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+    ]);
+    expect(history[1]!.images).toEqual(['file_old']);
+  });
+
+  it('counts attached images against the budget and keeps them in the window', () => {
+    const [image] = makeHistory([['user', 'look']]);
+    image!.images = ['file_1', 'file_2'];
+    expect(countMessageTokens(image!)).toBeGreaterThan(1600);
+
+    const window = buildContextWindow([image!], null, { maxTokens: 2000 });
+    expect(window.messages).toEqual([
+      { role: 'user', content: 'look', images: ['file_1', 'file_2'] },
+    ]);
+  });
+});
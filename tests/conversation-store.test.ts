@@ -0,0 +1,268 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../src/utils/prisma.js', () => ({ prisma: {} }));
+
+const createCompletion = vi.fn().mockResolvedValue({
+  choices: [{ message: { content: 'Привет!' } }],
+});
+
+vi.mock('openai', () => ({
+  default: class {
+    chat = { completions: { create: createCompletion } };
+  },
+}));
+
+describe('InMemoryConversationStore', () => {
+  it('seeds new threads with the system prompt and appends messages in order', async () => {
+    const { InMemoryConversationStore } = await import('../src/handlers/conversation-store.js');
+    const store = new InMemoryConversationStore();
+
+    await store.createThread('t1', 'system prompt', 42);
+    await store.addMessage('t1', { role: 'user', content: 'hi' });
+
+    const thread = await store.getThread('t1');
+    expect(thread?.telegram_id).toBe(42);
+    const messages = await store.getMessages('t1');
+    expect(messages?.map(m => m.role)).toEqual(['system', 'user']);
+    expect(await store.getMessages('missing')).toBeNull();
+  });
+
+  it('lists threads of a user by last activity', async () => {
+    const { InMemoryConversationStore } = await import('../src/handlers/conversation-store.js');
+    const store = new InMemoryConversationStore();
+
+    await store.createThread('old', 'prompt', 7);
+    await store.createThread('other-user', 'prompt', 8);
+    await store.createThread('new', 'prompt', 7);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await store.addMessage('old', { role: 'user', content: 'bump' });
+
+    const threads = await store.listThreads(7, 10);
+    expect(threads.map(t => t.id)).toEqual(['old', 'new']);
+  });
+
+  it('rejects messages for unknown threads', async () => {
+    const { InMemoryConversationStore } = await import('../src/handlers/conversation-store.js');
+    const store = new InMemoryConversationStore();
+    await expect(store.addMessage('missing', { role: 'user', content: 'hi' })).rejects.toThrow();
+  });
+
+  it('rewrites the prompt message and drops the answer after it', async () => {
+    const { InMemoryConversationStore } = await import('../src/handlers/conversation-store.js');
+    const store = new InMemoryConversationStore();
+
+    await store.createThread('t1', 'prompt', 1);
+    await store.addMessage('t1', { role: 'user', content: 'first' });
+    await store.addMessage('t1', { role: 'assistant', content: 'answer 1' });
+    const typo = await store.addMessage('t1', {
+      role: 'user',
+      content: 'typo',
+      images: ['file-1'],
+    });
+    await store.addMessage('t1', { role: 'assistant', content: 'answer 2' });
+
+    expect(await store.replaceUserMessage('t1', typo.id, 'fixed')).toBe(true);
+    const messages = await store.getMessages('t1');
+    expect(messages?.map(m => m.content)).toEqual(['prompt', 'first', 'answer 1', 'fixed']);
+    expect(messages?.[3]?.images).toEqual(['file-1']);
+    expect(await store.replaceUserMessage('missing', typo.id, 'x')).toBe(false);
+  });
+
+  it('keeps the thread when a later turn follows the prompt', async () => {
+    const { InMemoryConversationStore } = await import('../src/handlers/conversation-store.js');
+    const store = new InMemoryConversationStore();
+
+    await store.createThread('t1', 'prompt', 1);
+    const question = await store.addMessage('t1', { role: 'user', content: 'question' });
+    await store.addMessage('t1', { role: 'assistant', content: 'answer' });
+    await store.addMessage('t1', { role: 'user', content: '[📷 Изображение]', images: ['file-1'] });
+    await store.addMessage('t1', { role: 'assistant', content: 'analysis' });
+
+    expect(await store.replaceUserMessage('t1', question.id, 'edited')).toBe(false);
+    expect((await store.getMessages('t1'))?.map(m => m.content)).toEqual([
+      'prompt',
+      'question',
+      'answer',
+      '[📷 Изображение]',
+      'analysis',
+    ]);
+  });
+});
+
+describe('resolveStoreBackend', () => {
+  it('prefers CONVERSATION_STORE and falls back to postgres only with a database', async () => {
+    const { resolveStoreBackend } = await import('../src/handlers/conversation-store.js');
+
+    vi.stubEnv('CONVERSATION_STORE', 'memory');
+    vi.stubEnv('DATABASE_URL', 'postgres://db');
+    expect(resolveStoreBackend()).toBe('memory');
+
+    vi.stubEnv('CONVERSATION_STORE', undefined);
+    expect(resolveStoreBackend()).toBe('postgres');
+
+    vi.stubEnv('DATABASE_URL', undefined);
+    expect(resolveStoreBackend()).toBe('memory');
+    vi.unstubAllEnvs();
+  });
+});
+
+describe('openai-handler conversation persistence', () => {
+  it('recreates unknown threads and stores the assistant reply', async () => {
+    const { InMemoryConversationStore, setConversationStore } = await import(
+      '../src/handlers/conversation-store.js'
+    );
+    const store = new InMemoryConversationStore();
+    setConversationStore(store);
+    const { createMessage, getAssistantResponse } = await import(
+      '../src/handlers/openai-handler.js'
+    );
+
+    await createMessage('thread_stale', 'hello');
+    const reply = await getAssistantResponse('thread_stale');
+
+    expect(reply).toBe('Привет!');
+    const messages = await store.getMessages('thread_stale');
+    expect(messages?.map(m => m.role)).toEqual(['system', 'user', 'assistant']);
+  });
+
+  it('sends the persona prompt instead of the stored one', async () => {
+    vi.resetModules();
+    const { InMemoryConversationStore, setConversationStore } = await import(
+      '../src/handlers/conversation-store.js'
+    );
+    setConversationStore(new InMemoryConversationStore());
+    const { createMessage, getAssistantResponse } = await import(
+      '../src/handlers/openai-handler.js'
+    );
+    createCompletion.mockClear();
+
+    await createMessage('thread_persona', 'hello');
+    await getAssistantResponse('thread_persona', { systemPrompt: 'Answer as a lawyer' });
+
+    const { messages } = createCompletion.mock.calls[0]![0];
+    expect(messages[0]).toEqual({ role: 'system', content: 'Answer as a lawyer' });
+  });
+
+  it('puts turn context right before the question without storing it', async () => {
+    vi.resetModules();
+    const { InMemoryConversationStore, setConversationStore } = await import(
+      '../src/handlers/conversation-store.js'
+    );
+    const store = new InMemoryConversationStore();
+    setConversationStore(store);
+    const { createMessage, getAssistantResponse } = await import(
+      '../src/handlers/openai-handler.js'
+    );
+    createCompletion.mockClear();
+
+    await createMessage('thread_context', 'What is the deadline?');
+    await getAssistantResponse('thread_context', { context: '[contract.pdf, стр. 2]\nDue May 1' });
+
+    const { messages } = createCompletion.mock.calls[0]![0];
+    expect(messages.slice(-2)).toEqual([
+      { role: 'system', content: '[contract.pdf, стр. 2]\nDue May 1' },
+      { role: 'user', content: 'What is the deadline?' },
+    ]);
+    const stored = await store.getMessages('thread_context');
+    expect(stored?.map(m => m.role)).toEqual(['system', 'user', 'assistant']);
+  });
+
+  it('sends images of recent turns as URLs and drops expired ones', async () => {
+    vi.resetModules();
+    vi.stubEnv('IMAGE_CONTEXT_TURNS', '1');
+    const { InMemoryConversationStore, setConversationStore } = await import(
+      '../src/handlers/conversation-store.js'
+    );
+    setConversationStore(new InMemoryConversationStore());
+    const { addImageAnalysisTurn, createMessage, getAssistantResponse } = await import(
+      '../src/handlers/openai-handler.js'
+    );
+    const resolveImage = (fileId: string) => Promise.resolve(`https://files.test/${fileId}`);
+    createCompletion.mockClear();
+
+    await addImageAnalysisTurn('thread_images', ['file_1'], 'Что это?', 'Красная машина', 7);
+    await createMessage('thread_images', 'Какого она цвета?');
+    await getAssistantResponse('thread_images', { resolveImage });
+    await createMessage('thread_images', 'А марка?');
+    await getAssistantResponse('thread_images', { resolveImage });
+    vi.unstubAllEnvs();
+
+    const [first, second] = createCompletion.mock.calls.map(call => call[0].messages);
+    expect(first[1]).toEqual({
+      role: 'user',
+      content: [
+        { type: 'text', text: '[📷 Изображение] Что это?' },
+        { type: 'image_url', image_url: { url: 'https://files.test/file_1' } },
+      ],
+    });
+    expect(second[1]).toEqual({ role: 'user', content: '[📷 Изображение] Что это?' });
+  });
+
+  it('titles a thread after its first message', async () => {
+    vi.resetModules();
+    const { InMemoryConversationStore, setConversationStore } = await import(
+      '../src/handlers/conversation-store.js'
+    );
+    const store = new InMemoryConversationStore();
+    setConversationStore(store);
+    const { createMessage } = await import('../src/handlers/openai-handler.js');
+
+    await createMessage('thread_titled', 'Как приготовить борщ\nподробно, пожалуйста', 7);
+    await createMessage('thread_titled', 'А без свёклы?', 7);
+
+    const thread = await store.getThread('thread_titled');
+    expect(thread?.title).toBe('Как приготовить борщ');
+    expect(thread?.telegram_id).toBe(7);
+  });
+
+  it('rejects instead of answering with an error text when the model fails', async () => {
+    vi.resetModules();
+    const { InMemoryConversationStore, setConversationStore } = await import(
+      '../src/handlers/conversation-store.js'
+    );
+    const store = new InMemoryConversationStore();
+    setConversationStore(store);
+    const { createMessage, getAssistantResponse } = await import(
+      '../src/handlers/openai-handler.js'
+    );
+    createCompletion.mockRejectedValueOnce(new Error('rate limited'));
+
+    await createMessage('thread_failed', 'hello');
+
+    await expect(getAssistantResponse('thread_failed')).rejects.toThrow('rate limited');
+    const messages = await store.getMessages('thread_failed');
+    expect(messages?.map(m => m.role)).toEqual(['system', 'user']);
+  });
+
+  it('rejects a stream that fails before any text arrives', async () => {
+    vi.resetModules();
+    const { InMemoryConversationStore, setConversationStore } = await import(
+      '../src/handlers/conversation-store.js'
+    );
+    setConversationStore(new InMemoryConversationStore());
+    const { setLlmProvider } = await import('../src/handlers/llm-provider.js');
+    setLlmProvider({
+      name: 'openai',
+      isConfigured: () => true,
+      complete: vi.fn(),
+      completeWithTools: vi.fn(),
+      streamWithTools: vi.fn(),
+      stream: () => ({
+        [Symbol.asyncIterator]: () => ({
+          next: () => Promise.reject(new Error('connection reset')),
+        }),
+      }),
+    });
+    const { createMessage, streamAssistantResponse } = await import(
+      '../src/handlers/openai-handler.js'
+    );
+    const onUpdate = vi.fn();
+
+    await createMessage('thread_stream_failed', 'hello');
+
+    await expect(streamAssistantResponse('thread_stream_failed', onUpdate)).rejects.toThrow(
+      'connection reset',
+    );
+    expect(onUpdate).not.toHaveBeenCalled();
+  });
+});
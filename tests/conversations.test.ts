@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../src/utils/prisma.js', () => ({ prisma: {} }));
+vi.mock('../src/handlers/supabase-handler.js', () => ({ updateUser: vi.fn() }));
+vi.mock('../src/handlers/goapi-handler.js', () => ({ isValidAspectRatio: () => true }));
+vi.mock('openai', () => ({ default: class {} }));
+
+const thread = {
+  id: 't1',
+  telegram_id: 7,
+  title: 'Борщ',
+  summary: null,
+  summarized_until: null,
+  created_at: new Date('2026-10-01T10:00:00Z'),
+  updated_at: new Date('2026-10-02T10:00:00Z'),
+};
+
+const messages = [
+  { id: 'm0', role: 'system' as const, content: 'prompt', created_at: thread.created_at },
+  { id: 'm1', role: 'user' as const, content: 'Как сварить борщ?', created_at: thread.created_at },
+  { id: 'm2', role: 'assistant' as const, content: 'Нужна свёкла.', created_at: thread.updated_at },
+];
+
+describe('conversation export', () => {
+  it('renders Markdown without the system prompt', async () => {
+    const { formatConversationMarkdown } = await import('../src/flows/conversations.js');
+    const markdown = formatConversationMarkdown(thread, messages);
+
+    expect(markdown.startsWith('# Борщ')).toBe(true);
+    expect(markdown).toContain('Как сварить борщ?');
+    expect(markdown).toContain('Нужна свёкла.');
+    expect(markdown).not.toContain('prompt');
+  });
+
+  it('renders JSON with user and assistant turns', async () => {
+    const { formatConversationJson } = await import('../src/flows/conversations.js');
+    const json = JSON.parse(formatConversationJson(thread, messages));
+
+    expect(json.title).toBe('Борщ');
+    expect(json.messages.map((m: { role: string }) => m.role)).toEqual(['user', 'assistant']);
+  });
+});
+
+describe('generateThreadTitle', () => {
+  it('cuts long first lines at a word boundary', async () => {
+    const { generateThreadTitle } = await import('../src/handlers/openai-handler.js');
+    const title = generateThreadTitle(
+      'Помоги спланировать путешествие по Италии на две недели в октябре',
+    );
+
+    expect(title).toBe('Помоги спланировать путешествие по…');
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { ConversationDocument } from '../src/types/index.js';
+import {
+  chunkDocument,
+  getDocumentCost,
+  retrievePassages,
+} from '../src/handlers/document-handler.js';
+
+function makeDocument(filename: string, chunks: ConversationDocument['chunks']) {
+  return {
+    id: filename,
+    thread_id: 'thread_docs',
+    filename,
+    chunks,
+    char_count: 0,
+    created_at: new Date(),
+  };
+}
+
+describe('chunkDocument', () => {
+  it('keeps section labels and labels plain text with line ranges', () => {
+    const line = 'x'.repeat(500);
+    const chunks = chunkDocument([
+      { label: 'стр. 1', text: 'Первая страница' },
+      { label: null, text: [line, line, line].join('\n') },
+    ]);
+
+    expect(chunks).toEqual([
+      { label: 'стр. 1', text: 'Первая страница' },
+      { label: 'строки 1–2', text: `${line}\n${line}` },
+      { label: 'строки 3–3', text: line },
+    ]);
+  });
+
+  it('hard-splits lines longer than a passage', () => {
+    const chunks = chunkDocument([{ label: 'стр. 1', text: 'a'.repeat(3000) }]);
+    expect(chunks.map(c => c.text.length)).toEqual([1200, 1200, 600]);
+  });
+});
+
+describe('retrievePassages', () => {
+  const documents = [
+    makeDocument('contract.pdf', [
+      { label: 'стр. 1', text: 'Стороны договора: поставщик и покупатель.' },
+      { label: 'стр. 2', text: 'Срок поставки товара — 30 дней с даты оплаты.' },
+      { label: 'стр. 3', text: 'Штрафы за просрочку поставки составляют 0,1% в день.' },
+    ]),
+  ];
+
+  it('ranks passages that share words with the question', () => {
+    const passages = retrievePassages(documents, 'Какой срок поставки?', 1);
+    expect(passages).toEqual([
+      {
+        label: 'стр. 2',
+        text: 'Срок поставки товара — 30 дней с даты оплаты.',
+        filename: 'contract.pdf',
+      },
+    ]);
+  });
+
+  it('falls back to the beginning of the latest document', () => {
+    const passages = retrievePassages(documents, 'О чём это?', 2);
+    expect(passages.map(p => p.label)).toEqual(['стр. 1', 'стр. 2']);
+  });
+});
+
+describe('getDocumentCost', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('charges one request per DOCUMENT_CHARS_PER_REQUEST characters', () => {
+    vi.stubEnv('DOCUMENT_CHARS_PER_REQUEST', '1000');
+    expect(getDocumentCost(10)).toBe(1);
+    expect(getDocumentCost(2500)).toBe(3);
+  });
+});
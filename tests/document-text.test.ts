@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'node:zlib';
+import {
+  detectDocumentFormat,
+  extractDocumentText,
+  readZipEntry,
+} from '../src/utils/document-text.js';
+
+/**
+ * Minimal ZIP archive with deflated entries
+ */
+function createZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const nameBuffer = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(content));
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt16LE(nameBuffer.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+    locals.push(local, nameBuffer, data);
+    centrals.push(central, nameBuffer);
+    offset += local.length + nameBuffer.length + data.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+describe('detectDocumentFormat', () => {
+  it('uses the extension first and the MIME type as a fallback', () => {
+    expect(detectDocumentFormat('Report.PDF', 'application/octet-stream')).toBe('pdf');
+    expect(detectDocumentFormat('notes', 'text/markdown')).toBe('md');
+    expect(detectDocumentFormat('photo.jpg', 'image/jpeg')).toBeNull();
+  });
+});
+
+describe('readZipEntry', () => {
+  it('inflates the requested entry', () => {
+    const zip = createZip({ 'a.txt': 'first', 'b.txt': 'second' });
+    expect(readZipEntry(zip, 'b.txt')?.toString()).toBe('second');
+    expect(readZipEntry(zip, 'c.txt')).toBeNull();
+  });
+});
+
+describe('extractDocumentText', () => {
+  it('splits DOCX at headings', async () => {
+    const xml =
+      '<w:document><w:body>' +
+      '<w:p><w:r><w:t>Вступление</w:t></w:r></w:p>' +
+      '<w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Оплата</w:t></w:r></w:p>' +
+      '<w:p><w:r><w:t xml:space="preserve">Счёт &amp; акт </w:t></w:r><w:r><w:t>в течение 5 дней</w:t></w:r></w:p>' +
+      '</w:body></w:document>';
+    const docx = createZip({ 'word/document.xml': xml });
+
+    expect(await extractDocumentText(docx, 'docx')).toEqual([
+      { label: null, text: 'Вступление' },
+      { label: 'раздел «Оплата»', text: 'Оплата\nСчёт & акт в течение 5 дней' },
+    ]);
+  });
+
+  it('splits Markdown at headings and keeps plain text whole', async () => {
+    const markdown = Buffer.from('Intro\n\n# Setup\nnpm install\n\n## Usage\nnpm start\n');
+    expect(await extractDocumentText(markdown, 'md')).toEqual([
+      { label: null, text: 'Intro' },
+      { label: 'раздел «Setup»', text: '# Setup\nnpm install' },
+      { label: 'раздел «Usage»', text: '## Usage\nnpm start' },
+    ]);
+
+    const csv = Buffer.from('name,price\r\ntea,3\r\n');
+    expect(await extractDocumentText(csv, 'csv')).toEqual([
+      { label: null, text: 'name,price\ntea,3' },
+    ]);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { InMemoryReplyStore, setReplyStore } from '../src/handlers/reply-store.js';
+
+vi.mock('../src/utils/prisma.js', () => ({ prisma: {} }));
+vi.mock('../src/utils/logger.js', () => ({ logInteraction: vi.fn() }));
+vi.mock('../src/handlers/supabase-handler.js', () => ({
+  findUser: vi.fn().mockResolvedValue({ telegram_id: 7 }),
+}));
+vi.mock('../src/flows/groups.js', () => ({ getChatUser: vi.fn().mockResolvedValue({}) }));
+
+const regenerateReply = vi.fn();
+vi.mock('../src/flows/text.js', () => ({
+  isLatestReply: vi.fn().mockResolvedValue(true),
+  regenerateReply,
+}));
+
+const edited = (text: string) =>
+  ({ message_id: 10, chat: { id: 100, type: 'private' }, from: { id: 7 }, text }) as any;
+
+describe('handleEditedMessage', () => {
+  const bot = { sendMessage: vi.fn() } as any;
+
+  beforeEach(async () => {
+    regenerateReply.mockReset();
+    const replies = new InMemoryReplyStore();
+    await replies.saveReply({
+      chat_id: 100,
+      user_message_id: 10,
+      bot_message_id: 11,
+      part_message_ids: [],
+      mode: 'text',
+      prompt: '/search курс евро',
+      thread_id: 't1',
+      conversation_message_id: 'm1',
+      telegram_id: 7,
+    });
+    setReplyStore(replies);
+  });
+
+  it('answers an edited /search prompt again', async () => {
+    const { handleEditedMessage } = await import('../src/flows/edits.js');
+
+    await handleEditedMessage(bot, edited('/search курс доллара'));
+
+    expect(regenerateReply).toHaveBeenCalledWith(
+      bot,
+      expect.objectContaining({ text: '/search курс доллара' }),
+      expect.anything(),
+      expect.objectContaining({ user_message_id: 10 }),
+    );
+  });
+
+  it('ignores other commands and a /search without a question', async () => {
+    const { handleEditedMessage } = await import('../src/flows/edits.js');
+
+    await handleEditedMessage(bot, edited('/help'));
+    await handleEditedMessage(bot, edited('/search'));
+
+    expect(regenerateReply).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { TelegramMessage } from '../src/types/index.js';
+import {
+  getGroupQuestion,
+  getGroupThreadId,
+  parseGroupCommand,
+} from '../src/handlers/group-chat.js';
+import { InMemoryGroupStore } from '../src/handlers/group-store.js';
+
+vi.mock('../src/utils/prisma.js', () => ({ prisma: {} }));
+
+const bot = { id: 100, username: 'brain_ai_bot' };
+
+function groupMessage(text: string, replyToUserId?: number): TelegramMessage {
+  return {
+    message_id: 5,
+    date: 0,
+    chat: { id: -1001, type: 'supergroup' },
+    from: { id: 7, is_bot: false, first_name: 'Sam' },
+    text,
+    reply_to_message: replyToUserId
+      ? {
+          message_id: 4,
+          date: 0,
+          chat: { id: -1001, type: 'supergroup' },
+          from: { id: replyToUserId, is_bot: replyToUserId === bot.id, first_name: 'x' },
+          text: 'earlier',
+        }
+      : undefined,
+  } as TelegramMessage;
+}
+
+describe('parseGroupCommand', () => {
+  it('accepts commands addressed to this bot or to no bot', () => {
+    expect(parseGroupCommand('/ask what is DNS?', bot.username)).toEqual({
+      name: 'ask',
+      args: 'what is DNS?',
+    });
+    expect(parseGroupCommand('/ASK@Brain_AI_Bot hi', bot.username)).toEqual({
+      name: 'ask',
+      args: 'hi',
+    });
+    expect(parseGroupCommand('/ask@other_bot hi', bot.username)).toBeNull();
+    expect(parseGroupCommand('hello', bot.username)).toBeNull();
+  });
+});
+
+describe('getGroupQuestion', () => {
+  it('answers /ask, mentions and replies to the bot only', () => {
+    expect(getGroupQuestion(groupMessage('/ask как дела?'), bot)).toBe('как дела?');
+    expect(getGroupQuestion(groupMessage('/ask'), bot)).toBeNull();
+    expect(getGroupQuestion(groupMessage('@Brain_AI_Bot переведи hello'), bot)).toBe(
+      'переведи hello',
+    );
+    expect(getGroupQuestion(groupMessage('а подробнее?', bot.id), bot)).toBe('а подробнее?');
+    expect(getGroupQuestion(groupMessage('согласен', 8), bot)).toBeNull();
+    expect(getGroupQuestion(groupMessage('всем привет'), bot)).toBeNull();
+    expect(getGroupQuestion(groupMessage('/start'), bot)).toBeNull();
+  });
+});
+
+describe('group threads', () => {
+  it('switches between shared and personal threads and starts over after a reset', async () => {
+    const store = new InMemoryGroupStore();
+    const settings = await store.getSettings(-1001);
+    expect(getGroupThreadId(settings, 7)).toBe(getGroupThreadId(settings, 8));
+
+    const personal = await store.updateSettings(-1001, { thread_mode: 'personal' });
+    expect(getGroupThreadId(personal, 7)).not.toBe(getGroupThreadId(personal, 8));
+
+    const reset = await store.updateSettings(-1001, { thread_epoch: personal.thread_epoch + 1 });
+    expect(reset.thread_mode).toBe('personal');
+    expect(getGroupThreadId(reset, 7)).not.toBe(getGroupThreadId(personal, 7));
+    expect((await store.getSettings(-2002)).thread_mode).toBe('shared');
+  });
+});
@@ -32,6 +32,39 @@ describe('parseImageCommand', () => {
     expect(params.process_mode).toBe('turbo');
     expect(params.prompt).toBe('a cat running');
   });
+
+  it('combines flags and the number of images', async () => {
+    const { parseImageCommand } = await importUtils();
+    const params = parseImageCommand('a cat --ar 16:9 --relax --n 3 on a roof');
+    expect(params).toMatchObject({
+      prompt: 'a cat on a roof',
+      aspect_ratio: '16:9',
+      process_mode: 'relax',
+      num_images: 3,
+    });
+  });
+});
+
+describe('createAnswerKeyboard', () => {
+  it('keys every action by the answered message within the callback data limit', async () => {
+    const { createAnswerKeyboard } = await importUtils();
+    const buttons = createAnswerKeyboard(2_147_483_647).inline_keyboard.flat();
+    const data = buttons.map(b => JSON.parse((b as { callback_data: string }).callback_data));
+
+    expect(data.map(d => d.action)).toEqual([
+      'answer_regen',
+      'answer_continue',
+      'answer_rate',
+      'answer_rate',
+    ]);
+    expect(data.every(d => d.m === 2_147_483_647)).toBe(true);
+    expect(data.map(d => d.v)).toEqual([undefined, undefined, 1, -1]);
+    for (const button of buttons) {
+      expect(
+        Buffer.byteLength((button as { callback_data: string }).callback_data),
+      ).toBeLessThanOrEqual(64);
+    }
+  });
 });
 
 describe('formatImageStatus', () => {
@@ -43,4 +76,58 @@ describe('formatImageStatus', () => {
   });
 });
 
+describe('splitMessage', () => {
+  it('keeps short text in one part', async () => {
+    const { splitMessage } = await importUtils();
+    expect(splitMessage('hello')).toEqual(['hello']);
+  });
+
+  it('splits on paragraph boundaries', async () => {
+    const { splitMessage } = await importUtils();
+    const paragraph = 'word '.repeat(150).trim();
+    const parts = splitMessage([paragraph, paragraph, paragraph].join('\n\n'), 1600);
+
+    expect(parts).toEqual([`${paragraph}\n\n${paragraph}`, paragraph]);
+  });
 
+  it('fits the rendered HTML, not the Markdown, into one message', async () => {
+    const { splitMessage } = await importUtils();
+    const { markdownToTelegramHtml } = await import('../src/utils/telegram-format.js');
+    const text = 'if a < b && b > c then '.repeat(170).trim();
+    const parts = splitMessage(text);
+
+    expect(text.length).toBeLessThan(4096);
+    expect(parts.length).toBeGreaterThan(1);
+    for (const part of parts) {
+      expect(markdownToTelegramHtml(part).length).toBeLessThanOrEqual(4096);
+    }
+  });
+
+  it('closes and reopens code fences when a code block is split', async () => {
+    const { splitMessage } = await importUtils();
+    const code = Array.from({ length: 40 }, (_, i) => `const line${i} = ${i};`).join('\n');
+    const parts = splitMessage(`Intro\n\n\`\`\`ts\n${code}\n\`\`\``, 300);
+
+    expect(parts.length).toBeGreaterThan(2);
+    for (const part of parts) {
+      expect(part.length).toBeLessThanOrEqual(300);
+      expect(part.split('```').length % 2).toBe(1);
+    }
+    expect(parts.slice(1).every(part => part.startsWith('```ts\n'))).toBe(true);
+  });
+});
+
+describe('sendLongMessage', () => {
+  it('sends parts in order with the keyboard on the last one only', async () => {
+    const { sendLongMessage } = await importUtils();
+    const bot = { sendMessage: vi.fn().mockResolvedValue({ message_id: 1 }) } as any;
+    const keyboard = { keyboard: [[{ text: 'menu' }]] };
+    const paragraph = 'a'.repeat(3000);
+
+    await sendLongMessage(bot, 1, `${paragraph}\n\n${paragraph}`, { reply_markup: keyboard });
+
+    expect(bot.sendMessage).toHaveBeenCalledTimes(2);
+    expect(bot.sendMessage.mock.calls[0][2].reply_markup).toBeUndefined();
+    expect(bot.sendMessage.mock.calls[1][2].reply_markup).toBe(keyboard);
+  });
+});
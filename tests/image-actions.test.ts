@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+
+const TASK_ID = '0f8e2f5a-3c1d-4b7e-9a62-5d3c1b2a4e6f';
+
+vi.mock('../src/utils/prisma.js', () => ({ prisma: {} }));
+vi.mock('../src/utils/logger.js', () => ({ logInteraction: vi.fn() }));
+const findOrCreate = vi.fn();
+vi.mock('../src/findOrCreate.js', () => ({ findOrCreate }));
+
+const canConsumeRequest = vi.fn();
+vi.mock('../src/handlers/supabase-handler.js', () => ({
+  canConsumeRequest,
+  getUserStats: vi.fn().mockResolvedValue({ image_req_left: 0 }),
+}));
+
+const queue = { hasUnfinishedJob: vi.fn(), enqueue: vi.fn() };
+vi.mock('../src/handlers/job-queue.js', () => ({ getJobQueue: () => queue }));
+
+const importGoApi = async () => await import('../src/handlers/goapi-handler.js');
+
+describe('image action buttons', () => {
+  beforeAll(() => {
+    vi.stubEnv('GOAPI_API_KEY', 'test-key');
+  });
+
+  it('fits every grid button into the 64-byte callback data limit', async () => {
+    const { createImageActionKeyboard, parseImageAction } = await importGoApi();
+    const buttons = createImageActionKeyboard(TASK_ID).inline_keyboard.flat();
+
+    expect(buttons.map(b => b.text)).toEqual([
+      ...['U1', 'U2', 'U3', 'U4', 'V1', 'V2', 'V3', 'V4'],
+      '🔄',
+    ]);
+    for (const button of buttons) {
+      expect(Buffer.byteLength(button.callback_data!)).toBeLessThanOrEqual(64);
+      expect(parseImageAction(JSON.parse(button.callback_data!))?.taskId).toBe(TASK_ID);
+    }
+  });
+
+  it('fits the upscaled image and region buttons into the limit too', async () => {
+    const { createMaskRegionKeyboard, createUpscaledImageKeyboard, parseImageAction } =
+      await importGoApi();
+    const buttons = [
+      ...createUpscaledImageKeyboard(TASK_ID).inline_keyboard.flat(),
+      ...createMaskRegionKeyboard(TASK_ID).inline_keyboard.flat(),
+    ];
+
+    expect(buttons).toHaveLength(14);
+    for (const button of buttons) {
+      expect(Buffer.byteLength(button.callback_data!)).toBeLessThanOrEqual(64);
+      expect(parseImageAction(JSON.parse(button.callback_data!))).not.toBeNull();
+    }
+  });
+
+  it('reads action codes and the upscale buttons of older messages', async () => {
+    const { parseImageAction } = await importGoApi();
+
+    expect(parseImageAction({ action: 'V2', t_id: TASK_ID })).toEqual({
+      action: 'variation',
+      taskId: TASK_ID,
+      index: 2,
+    });
+    expect(parseImageAction({ action: 'R', t_id: TASK_ID })).toEqual({
+      action: 'reroll',
+      taskId: TASK_ID,
+    });
+    expect(parseImageAction({ t_id: TASK_ID, idx: 4 } as any)).toEqual({
+      action: 'upscale',
+      taskId: TASK_ID,
+      index: 4,
+    });
+    expect(parseImageAction({ action: 'Z15', t_id: TASK_ID })).toEqual({
+      action: 'transform',
+      taskId: TASK_ID,
+      transform: { type: 'zoom_out', ratio: '1.5' },
+    });
+    expect(parseImageAction({ action: 'MC', t_id: TASK_ID })).toEqual({
+      action: 'region',
+      taskId: TASK_ID,
+      region: 'center',
+    });
+    expect(parseImageAction({ action: 'V5', t_id: TASK_ID })).toBeNull();
+    expect(parseImageAction({ action: 'toString', t_id: TASK_ID })).toBeNull();
+    expect(parseImageAction({ action: 'use_thread', t_id: 'thread_1' })).toBeNull();
+  });
+});
+
+describe('handleImageActionCallback', () => {
+  const bot = {
+    answerCallbackQuery: vi.fn(),
+    sendMessage: vi.fn().mockResolvedValue({ message_id: 5 }),
+  } as any;
+  const callbackQuery = { id: 'cb', from: { id: 7 }, message: { message_id: 4, chat: { id: 70 } } };
+
+  beforeAll(() => {
+    vi.stubEnv('GOAPI_API_KEY', 'test-key');
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    canConsumeRequest.mockResolvedValue(true);
+    queue.hasUnfinishedJob.mockResolvedValue(false);
+  });
+
+  it('starts one action at a time for a user', async () => {
+    const { handleImageActionCallback } = await import('../src/flows/image.js');
+
+    await Promise.all([
+      handleImageActionCallback(bot, callbackQuery as any, {
+        action: 'variation',
+        taskId: TASK_ID,
+        index: 1,
+      }),
+      handleImageActionCallback(bot, callbackQuery as any, { action: 'reroll', taskId: TASK_ID }),
+    ]);
+
+    expect(queue.enqueue).toHaveBeenCalledTimes(1);
+    expect(bot.answerCallbackQuery).toHaveBeenCalledWith(
+      'cb',
+      expect.objectContaining({ show_alert: true }),
+    );
+  });
+
+  it('rejects actions while an image job is unfinished', async () => {
+    const { handleImageActionCallback } = await import('../src/flows/image.js');
+    queue.hasUnfinishedJob.mockResolvedValue(true);
+
+    await handleImageActionCallback(bot, callbackQuery as any, {
+      action: 'reroll',
+      taskId: TASK_ID,
+    });
+
+    expect(queue.enqueue).not.toHaveBeenCalled();
+    expect(bot.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('applies the same check to the vary region prompt', async () => {
+    const { awaitingRegionPrompt, handleRegionPromptInput } = await import('../src/flows/image.js');
+    queue.hasUnfinishedJob.mockResolvedValue(true);
+    awaitingRegionPrompt.set(7, { taskId: TASK_ID, region: 'top' });
+    const msg = { message_id: 6, chat: { id: 70 }, from: { id: 7 }, text: 'a red balloon' };
+
+    expect(await handleRegionPromptInput(bot, msg as any)).toBe(true);
+    expect(queue.enqueue).not.toHaveBeenCalled();
+    expect(bot.sendMessage).toHaveBeenCalledWith(70, expect.stringContaining('дождитесь'));
+  });
+
+  it('applies the same check to a new image prompt', async () => {
+    const { handlePhotoGeneration } = await import('../src/flows/image.js');
+    findOrCreate.mockResolvedValue({ telegram_id: 7, image_provider: 'goapi' });
+    const msg = { message_id: 6, chat: { id: 70 }, from: { id: 7 }, text: 'a red balloon' };
+
+    await Promise.all([
+      handlePhotoGeneration(bot, msg as any),
+      handlePhotoGeneration(bot, msg as any),
+    ]);
+
+    expect(queue.enqueue).toHaveBeenCalledTimes(1);
+    expect(bot.sendMessage).toHaveBeenCalledWith(70, expect.stringContaining('дождитесь'));
+  });
+});
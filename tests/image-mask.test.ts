@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { inflateSync } from 'node:zlib';
+import { createRegionMask, readImageSize } from '../src/handlers/image-mask.js';
+
+const pixel = (png: Buffer, width: number, x: number, y: number) => {
+  // IDAT starts after the 8-byte signature and the 25-byte IHDR chunk
+  const length = png.readUInt32BE(33);
+  const pixels = inflateSync(png.subarray(41, 41 + length));
+  return pixels[y * (width + 1) + 1 + x];
+};
+
+describe('image masks', () => {
+  it('draws the region white over a black mask of the image size', () => {
+    const mask = createRegionMask({ width: 8, height: 4 }, 'right');
+
+    expect(readImageSize(mask)).toEqual({ width: 8, height: 4 });
+    expect(pixel(mask, 8, 3, 1)).toBe(0);
+    expect(pixel(mask, 8, 4, 1)).toBe(0xff);
+    expect(pixel(mask, 8, 7, 3)).toBe(0xff);
+  });
+
+  it('reads the size of JPEG images and ignores other formats', () => {
+    const jpeg = Buffer.from([
+      ...[0xff, 0xd8],
+      ...[0xff, 0xe0, 0x00, 0x04, 0x00, 0x00],
+      ...[0xff, 0xc0, 0x00, 0x11, 0x08, 0x02, 0x00, 0x04, 0x00, 0x03],
+      ...Array(12).fill(0),
+    ]);
+
+    expect(readImageSize(jpeg)).toEqual({ width: 1024, height: 512 });
+    expect(readImageSize(Buffer.from('GIF89a'))).toBeNull();
+  });
+});
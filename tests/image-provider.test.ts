@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const generateImage = vi.fn();
+const getTaskStatus = vi.fn();
+const variateImage = vi.fn();
+const rerollImage = vi.fn();
+const outpaintImage = vi.fn();
+const inpaintImage = vi.fn();
+vi.mock('../src/handlers/goapi-handler.js', () => ({
+  MIDJOURNEY_ASPECT_RATIOS: ['1:1', '16:9'],
+  generateImage,
+  getTaskStatus,
+  variateImage,
+  rerollImage,
+  outpaintImage,
+  inpaintImage,
+}));
+
+const submitFalImageTask = vi.fn();
+const getFalTaskStatus = vi.fn();
+const getFalTaskResult = vi.fn();
+const uploadFileToFal = vi.fn();
+vi.mock('../src/handlers/fal-handler.js', () => ({
+  NANO_BANANA_ASPECT_RATIOS: ['1:1', '21:9'],
+  isFalConfigured: () => true,
+  submitFalImageTask,
+  getFalTaskStatus,
+  getFalTaskResult,
+  uploadFileToFal,
+}));
+
+vi.mock('../src/handlers/handler-utils.js', () => ({
+  fetchImageBuffer: vi.fn().mockResolvedValue({ buffer: Buffer.from('img'), filename: 'a.jpg' }),
+}));
+
+const importProviders = async () => await import('../src/handlers/image-provider.js');
+
+describe('FalImageProvider', () => {
+  beforeEach(() => {
+    submitFalImageTask.mockReset().mockResolvedValue({ success: true, data: { request_id: 'r1' } });
+    getFalTaskStatus.mockReset();
+    uploadFileToFal.mockReset().mockResolvedValue({ success: true, data: { url: 'fal://in' } });
+  });
+
+  it('uploads source images and keeps the edit mode in the task id', async () => {
+    const { FalImageProvider } = await importProviders();
+    const provider = new FalImageProvider();
+
+    const taskId = await provider.submit({
+      prompt: 'make it blue',
+      aspectRatio: '1:1',
+      imageUrls: ['https://t.me/file.jpg'],
+      webhookUrl: 'https://bot/callbacks/fal-ai/job_1',
+    });
+
+    expect(taskId).toBe('edit:r1');
+    expect(submitFalImageTask).toHaveBeenCalledWith(
+      'make it blue',
+      expect.objectContaining({ aspect_ratio: '1:1', num_images: 1 }),
+      ['fal://in'],
+      'https://bot/callbacks/fal-ai/job_1',
+    );
+    getFalTaskStatus.mockResolvedValue({ success: true, data: { status: 'IN_PROGRESS' } });
+    expect(await provider.status(taskId)).toEqual({ state: 'processing' });
+    expect(getFalTaskStatus).toHaveBeenCalledWith('r1', true);
+  });
+
+  it('maps queue states of text-to-image tasks', async () => {
+    const { FalImageProvider } = await importProviders();
+    const provider = new FalImageProvider();
+
+    expect(await provider.submit({ prompt: 'cat', aspectRatio: '1:1' })).toBe('r1');
+    getFalTaskStatus.mockResolvedValueOnce({ success: true, data: { status: 'IN_QUEUE' } });
+    getFalTaskStatus.mockResolvedValueOnce({ success: true, data: { status: 'COMPLETED' } });
+    expect((await provider.status('r1')).state).toBe('pending');
+    expect((await provider.status('r1')).state).toBe('completed');
+    expect(getFalTaskStatus).toHaveBeenCalledWith('r1', false);
+  });
+});
+
+describe('GoApiImageProvider', () => {
+  it('reports failed tasks with their error', async () => {
+    const { GoApiImageProvider } = await importProviders();
+    getTaskStatus.mockResolvedValue({
+      success: true,
+      data: { data: { status: 'failed', output: {}, error: { message: 'banned prompt' } } },
+    });
+
+    expect(await new GoApiImageProvider().status('t1')).toEqual({
+      state: 'failed',
+      progress: 0,
+      error: 'banned prompt',
+    });
+  });
+
+  it('starts variations and rerolls of a grid as new tasks', async () => {
+    const { GoApiImageProvider } = await importProviders();
+    const provider = new GoApiImageProvider();
+    variateImage.mockResolvedValue({ success: true, data: { data: { task_id: 'v1' } } });
+    rerollImage.mockResolvedValue({ success: false, error: { message: 'task not found' } });
+
+    expect(await provider.variation('t1', 3)).toBe('v1');
+    expect(variateImage).toHaveBeenCalledWith('t1', 3, undefined);
+    await expect(provider.reroll('t1')).rejects.toThrow('task not found');
+  });
+
+  it('maps actions on upscaled images to GoAPI tasks', async () => {
+    const { GoApiImageProvider } = await importProviders();
+    const { createRegionMask } = await import('../src/handlers/image-mask.js');
+    const { fetchImageBuffer } = await import('../src/handlers/handler-utils.js');
+    const provider = new GoApiImageProvider();
+    const created = { success: true, data: { data: { task_id: 'child' } } };
+    variateImage.mockResolvedValue(created);
+    outpaintImage.mockResolvedValue(created);
+    inpaintImage.mockResolvedValue(created);
+
+    await provider.transform('u1', { type: 'vary', strength: 'subtle' });
+    expect(variateImage).toHaveBeenLastCalledWith('u1', 'low_variation', undefined);
+    await provider.transform('u1', { type: 'zoom_out', ratio: '2' });
+    expect(outpaintImage).toHaveBeenCalledWith('u1', '2', undefined);
+
+    // The mask is drawn at the size of the upscaled image
+    getTaskStatus.mockResolvedValue({
+      success: true,
+      data: { data: { output: { image_url: 'https://img/u1.png' } } },
+    });
+    vi.mocked(fetchImageBuffer).mockResolvedValueOnce({
+      buffer: createRegionMask({ width: 6, height: 4 }, 'top'),
+      filename: 'u1.png',
+    });
+    expect(
+      await provider.transform('u1', { type: 'vary_region', region: 'left', prompt: 'a cat' }),
+    ).toBe('child');
+    expect(inpaintImage).toHaveBeenCalledWith(
+      'u1',
+      'a cat',
+      createRegionMask({ width: 6, height: 4 }, 'left'),
+      undefined,
+    );
+  });
+});
+
+describe('getImageProvider', () => {
+  it('falls back to Midjourney for unknown names and lists every provider', async () => {
+    const { getImageProvider, getImageProviders } = await importProviders();
+
+    expect(getImageProvider('fal-ai').label).toBe('Nano Banana');
+    expect(getImageProvider('dall-e').name).toBe('goapi');
+    expect(getImageProvider(null).name).toBe('goapi');
+    expect(getImageProviders().map(p => p.name)).toEqual(['goapi', 'fal-ai']);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../src/utils/prisma.js', () => ({ prisma: {} }));
+vi.mock('../src/utils/logger.js', () => ({ logInteraction: vi.fn() }));
+vi.mock('../src/handlers/openai-handler.js', () => ({ getInlineAnswer: vi.fn() }));
+
+const supabase = {
+  canConsumeRequest: vi.fn(),
+  decreaseRequests: vi.fn(),
+  findUser: vi.fn().mockResolvedValue({ telegram_id: 7 }),
+};
+vi.mock('../src/handlers/supabase-handler.js', () => supabase);
+
+const generateImageWithFal = vi.fn();
+vi.mock('../src/handlers/fal-handler.js', () => ({
+  generateImageWithFal,
+  isFalConfigured: () => true,
+}));
+
+const makeBot = () =>
+  ({
+    answerInlineQuery: vi.fn(),
+    editInlineMessageText: vi.fn().mockResolvedValue(undefined),
+    editInlineMessagePhoto: vi.fn().mockResolvedValue(undefined),
+  }) as any;
+
+const chosen = {
+  result_id: 'image:0123456789abcdef',
+  from: { id: 7 },
+  query: '🎨 кот в шляпе',
+  inline_message_id: 'inline-1',
+} as any;
+
+describe('inline images', () => {
+  beforeEach(() => {
+    vi.stubEnv('INLINE_DEBOUNCE_MS', '1');
+    supabase.canConsumeRequest.mockReset().mockResolvedValue(true);
+    supabase.decreaseRequests.mockReset();
+    generateImageWithFal.mockReset();
+  });
+
+  it('offers a placeholder without generating anything', async () => {
+    const { handleInlineQuery } = await import('../src/flows/inline.js');
+    const bot = makeBot();
+
+    await handleInlineQuery(bot, { id: 'q1', from: { id: 7 }, query: '🎨 кот в шляпе' } as any);
+
+    expect(generateImageWithFal).not.toHaveBeenCalled();
+    const [result] = bot.answerInlineQuery.mock.calls[0][1];
+    expect(result).toMatchObject({ type: 'article', reply_markup: expect.anything() });
+  });
+
+  it('draws the picture into the sent message and charges for it', async () => {
+    const { handleChosenInlineResult } = await import('../src/flows/inline.js');
+    const bot = makeBot();
+    generateImageWithFal.mockResolvedValue({
+      success: true,
+      data: { data: { images: [{ url: 'https://fal.media/cat.jpg' }] } },
+    });
+
+    await handleChosenInlineResult(bot, chosen);
+
+    expect(generateImageWithFal).toHaveBeenCalledWith('кот в шляпе', { output_format: 'jpeg' });
+    expect(bot.editInlineMessagePhoto).toHaveBeenCalledWith(
+      'inline-1',
+      'https://fal.media/cat.jpg',
+      expect.objectContaining({ caption: '🎨 кот в шляпе' }),
+    );
+    expect(supabase.decreaseRequests).toHaveBeenCalledWith(7, 'image_req_left');
+  });
+
+  it('charges nothing when the picture fails', async () => {
+    const { handleChosenInlineResult } = await import('../src/flows/inline.js');
+    const bot = makeBot();
+    generateImageWithFal.mockResolvedValue({ success: false, error: { message: 'nsfw' } });
+
+    await handleChosenInlineResult(bot, chosen);
+
+    expect(bot.editInlineMessageText).toHaveBeenCalledWith(
+      'inline-1',
+      expect.stringContaining('❌'),
+    );
+    expect(supabase.decreaseRequests).not.toHaveBeenCalled();
+  });
+});
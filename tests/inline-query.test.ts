@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  InlineResultCache,
+  debounceInlineQuery,
+  getInlineResultId,
+  getInlineResultKind,
+  parseInlineQuery,
+} from '../src/handlers/inline-query.js';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('parseInlineQuery', () => {
+  it('detects image requests and normalizes the cache key', () => {
+    expect(parseInlineQuery('  Что  такое DNS? ')).toEqual({
+      kind: 'text',
+      prompt: 'Что  такое DNS?',
+      cacheKey: 'text:что такое dns?',
+    });
+    expect(parseInlineQuery('🎨 кот в шляпе')?.kind).toBe('image');
+    expect(parseInlineQuery('IMG кот в шляпе')?.prompt).toBe('кот в шляпе');
+    expect(parseInlineQuery('hi')).toBeNull();
+    expect(parseInlineQuery('🎨')).toBeNull();
+  });
+
+  it('encodes the quota to charge in the result id', () => {
+    const request = parseInlineQuery('🎨 кот в шляпе')!;
+    const id = getInlineResultId(request);
+    expect(id.length).toBeLessThanOrEqual(64);
+    expect(getInlineResultKind(id)).toBe('image');
+    expect(getInlineResultKind('info:quota')).toBeNull();
+  });
+});
+
+describe('debounceInlineQuery', () => {
+  it('answers only the last query a user typed', async () => {
+    vi.useFakeTimers();
+    const first = debounceInlineQuery(1, 'q1', 500);
+    await vi.advanceTimersByTimeAsync(300);
+    const second = debounceInlineQuery(1, 'q2', 500);
+    const otherUser = debounceInlineQuery(2, 'q3', 500);
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(await first).toBe(false);
+    expect(await second).toBe(true);
+    expect(await otherUser).toBe(true);
+  });
+});
+
+describe('InlineResultCache', () => {
+  it('shares pending and finished results and forgets failures', async () => {
+    const cache = new InlineResultCache<string>(60_000);
+    const create = vi.fn().mockResolvedValue('answer');
+
+    const [a, b] = await Promise.all([
+      cache.getOrCreate('k', create),
+      cache.getOrCreate('k', create),
+    ]);
+    expect([a, b]).toEqual(['answer', 'answer']);
+    expect(create).toHaveBeenCalledTimes(1);
+
+    await expect(
+      cache.getOrCreate('bad', () => Promise.reject(new Error('boom'))),
+    ).rejects.toThrow();
+    expect(await cache.getOrCreate('bad', create)).toBe('answer');
+  });
+
+  it('expires entries after the TTL', async () => {
+    vi.useFakeTimers();
+    const cache = new InlineResultCache<number>(1000);
+    let calls = 0;
+    const create = () => Promise.resolve(++calls);
+
+    await cache.getOrCreate('k', create);
+    vi.advanceTimersByTime(1500);
+    expect(await cache.getOrCreate('k', create)).toBe(2);
+  });
+});
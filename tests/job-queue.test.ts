@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../src/utils/prisma.js', () => ({ prisma: {} }));
+
+const decreaseRequests = vi.fn();
+vi.mock('../src/handlers/supabase-handler.js', () => ({ decreaseRequests }));
+
+const bot = {} as any;
+const newJob = {
+  kind: 'image' as const,
+  provider: 'goapi',
+  telegram_id: 7,
+  chat_id: 70,
+  params: {},
+};
+
+const createHandler = (states: string[] = ['processing', 'completed']) => {
+  const status = vi.fn();
+  for (const state of states) status.mockResolvedValueOnce({ state, error: 'banned prompt' });
+  return {
+    quota: 'image_req_left' as const,
+    submit: vi.fn().mockResolvedValue('task_1'),
+    status,
+    result: vi.fn().mockResolvedValue({ urls: ['https://img/1.png'] }),
+    deliver: vi.fn(),
+    fail: vi.fn(),
+    progress: vi.fn(),
+  };
+};
+
+const setup = async (handler = createHandler()) => {
+  const { InMemoryJobStore } = await import('../src/handlers/job-store.js');
+  const { JobQueue } = await import('../src/handlers/job-queue.js');
+  const store = new InMemoryJobStore();
+  const queue = new JobQueue(bot, store, { intervalMs: 1 }).register('image', handler);
+  return { store, queue, handler };
+};
+
+describe('JobQueue', () => {
+  beforeEach(() => {
+    decreaseRequests.mockReset();
+  });
+
+  it('submits, polls, delivers and charges a job once', async () => {
+    const { store, queue, handler } = await setup();
+    const job = await store.createJob(newJob);
+
+    await queue.run(job);
+
+    expect(handler.submit).toHaveBeenCalledTimes(1);
+    expect(handler.submit).toHaveBeenCalledWith(
+      bot,
+      expect.objectContaining({ id: job.id }),
+      undefined,
+    );
+    expect(handler.result).toHaveBeenCalledWith('task_1', expect.objectContaining({ id: job.id }));
+    expect(handler.deliver).toHaveBeenCalledWith(bot, expect.anything(), {
+      urls: ['https://img/1.png'],
+    });
+    expect(handler.progress).toHaveBeenCalledTimes(2);
+    expect(decreaseRequests).toHaveBeenCalledWith(7, 'image_req_left', 1);
+    expect(await store.getJob(job.id)).toMatchObject({ status: 'delivered', task_id: 'task_1' });
+
+    await queue.run((await store.getJob(job.id))!);
+    expect(handler.deliver).toHaveBeenCalledTimes(1);
+    expect(decreaseRequests).toHaveBeenCalledTimes(1);
+  });
+
+  it('resumes submitted jobs without submitting them again', async () => {
+    const { store, queue, handler } = await setup(createHandler(['completed']));
+    const job = await store.createJob(newJob);
+    await store.transitionJob(job.id, ['queued'], 'submitted', { task_id: 'task_0' });
+
+    expect(await queue.resume()).toBe(1);
+    await vi.waitFor(async () => expect((await store.getJob(job.id))?.status).toBe('delivered'));
+
+    expect(handler.submit).not.toHaveBeenCalled();
+    expect(handler.status).toHaveBeenCalledWith('task_0', expect.anything());
+  });
+
+  it('delivers a stored result once even when two workers pick it up', async () => {
+    const { InMemoryJobStore } = await import('../src/handlers/job-store.js');
+    const { JobQueue } = await import('../src/handlers/job-queue.js');
+    const store = new InMemoryJobStore();
+    const handler = createHandler();
+    const job = await store.createJob(newJob);
+    await store.transitionJob(job.id, ['queued'], 'succeeded', {
+      task_id: 'task_1',
+      result: { urls: ['https://img/1.png'] },
+    });
+    const stored = (await store.getJob(job.id))!;
+
+    await Promise.all([
+      new JobQueue(bot, store).register('image', handler).run(stored),
+      new JobQueue(bot, store).register('image', handler).run(stored),
+    ]);
+
+    expect(handler.deliver).toHaveBeenCalledTimes(1);
+    expect(decreaseRequests).toHaveBeenCalledTimes(1);
+  });
+
+  it('checks a waiting job at once when its provider calls back', async () => {
+    const { InMemoryJobStore } = await import('../src/handlers/job-store.js');
+    const { JobQueue } = await import('../src/handlers/job-queue.js');
+    const store = new InMemoryJobStore();
+    const handler = createHandler(['processing', 'completed']);
+    const queue = new JobQueue(bot, store, { intervalMs: 60_000 }).register('image', handler);
+    const job = await queue.enqueue(newJob);
+    await vi.waitFor(async () => expect((await store.getJob(job.id))?.status).toBe('running'));
+
+    expect(await queue.notify(job.id, 'other_task')).toBe(false);
+    expect(await queue.notify(job.id, 'task_1')).toBe(true);
+    await vi.waitFor(async () => expect((await store.getJob(job.id))?.status).toBe('delivered'));
+    expect(handler.status).toHaveBeenCalledTimes(2);
+    expect(await queue.notify(job.id, 'task_1')).toBe(false);
+  });
+
+  it('tells the user and does not charge when sending the result fails', async () => {
+    const handler = createHandler(['completed']);
+    handler.deliver.mockRejectedValue(new Error('chat not found'));
+    const { store, queue } = await setup(handler);
+    const job = await store.createJob(newJob);
+
+    await queue.run(job);
+
+    expect(handler.fail).toHaveBeenCalledWith(bot, expect.anything(), 'chat not found');
+    expect(decreaseRequests).not.toHaveBeenCalled();
+    expect(await store.getJob(job.id)).toMatchObject({ status: 'failed', error: 'chat not found' });
+  });
+
+  it('fails the job without charging when the provider task fails', async () => {
+    const { store, queue, handler } = await setup(createHandler(['failed']));
+    const job = await store.createJob(newJob);
+
+    await queue.run(job);
+
+    expect(handler.fail).toHaveBeenCalledWith(bot, expect.anything(), 'banned prompt');
+    expect(handler.deliver).not.toHaveBeenCalled();
+    expect(decreaseRequests).not.toHaveBeenCalled();
+    expect(await store.getJob(job.id)).toMatchObject({ status: 'failed', error: 'banned prompt' });
+    expect(await queue.hasUnfinishedJob(7, 'image')).toBe(false);
+  });
+
+  it('keeps polling when a status check fails', async () => {
+    const handler = createHandler();
+    handler.status.mockReset();
+    handler.status
+      .mockRejectedValueOnce(new Error('502 Bad Gateway'))
+      .mockResolvedValueOnce({ state: 'completed' });
+    const { store, queue } = await setup(handler);
+    const job = await store.createJob(newJob);
+
+    await queue.run(job);
+
+    expect(handler.status).toHaveBeenCalledTimes(2);
+    expect(handler.fail).not.toHaveBeenCalled();
+    expect(await store.getJob(job.id)).toMatchObject({ status: 'delivered' });
+  });
+
+  it('gives up on failing status checks at the deadline', async () => {
+    const handler = { ...createHandler(), maxWaitMs: () => 0 };
+    handler.status.mockReset().mockRejectedValue(new Error('502 Bad Gateway'));
+    const { store, queue } = await setup(handler);
+    const job = await store.createJob(newJob);
+
+    await queue.run(job);
+
+    expect(handler.fail).toHaveBeenCalledWith(bot, expect.anything(), '502 Bad Gateway');
+    expect(await store.getJob(job.id)).toMatchObject({ status: 'failed' });
+  });
+});
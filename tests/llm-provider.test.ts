@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const importProvider = async () => await import('../src/handlers/llm-provider.js');
+
+describe('text model resolution', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+    vi.stubEnv('OPENROUTER_API_KEY', '');
+    vi.stubEnv('LLM_PROVIDER', '');
+    vi.stubEnv('LLM_MODEL', '');
+    vi.stubEnv('LOCAL_LLM_BASE_URL', '');
+    vi.stubEnv('LOCAL_LLM_MODEL', '');
+    vi.stubEnv('LOCAL_LLM_VISION', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('defaults to gpt-5-mini on OpenAI', async () => {
+    const { resolveTextModel } = await importProvider();
+    expect(resolveTextModel(null)).toMatchObject({ provider: 'openai', model: 'gpt-5-mini' });
+  });
+
+  it('hides models of providers without credentials', async () => {
+    const { getAvailableTextModels } = await importProvider();
+    const providers = new Set(getAvailableTextModels().map(m => m.provider));
+    expect(providers).toEqual(new Set(['openai']));
+  });
+
+  it('falls back to the default when the stored model is no longer available', async () => {
+    const { resolveTextModel } = await importProvider();
+    expect(resolveTextModel('claude-sonnet').id).toBe('gpt-5-mini');
+
+    vi.stubEnv('OPENROUTER_API_KEY', 'or-test');
+    vi.resetModules();
+    const fresh = await importProvider();
+    expect(fresh.resolveTextModel('claude-sonnet')).toMatchObject({
+      provider: 'openrouter',
+      model: 'anthropic/claude-sonnet-4.5',
+    });
+  });
+
+  it('uses the local endpoint as default when configured', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'local');
+    vi.stubEnv('LOCAL_LLM_BASE_URL', 'http://localhost:11434/v1');
+    vi.stubEnv('LOCAL_LLM_MODEL', 'llama3.1');
+    const { getDefaultTextModel, getAvailableTextModels } = await importProvider();
+
+    expect(getDefaultTextModel()).toMatchObject({
+      id: 'local',
+      provider: 'local',
+      model: 'llama3.1',
+    });
+    expect(getAvailableTextModels().map(m => m.id)).toContain('local');
+  });
+
+  it('marks text-only models so images are not sent to them', async () => {
+    vi.stubEnv('OPENROUTER_API_KEY', 'or-test');
+    vi.stubEnv('LOCAL_LLM_BASE_URL', 'http://localhost:11434/v1');
+    vi.stubEnv('LOCAL_LLM_MODEL', 'llama3.1');
+    const { resolveTextModel } = await importProvider();
+
+    expect(resolveTextModel('gpt-5-mini').vision).toBe(true);
+    expect(resolveTextModel('deepseek').vision).toBe(false);
+    expect(resolveTextModel('local').vision).toBe(false);
+
+    vi.stubEnv('LOCAL_LLM_VISION', 'true');
+    expect(resolveTextModel('local').vision).toBe(true);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { TgMessage } from '../src/tg-client.js';
+import { collectMediaGroup } from '../src/handlers/media-group.js';
+
+function photo(messageId: number, mediaGroupId?: string): TgMessage {
+  return {
+    message_id: messageId,
+    date: 0,
+    chat: { id: 1, type: 'private' },
+    media_group_id: mediaGroupId,
+  } as TgMessage;
+}
+
+describe('collectMediaGroup', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('resolves single photos right away', async () => {
+    const msg = photo(1);
+    expect(await collectMediaGroup(msg, 1000)).toEqual([msg]);
+  });
+
+  it('hands the whole album to the first message once the group is quiet', async () => {
+    vi.useFakeTimers();
+    const first = collectMediaGroup(photo(11, 'album'), 1000);
+    await vi.advanceTimersByTimeAsync(600);
+    const third = collectMediaGroup(photo(13, 'album'), 1000);
+    await vi.advanceTimersByTimeAsync(600);
+    const second = collectMediaGroup(photo(12, 'album'), 1000);
+
+    expect(await third).toBeNull();
+    expect(await second).toBeNull();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect((await first)?.map(m => m.message_id)).toEqual([11, 12, 13]);
+  });
+
+  it('keeps albums of different chats apart', async () => {
+    vi.useFakeTimers();
+    const own = collectMediaGroup(photo(1, 'same-id'), 500);
+    const other = collectMediaGroup({ ...photo(2, 'same-id'), chat: { id: 2 } } as TgMessage, 500);
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect((await own)?.map(m => m.message_id)).toEqual([1]);
+    expect((await other)?.map(m => m.message_id)).toEqual([2]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+vi.mock('../src/handlers/goapi-handler.js', () => ({
+  isValidAspectRatio: () => true,
+}));
+
+const importUtils = async () => await import('../src/handlers/handler-utils.js');
+
+const makeBot = () =>
+  ({
+    editMessageText: vi.fn().mockResolvedValue(undefined),
+    sendMessage: vi.fn().mockResolvedValue({ message_id: 2 }),
+    deleteMessage: vi.fn().mockResolvedValue(undefined),
+  }) as any;
+
+describe('createMessageStreamer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('throttles intermediate edits and sends the latest text', async () => {
+    const { createMessageStreamer } = await importUtils();
+    const bot = makeBot();
+    const streamer = createMessageStreamer(bot, 1, 10, 1000);
+
+    streamer.update('Hel');
+    streamer.update('Hello');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(bot.editMessageText).toHaveBeenCalledTimes(1);
+    expect(bot.editMessageText).toHaveBeenLastCalledWith('Hello ▌', {
+      chat_id: 1,
+      message_id: 10,
+    });
+
+    streamer.update('Hello, wor');
+    streamer.update('Hello, world');
+    await vi.advanceTimersByTimeAsync(500);
+    expect(bot.editMessageText).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(bot.editMessageText).toHaveBeenCalledTimes(2);
+    expect(bot.editMessageText.mock.calls[1][0]).toBe('Hello, world ▌');
+  });
+
+  it('renders the final text as HTML and falls back to plain text', async () => {
+    const { createMessageStreamer } = await importUtils();
+    const bot = makeBot();
+    bot.editMessageText
+      .mockRejectedValueOnce({ description: "Bad Request: can't parse entities" })
+      .mockResolvedValue(undefined);
+    const streamer = createMessageStreamer(bot, 1, 10, 1000);
+
+    expect(await streamer.finish('**done**')).toEqual([10]);
+
+    expect(bot.editMessageText).toHaveBeenNthCalledWith(1, '<b>done</b>', {
+      chat_id: 1,
+      message_id: 10,
+      parse_mode: 'HTML',
+    });
+    expect(bot.editMessageText).toHaveBeenNthCalledWith(2, '**done**', {
+      chat_id: 1,
+      message_id: 10,
+    });
+  });
+
+  it('attaches the inline keyboard to the final edit', async () => {
+    const { createMessageStreamer } = await importUtils();
+    const bot = makeBot();
+    const streamer = createMessageStreamer(bot, 1, 10, 1000);
+    const keyboard = { inline_keyboard: [[{ text: '👍', callback_data: 'x' }]] };
+
+    await streamer.finish('done', { reply_markup: keyboard });
+
+    expect(bot.editMessageText).toHaveBeenCalledWith('done', {
+      reply_markup: keyboard,
+      chat_id: 1,
+      message_id: 10,
+      parse_mode: 'HTML',
+    });
+  });
+
+  it('replaces the placeholder when the final text exceeds one message', async () => {
+    const { createMessageStreamer } = await importUtils();
+    const bot = makeBot();
+    bot.sendMessage.mockResolvedValueOnce({ message_id: 1 });
+    const streamer = createMessageStreamer(bot, 1, 10, 1000);
+
+    expect(await streamer.finish('a'.repeat(5000))).toEqual([1, 2]);
+
+    expect(bot.deleteMessage).toHaveBeenCalledWith(1, 10);
+    expect(bot.sendMessage).toHaveBeenCalledTimes(2);
+    expect(bot.sendMessage.mock.calls[0][1]).toBe('a'.repeat(4096));
+  });
+});
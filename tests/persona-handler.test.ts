@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const updateUser = vi.fn().mockResolvedValue({});
+vi.mock('../src/handlers/supabase-handler.js', () => ({ updateUser }));
+
+const importPersonas = async () => await import('../src/handlers/persona-handler.js');
+
+const makeUser = (overrides: Record<string, unknown> = {}) =>
+  ({
+    telegram_id: 7n,
+    personas: [{ id: 'law', name: 'Юрист', prompt: 'Отвечай как юрист' }, { broken: true }],
+    active_persona_id: 'law',
+    ...overrides,
+  }) as any;
+
+describe('parsePersonaInput', () => {
+  it('splits the name from the instructions', async () => {
+    const { parsePersonaInput } = await importPersonas();
+    expect(parsePersonaInput('Юрист\nОтвечай как юрист.\nКратко.')).toEqual({
+      name: 'Юрист',
+      prompt: 'Отвечай как юрист.\nКратко.',
+    });
+  });
+
+  it('rejects input without instructions', async () => {
+    const { parsePersonaInput } = await importPersonas();
+    expect(parsePersonaInput('Только название')).toBeNull();
+  });
+});
+
+describe('persona store', () => {
+  it('skips malformed entries and resolves the active persona', async () => {
+    const { getPersonas, getActivePersona } = await importPersonas();
+    const user = makeUser();
+
+    expect(getPersonas(user)).toHaveLength(1);
+    expect(getActivePersona(user)?.prompt).toBe('Отвечай как юрист');
+    expect(getActivePersona(makeUser({ active_persona_id: 'gone' }))).toBeNull();
+  });
+
+  it('selects a new persona right after creating it', async () => {
+    const { createPersona } = await importPersonas();
+    updateUser.mockClear();
+
+    const persona = await createPersona(makeUser(), 7, { name: 'Кратко', prompt: 'Будь краток' });
+
+    expect(persona?.name).toBe('Кратко');
+    const update = updateUser.mock.calls[0]![1];
+    expect(update.personas).toHaveLength(2);
+    expect(update.active_persona_id).toBe(persona?.id);
+  });
+
+  it('clears the selection when the active persona is deleted', async () => {
+    const { deletePersona } = await importPersonas();
+    updateUser.mockClear();
+
+    await deletePersona(makeUser(), 7, 'law');
+
+    expect(updateUser).toHaveBeenCalledWith(7, { personas: [], active_persona_id: null });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createHash, generateKeyPairSync, sign } from 'node:crypto';
+import {
+  getCallbackTaskId,
+  getJobCallbackUrl,
+  setCallbackBaseUrl,
+  verifyFalCallback,
+  verifyGoApiCallback,
+} from '../src/handlers/provider-webhooks.js';
+
+const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+const getKeys = async () => [publicKey];
+
+const signFal = (body: Buffer, timestamp: number) => {
+  const bodyHash = createHash('sha256').update(body).digest('hex');
+  const message = ['req_1', 'user_1', String(timestamp), bodyHash].join('\n');
+  return {
+    'x-fal-webhook-request-id': 'req_1',
+    'x-fal-webhook-user-id': 'user_1',
+    'x-fal-webhook-timestamp': String(timestamp),
+    'x-fal-webhook-signature': sign(null, Buffer.from(message), privateKey).toString('hex'),
+  };
+};
+
+describe('provider webhooks', () => {
+  afterEach(() => {
+    setCallbackBaseUrl(null);
+    delete process.env.GOAPI_WEBHOOK_SECRET;
+  });
+
+  it('requests callbacks only with a public URL and, for GoAPI, a secret', () => {
+    const job = { id: 'job_1', provider: 'goapi' };
+    expect(getJobCallbackUrl({ ...job, provider: 'fal-ai' })).toBeUndefined();
+
+    setCallbackBaseUrl('https://bot.example.com/');
+    expect(getJobCallbackUrl({ ...job, provider: 'fal-ai' })).toBe(
+      'https://bot.example.com/callbacks/fal-ai/job_1',
+    );
+    expect(getJobCallbackUrl(job)).toBeUndefined();
+
+    process.env.GOAPI_WEBHOOK_SECRET = 's3cret';
+    expect(getJobCallbackUrl(job)).toBe('https://bot.example.com/callbacks/goapi/job_1');
+  });
+
+  it('accepts GoAPI callbacks carrying the secret', () => {
+    process.env.GOAPI_WEBHOOK_SECRET = 's3cret';
+    expect(verifyGoApiCallback({ 'x-webhook-secret': 's3cret' })).toBe(true);
+    expect(verifyGoApiCallback({ 'x-webhook-secret': 'guess' })).toBe(false);
+    expect(verifyGoApiCallback({})).toBe(false);
+    expect(getCallbackTaskId('goapi', { data: { task_id: 'task_1' } })).toBe('task_1');
+  });
+
+  it('checks the fal.ai signature and its age', async () => {
+    const body = Buffer.from(JSON.stringify({ request_id: 'req_1', status: 'OK' }));
+    const now = 1_800_000_000_000;
+    const headers = signFal(body, now / 1000);
+
+    expect(await verifyFalCallback(headers, body, getKeys, now)).toBe(true);
+    expect(await verifyFalCallback(headers, Buffer.from('{}'), getKeys, now)).toBe(false);
+    expect(await verifyFalCallback(headers, body, getKeys, now + 10 * 60 * 1000)).toBe(false);
+    expect(getCallbackTaskId('fal-ai', JSON.parse(body.toString()))).toBe('req_1');
+  });
+});
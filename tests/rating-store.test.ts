@@ -0,0 +1,28 @@
+import { describe, it, expect, vi } from 'vitest';
+import { InMemoryRatingStore } from '../src/handlers/rating-store.js';
+
+vi.mock('../src/utils/prisma.js', () => ({ prisma: {} }));
+
+const rating = (botMessageId: number, value: 1 | -1) => ({
+  chat_id: 1,
+  bot_message_id: botMessageId,
+  telegram_id: 7,
+  rating: value,
+  prompt: 'question',
+  response: 'answer',
+  model: 'gpt-4o-mini',
+});
+
+describe('InMemoryRatingStore', () => {
+  it('keeps one rating per answer, replacing earlier votes', async () => {
+    const store = new InMemoryRatingStore();
+    await store.saveRating(rating(10, 1));
+    await store.saveRating(rating(10, -1));
+    await store.saveRating(rating(12, 1));
+
+    const ratings = await store.listRatings(1);
+    expect(ratings).toHaveLength(2);
+    expect(ratings.find(r => r.bot_message_id === 10)?.rating).toBe(-1);
+    expect(await store.listRatings(2)).toEqual([]);
+  });
+});
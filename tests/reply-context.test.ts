@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import type { TelegramMessage } from '../src/types/index.js';
+import {
+  asImageEditRequest,
+  getRepliedPhotoId,
+  getReplyContext,
+} from '../src/handlers/reply-context.js';
+
+const chat = { id: 1, type: 'private' as const };
+const bot = { id: 100, is_bot: true, first_name: 'BrainAI' };
+const human = { id: 7, is_bot: false, first_name: 'Alex' };
+
+function message(fields: Partial<TelegramMessage>): TelegramMessage {
+  return { message_id: 2, date: 0, chat, from: human, ...fields };
+}
+
+const photo = [
+  { file_id: 'small', file_unique_id: 's', width: 90, height: 90 },
+  { file_id: 'large', file_unique_id: 'l', width: 1280, height: 1280 },
+];
+
+describe('getReplyContext', () => {
+  it('quotes the replied bot answer', () => {
+    const msg = message({
+      text: 'А подробнее?',
+      reply_to_message: message({ message_id: 1, from: bot, text: 'Фотосинтез — это процесс…' }),
+    });
+
+    const context = getReplyContext(msg);
+    expect(context).toContain('your earlier answer');
+    expect(context).toContain('Фотосинтез — это процесс…');
+  });
+
+  it('uses captions, marks user messages and cuts long quotes', () => {
+    const msg = message({
+      text: 'Переведи',
+      reply_to_message: message({ message_id: 1, caption: 'x'.repeat(1500) }),
+    });
+
+    const context = getReplyContext(msg)!;
+    expect(context).toContain('an earlier message of theirs');
+    expect(context).toContain(`${'x'.repeat(1000)}…`);
+    expect(context).not.toContain('x'.repeat(1001));
+  });
+
+  it('returns null without a reply or quoted text', () => {
+    expect(getReplyContext(message({ text: 'Привет' }))).toBeNull();
+    expect(
+      getReplyContext(message({ text: '?', reply_to_message: message({ photo }) })),
+    ).toBeNull();
+  });
+});
+
+describe('replies to photos', () => {
+  it('picks the largest size of the replied photo', () => {
+    const msg = message({ text: 'Что на фото?', reply_to_message: message({ from: bot, photo }) });
+    expect(getRepliedPhotoId(msg)).toBe('large');
+    expect(getRepliedPhotoId(message({ text: 'Привет' }))).toBeNull();
+  });
+
+  it('turns a reply to an image into an edit request', () => {
+    const msg = message({
+      text: 'Сделай фон синим',
+      reply_to_message: message({ from: bot, photo }),
+    });
+    expect(asImageEditRequest(msg)).toMatchObject({ photo, caption: 'Сделай фон синим' });
+
+    const plain = message({ text: 'Кот в космосе' });
+    expect(asImageEditRequest(plain)).toBe(plain);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from 'vitest';
+import { InMemoryReplyStore } from '../src/handlers/reply-store.js';
+
+vi.mock('../src/utils/prisma.js', () => ({ prisma: {} }));
+
+const reply = (chatId: number, userMessageId: number, prompt: string) => ({
+  chat_id: chatId,
+  user_message_id: userMessageId,
+  bot_message_id: userMessageId + 1,
+  part_message_ids: [],
+  mode: 'text' as const,
+  prompt,
+  thread_id: 't1',
+  conversation_message_id: null,
+  telegram_id: 7,
+  model: null,
+  response: null,
+});
+
+describe('InMemoryReplyStore', () => {
+  it('replaces the mapping of a prompt when it is saved again', async () => {
+    const store = new InMemoryReplyStore();
+    await store.saveReply(reply(1, 10, 'first'));
+    await store.saveReply({ ...reply(1, 10, 'edited'), bot_message_id: 99 });
+
+    const saved = await store.getReply(1, 10);
+    expect(saved?.prompt).toBe('edited');
+    expect(saved?.bot_message_id).toBe(99);
+    expect(await store.getReply(2, 10)).toBeNull();
+  });
+
+  it('finds the latest prompt of each chat', async () => {
+    const store = new InMemoryReplyStore();
+    await store.saveReply(reply(1, 30, 'latest'));
+    await store.saveReply(reply(1, 10, 'older'));
+    await store.saveReply(reply(2, 50, 'other chat'));
+
+    expect((await store.getLatestReply(1))?.prompt).toBe('latest');
+    expect(await store.getLatestReply(3)).toBeNull();
+  });
+});
@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { formatSrt } from '../src/utils/subtitles.js';
+
+describe('formatSrt', () => {
+  it('numbers cues and formats timestamps as HH:MM:SS,mmm', () => {
+    const srt = formatSrt([
+      { start: 0, end: 2.5, text: ' Привет.' },
+      { start: 2.5, end: 3, text: '  ' },
+      { start: 3661.007, end: 3662, text: 'Второй фрагмент' },
+    ]);
+
+    expect(srt).toBe(
+      '1\n00:00:00,000 --> 00:00:02,500\nПривет.\n\n' +
+        '2\n01:01:01,007 --> 01:01:02,000\nВторой фрагмент\n',
+    );
+  });
+});
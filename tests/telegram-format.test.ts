@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { markdownToPlainText, markdownToTelegramHtml } from '../src/utils/telegram-format.js';
+
+describe('markdownToTelegramHtml', () => {
+  it('converts inline formatting and escapes HTML', () => {
+    expect(markdownToTelegramHtml('**Bold**, *italic*, `a < b` & ~~old~~')).toBe(
+      '<b>Bold</b>, <i>italic</i>, <code>a &lt; b</code> &amp; <s>old</s>',
+    );
+  });
+
+  it('leaves unbalanced markers and snake_case as literal text', () => {
+    expect(markdownToTelegramHtml('2 * 3 = 6, use my_var_name or *oops')).toBe(
+      '2 * 3 = 6, use my_var_name or *oops',
+    );
+  });
+
+  it('renders code blocks, including an unterminated one', () => {
+    expect(markdownToTelegramHtml('```js\nif (a < b) {}\n```')).toBe(
+      '<pre><code class="language-js">if (a &lt; b) {}</code></pre>',
+    );
+    expect(markdownToTelegramHtml('Code:\n```\nx **not bold**')).toBe(
+      'Code:\n<pre>x **not bold**</pre>',
+    );
+  });
+
+  it('converts headings, lists, quotes and links', () => {
+    const html = markdownToTelegramHtml(
+      '## Plan\n- first\n* second\n> note\n[docs](https://example.com/?a=1&b=2)',
+    );
+    expect(html).toBe(
+      '<b>Plan</b>\n• first\n• second\n<blockquote>note</blockquote>\n' +
+        '<a href="https://example.com/?a=1&amp;b=2">docs</a>',
+    );
+  });
+
+  it('renders tables as aligned monospace text', () => {
+    const html = markdownToTelegramHtml('| Name | Qty |\n|---|---|\n| apple | **10** |');
+    expect(html).toBe('<pre>Name  │ Qty\n──────┼────\napple │ 10</pre>');
+  });
+});
+
+describe('markdownToPlainText', () => {
+  it('drops Markdown syntax but keeps the text', () => {
+    expect(
+      markdownToPlainText(
+        '## Итог\n- **первый** пункт\n- [ссылка](https://example.com)\n```js\nx()\n```',
+      ),
+    ).toBe('Итог\nпервый пункт\nссылка\n\nx()');
+  });
+});
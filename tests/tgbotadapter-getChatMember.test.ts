@@ -0,0 +1,24 @@
+import { describe, it, expect, vi } from 'vitest';
+
+class FakeClient {
+  token = 'X';
+  constructor(_t: string) {}
+  async getChatMember(_chatId: number, _userId: number) {
+    return { status: 'administrator', user: { id: 7 } };
+  }
+  on() {}
+}
+
+vi.mock('telegramsjs', () => ({ TelegramClient: FakeClient }));
+
+describe('TgBotAdapter.getChatMember', async () => {
+  const { TgBotAdapter } = await import('../src/tg-client.js');
+
+  it('passes the chat and user ids positionally', async () => {
+    const adapter = new TgBotAdapter('token');
+    const spy = vi.spyOn((adapter as any).client, 'getChatMember');
+
+    expect(await adapter.getChatMember(-100, 7)).toEqual({ status: 'administrator' });
+    expect(spy).toHaveBeenCalledWith(-100, 7);
+  });
+});
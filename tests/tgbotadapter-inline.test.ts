@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from 'vitest';
+
+class FakeClient {
+  token = 'X';
+  handlers = new Map<string, (payload: unknown) => void>();
+  constructor(_t: string) {}
+  on(event: string, handler: (payload: unknown) => void) {
+    this.handlers.set(event, handler);
+  }
+}
+
+vi.mock('telegramsjs', () => ({ TelegramClient: FakeClient }));
+
+const author = { id: 7, isBot: false, firstName: 'Анна', username: 'anna', languageCode: 'ru' };
+
+describe('TgBotAdapter inline events', async () => {
+  const { TgBotAdapter } = await import('../src/tg-client.js');
+
+  const emit = (event: string, clientEvent: string, payload: unknown) => {
+    const adapter = new TgBotAdapter('token');
+    const handler = vi.fn();
+    adapter.on(event as any, handler);
+    (adapter as any).client.handlers.get(clientEvent)(payload);
+    return handler.mock.calls[0]![0];
+  };
+
+  it('maps inline queries to the Bot API shape', () => {
+    const query = emit('inline_query', 'inlineQuery', {
+      id: 'q1',
+      author,
+      query: '🎨 кот',
+      offset: '',
+      chatType: 'private',
+    });
+
+    expect(query).toEqual({
+      id: 'q1',
+      from: {
+        id: 7,
+        is_bot: false,
+        first_name: 'Анна',
+        last_name: undefined,
+        username: 'anna',
+        language_code: 'ru',
+      },
+      query: '🎨 кот',
+      offset: '',
+      chat_type: 'private',
+    });
+  });
+
+  it('maps chosen inline results to the Bot API shape', () => {
+    const chosen = emit('chosen_inline_result', 'chosenInlineResult', {
+      id: 'image:0123456789abcdef',
+      author,
+      query: '🎨 кот',
+      inlineMessageId: 'inline-1',
+    });
+
+    expect(chosen).toMatchObject({
+      result_id: 'image:0123456789abcdef',
+      from: { id: 7 },
+      query: '🎨 кот',
+      inline_message_id: 'inline-1',
+    });
+  });
+});
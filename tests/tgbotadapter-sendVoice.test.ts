@@ -0,0 +1,39 @@
+import { describe, it, expect, vi } from 'vitest';
+
+class FakeClient {
+  token = 'X';
+  constructor(_t: string) {}
+  async sendVoice(opts: any) {
+    return { id: 1, messageId: 2, chatId: opts.chatId };
+  }
+  on() {}
+}
+
+vi.mock('telegramsjs', () => ({ TelegramClient: FakeClient }));
+
+describe('TgBotAdapter.sendVoice', async () => {
+  const { TgBotAdapter } = await import('../src/tg-client.js');
+
+  it('uploads buffers under the given filename', async () => {
+    const adapter = new TgBotAdapter('token');
+    const spy = vi.spyOn((adapter as any).client, 'sendVoice');
+    const audio = Buffer.from('ogg');
+
+    await adapter.sendVoice(1, audio, { caption: 'hi' }, { filename: 'reply.ogg' });
+
+    expect(spy.mock.calls[0]![0]).toMatchObject({
+      chatId: 1,
+      caption: 'hi',
+      voice: { source: { media: audio, filename: 'reply.ogg' } },
+    });
+  });
+
+  it('passes file ids and URLs through unchanged', async () => {
+    const adapter = new TgBotAdapter('token');
+    const spy = vi.spyOn((adapter as any).client, 'sendVoice');
+
+    await adapter.sendVoice(1, 'file-id');
+
+    expect(spy.mock.calls[0]![0].voice).toBe('file-id');
+  });
+});
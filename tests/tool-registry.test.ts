@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../src/utils/prisma.js', () => ({ prisma: {} }));
+
+const canConsumeRequest = vi.fn();
+const decreaseRequests = vi.fn();
+vi.mock('../src/handlers/supabase-handler.js', () => ({ canConsumeRequest, decreaseRequests }));
+
+const createCompletion = vi.fn();
+vi.mock('openai', () => ({
+  default: class {
+    chat = { completions: { create: createCompletion } };
+  },
+}));
+
+const context = { bot: {}, msg: {}, user: {}, userId: 7 } as any;
+
+const drawTool = {
+  definition: {
+    name: 'draw',
+    description: 'Draw a picture',
+    parameters: {
+      type: 'object',
+      properties: {
+        prompt: { type: 'string' },
+        aspect_ratio: { type: 'string', enum: ['1:1', '16:9'] },
+      },
+      required: ['prompt'],
+    },
+  },
+  cost: { quota: 'image_req_left' as const, amount: 1 },
+  execute: vi.fn().mockResolvedValue('sent'),
+};
+
+async function* chunks(...parts: object[]) {
+  for (const delta of parts) yield { choices: [{ delta }] };
+}
+
+describe('validateToolArguments', () => {
+  it('reports missing, mistyped and unknown enum values', async () => {
+    const { validateToolArguments } = await import('../src/handlers/tool-registry.js');
+    const schema = drawTool.definition.parameters;
+    expect(validateToolArguments(schema, { prompt: 'cat' })).toEqual([]);
+    expect(validateToolArguments(schema, { prompt: 5, aspect_ratio: '2:1' })).toEqual([
+      'prompt must be of type string',
+      'aspect_ratio must be one of 1:1, 16:9',
+    ]);
+    expect(validateToolArguments(schema, {})).toEqual(['prompt is required']);
+  });
+});
+
+describe('ToolRegistry', () => {
+  beforeEach(() => {
+    canConsumeRequest.mockReset().mockResolvedValue(true);
+    decreaseRequests.mockReset();
+    drawTool.execute.mockClear();
+  });
+
+  it('charges the tool cost after a successful call', async () => {
+    const { ToolRegistry } = await import('../src/handlers/tool-registry.js');
+    const [tool] = new ToolRegistry().register(drawTool).bind(context);
+
+    expect(await tool!.execute({ prompt: 'cat' })).toBe('sent');
+    expect(drawTool.execute).toHaveBeenCalledWith({ prompt: 'cat' }, context);
+    expect(canConsumeRequest).toHaveBeenCalledWith(7, 'image_req_left', 1);
+    expect(decreaseRequests).toHaveBeenCalledWith(7, 'image_req_left', 1);
+  });
+
+  it('does not run the tool without quota or with invalid arguments', async () => {
+    const { ToolRegistry } = await import('../src/handlers/tool-registry.js');
+    const [tool] = new ToolRegistry().register(drawTool).bind(context);
+
+    await expect(tool!.execute({})).rejects.toThrow('prompt is required');
+    canConsumeRequest.mockResolvedValue(false);
+    await expect(tool!.execute({ prompt: 'cat' })).rejects.toThrow('no image requests left');
+    expect(drawTool.execute).not.toHaveBeenCalled();
+    expect(decreaseRequests).not.toHaveBeenCalled();
+  });
+
+  it('fails slow calls after the timeout without charging', async () => {
+    const { ToolRegistry } = await import('../src/handlers/tool-registry.js');
+    const [tool] = new ToolRegistry()
+      .register({ ...drawTool, timeoutMs: 10, execute: () => new Promise(() => {}) })
+      .bind(context);
+
+    await expect(tool!.execute({ prompt: 'cat' })).rejects.toThrow('draw timed out');
+    expect(decreaseRequests).not.toHaveBeenCalled();
+  });
+
+  it('leaves charging to tools that only start the work', async () => {
+    const { ToolRegistry } = await import('../src/handlers/tool-registry.js');
+    const [tool] = new ToolRegistry()
+      .register({ ...drawTool, cost: { ...drawTool.cost, chargedByHandler: true } })
+      .bind(context);
+
+    await tool!.execute({ prompt: 'cat' });
+    expect(canConsumeRequest).toHaveBeenCalled();
+    expect(decreaseRequests).not.toHaveBeenCalled();
+  });
+
+  it('rejects duplicate tool names', async () => {
+    const { ToolRegistry } = await import('../src/handlers/tool-registry.js');
+    expect(() => new ToolRegistry().register(drawTool).register(drawTool)).toThrow();
+  });
+});
+
+describe('streamAssistantResponse with tools', () => {
+  it('streams text around tool calls and stores the whole answer', async () => {
+    const { InMemoryConversationStore, setConversationStore } = await import(
+      '../src/handlers/conversation-store.js'
+    );
+    const store = new InMemoryConversationStore();
+    setConversationStore(store);
+    const { createMessage, streamAssistantResponse } = await import(
+      '../src/handlers/openai-handler.js'
+    );
+    createCompletion
+      .mockResolvedValueOnce(
+        chunks(
+          { content: 'Рисую.' },
+          { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'draw', arguments: '' } }] },
+          { tool_calls: [{ index: 0, function: { arguments: '{"prompt":' } }] },
+          { tool_calls: [{ index: 0, function: { arguments: '"cat"}' } }] },
+        ),
+      )
+      .mockResolvedValueOnce(chunks({ content: 'Готово!' }));
+    const draw = vi.fn().mockResolvedValue('sent');
+    const onUpdate = vi.fn();
+    const onToolCall = vi.fn();
+
+    await createMessage('thread_draw', 'Нарисуй кота');
+    const answer = await streamAssistantResponse('thread_draw', onUpdate, {
+      tools: [{ definition: drawTool.definition, execute: draw }],
+      onToolCall,
+    });
+
+    expect(answer).toBe('Рисую.\n\nГотово!');
+    expect(draw).toHaveBeenCalledWith({ prompt: 'cat' });
+    expect(onToolCall).toHaveBeenCalledWith({
+      id: 'call_1',
+      name: 'draw',
+      arguments: { prompt: 'cat' },
+    });
+    expect(onUpdate).toHaveBeenLastCalledWith('Рисую.\n\nГотово!');
+    expect(createCompletion.mock.calls[0]![0].tools[0].function.name).toBe('draw');
+    const stored = await store.getMessages('thread_draw');
+    expect(stored?.map(m => m.content)).toContain('Рисую.\n\nГотово!');
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../src/utils/prisma.js', () => ({ prisma: {} }));
+
+const createCompletion = vi.fn();
+
+vi.mock('openai', () => ({
+  default: class {
+    chat = { completions: { create: createCompletion } };
+  },
+}));
+
+const results = [
+  { title: 'Курс евро — ЦБ', url: 'https://cbr.example/eur', snippet: '1 EUR = 100 RUB' },
+  { title: 'Новости', url: 'https://news.example/eur', snippet: 'Евро вырос' },
+];
+
+describe('parseSearchCommand', () => {
+  it('extracts the question after the prefix', async () => {
+    const { parseSearchCommand } = await import('../src/handlers/web-search.js');
+    expect(parseSearchCommand('/search курс евро')).toBe('курс евро');
+    expect(parseSearchCommand('/search@gpt_bot курс\nевро')).toBe('курс\nевро');
+    expect(parseSearchCommand('/search')).toBe('');
+    expect(parseSearchCommand('/searching')).toBeNull();
+    expect(parseSearchCommand('курс евро')).toBeNull();
+  });
+});
+
+describe('extractPageText', () => {
+  it('drops scripts and markup and decodes entities', async () => {
+    const { extractPageText } = await import('../src/handlers/web-search.js');
+    const html =
+      '<html><head><title>x</title></head><body><script>alert(1)</script>' +
+      '<h1>Курс</h1><p>1 EUR &gt; 1 USD&nbsp;&#8212; да</p></body></html>';
+    expect(extractPageText(html)).toBe('Курс\n1 EUR > 1 USD — да');
+  });
+});
+
+describe('WebSearchSession', () => {
+  it('keeps source numbers stable across searches', async () => {
+    const { WebSearchSession } = await import('../src/handlers/web-search.js');
+    const { StaticSearchProvider } = await import('../src/handlers/search-provider.js');
+    const session = new WebSearchSession(new StaticSearchProvider(results), vi.fn());
+
+    expect(await session.search('евро')).toContain('[2] Новости\nhttps://news.example/eur');
+    await session.search('евро снова');
+    expect(session.sources).toHaveLength(2);
+  });
+
+  it('reads only pages from the search results', async () => {
+    const { WebSearchSession } = await import('../src/handlers/web-search.js');
+    const { StaticSearchProvider } = await import('../src/handlers/search-provider.js');
+    const fetchPage = vi.fn().mockResolvedValue('Официальный курс: 100 рублей');
+    const session = new WebSearchSession(new StaticSearchProvider(results), fetchPage);
+
+    expect(await session.readPage(1)).toContain('no source [1]');
+    await session.search('евро');
+    expect(await session.readPage(1)).toBe('[1] Курс евро — ЦБ\n\nОфициальный курс: 100 рублей');
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+    expect(fetchPage).toHaveBeenCalledWith('https://cbr.example/eur');
+  });
+
+  it('lists cited sources, or all of them when nothing is cited', async () => {
+    const { WebSearchSession } = await import('../src/handlers/web-search.js');
+    const { StaticSearchProvider } = await import('../src/handlers/search-provider.js');
+    const session = new WebSearchSession(new StaticSearchProvider(results), vi.fn());
+    await session.search('евро');
+
+    expect(session.formatAnswer('Евро стоит 100 рублей [2].')).toBe(
+      'Евро стоит 100 рублей [2].\n\n**Источники:**\n[2] [Новости](https://news.example/eur)',
+    );
+    expect(session.formatAnswer('Евро стоит 100 рублей.')).toContain(
+      '[1] [Курс евро — ЦБ](https://cbr.example/eur)\n[2] [Новости]',
+    );
+  });
+});
+
+describe('getAssistantResponseWithTools', () => {
+  it('runs tool calls and stores only the final answer', async () => {
+    const { InMemoryConversationStore, setConversationStore } = await import(
+      '../src/handlers/conversation-store.js'
+    );
+    const store = new InMemoryConversationStore();
+    setConversationStore(store);
+    const { createMessage, getAssistantResponseWithTools } = await import(
+      '../src/handlers/openai-handler.js'
+    );
+    createCompletion
+      .mockResolvedValueOnce({
+        choices: [
+          {
+            message: {
+              content: null,
+              tool_calls: [
+                {
+                  id: 'call_1',
+                  type: 'function',
+                  function: { name: 'web_search', arguments: '{"query":"курс евро"}' },
+                },
+              ],
+            },
+          },
+        ],
+      })
+      .mockResolvedValueOnce({ choices: [{ message: { content: '100 рублей [1]' } }] });
+    const search = vi.fn().mockResolvedValue('[1] ЦБ\nhttps://cbr.example/eur\n100');
+    const onToolCall = vi.fn();
+
+    await createMessage('thread_tools', 'Сколько стоит евро?');
+    const answer = await getAssistantResponseWithTools(
+      'thread_tools',
+      [{ definition: { name: 'web_search', description: '', parameters: {} }, execute: search }],
+      { onToolCall },
+    );
+
+    expect(answer).toBe('100 рублей [1]');
+    expect(search).toHaveBeenCalledWith({ query: 'курс евро' });
+    expect(onToolCall).toHaveBeenCalledWith(expect.objectContaining({ name: 'web_search' }));
+    const { messages } = createCompletion.mock.calls[1]![0];
+    expect(messages.slice(-1)).toEqual([
+      { role: 'tool', tool_call_id: 'call_1', content: '[1] ЦБ\nhttps://cbr.example/eur\n100' },
+    ]);
+    const stored = await store.getMessages('thread_tools');
+    expect(stored?.map(m => m.role)).toEqual(['system', 'user', 'assistant']);
+  });
+
+  it('rejects instead of answering when the model fails', async () => {
+    const { getConversationStore } = await import('../src/handlers/conversation-store.js');
+    const { createMessage, getAssistantResponseWithTools } = await import(
+      '../src/handlers/openai-handler.js'
+    );
+    createCompletion.mockRejectedValueOnce(new Error('rate limited'));
+
+    await createMessage('thread_failed', 'Сколько стоит евро?');
+    await expect(getAssistantResponseWithTools('thread_failed', [])).rejects.toThrow(
+      'rate limited',
+    );
+    const stored = await getConversationStore().getMessages('thread_failed');
+    expect(stored?.map(m => m.role)).toEqual(['system', 'user']);
+  });
+});